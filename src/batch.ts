@@ -0,0 +1,118 @@
+/**
+ * Batching for large upserts.
+ *
+ * QortexVector.upsert splits its input into batches bounded by vector
+ * count and by serialized size, so a single JSON-RPC message never grows
+ * past what the stdio pipe or the server comfortably handles. Batches
+ * are sent with bounded concurrency.
+ */
+
+/** Batch limits for QortexVector.upsert. */
+export interface QortexBatchConfig {
+  /** Vectors per qortex_vector_upsert call (default: 500) */
+  maxBatchSize?: number;
+  /** Approximate serialized bytes per call (default: 1 MiB) */
+  maxBatchBytes?: number;
+  /** Batches in flight at once (default: 2) */
+  concurrency?: number;
+}
+
+/** Reported after each batch lands. */
+export interface QortexUpsertProgress {
+  /** 0-based index of the batch that just landed */
+  batch: number;
+  /** Total number of batches */
+  batches: number;
+  /** Vectors upserted so far, across all batches */
+  upserted: number;
+  /** Total vectors in this upsert */
+  total: number;
+  /** Ids returned for this batch */
+  ids: string[];
+}
+
+/** A contiguous slice of the input, `[start, end)`. */
+export interface QortexBatchRange {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_BATCH_CONFIG: Required<QortexBatchConfig> = {
+  maxBatchSize: 500,
+  maxBatchBytes: 1024 * 1024,
+  concurrency: 2,
+};
+
+/**
+ * Split `count` items into ranges no larger than `maxBatchSize` items and
+ * `maxBatchBytes` bytes. An item larger than `maxBatchBytes` on its own
+ * gets a batch of one.
+ *
+ * @param sizeOf - Serialized size of item `i` in bytes
+ */
+export function planBatches(
+  count: number,
+  sizeOf: (index: number) => number,
+  config: QortexBatchConfig = {},
+): QortexBatchRange[] {
+  const maxBatchSize = Math.max(
+    1,
+    config.maxBatchSize ?? DEFAULT_BATCH_CONFIG.maxBatchSize,
+  );
+  const maxBatchBytes = config.maxBatchBytes ?? DEFAULT_BATCH_CONFIG.maxBatchBytes;
+
+  const ranges: QortexBatchRange[] = [];
+  let start = 0;
+  let bytes = 0;
+  for (let i = 0; i < count; i++) {
+    const size = sizeOf(i);
+    const full =
+      i - start >= maxBatchSize || (i > start && bytes + size > maxBatchBytes);
+    if (full) {
+      ranges.push({ start, end: i });
+      start = i;
+      bytes = 0;
+    }
+    bytes += size;
+  }
+  if (count > start) ranges.push({ start, end: count });
+  return ranges;
+}
+
+/**
+ * Run `task` for every item with at most `concurrency` in flight.
+ *
+ * After the first failure no new tasks are started; tasks already in
+ * flight are awaited. Returns per-item outcomes in input order, with
+ * `undefined` for items that were never started.
+ */
+export async function runConcurrently<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<Array<PromiseSettledResult<R> | undefined>> {
+  const outcomes: Array<PromiseSettledResult<R> | undefined> = new Array(
+    items.length,
+  ).fill(undefined);
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        outcomes[index] = {
+          status: "fulfilled",
+          value: await task(items[index], index),
+        };
+      } catch (reason) {
+        outcomes[index] = { status: "rejected", reason };
+        failed = true;
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return outcomes;
+}
@@ -0,0 +1,345 @@
+/**
+ * Tool capability negotiation with the qortex MCP server.
+ *
+ * On connect, the client lists the server's tools and checks that every
+ * qortex_* tool QortexVector depends on exists and accepts the arguments
+ * we send. The result drives fail-fast (strict) or degraded operation.
+ * Optional tools (domain management, graph writes) only disable their
+ * own methods; strict mode checks the core vector and retrieval tools.
+ */
+
+import type { Implementation, Tool } from "@modelcontextprotocol/sdk/types.js";
+
+/** A qortex tool a QortexVector method depends on. */
+export interface QortexToolRequirement {
+  /** QortexVector method that calls the tool */
+  method: string;
+  /** MCP tool name */
+  tool: string;
+  /** Argument names the method sends */
+  arguments: string[];
+  /**
+   * Needed only by an optional feature: a missing or incompatible tool
+   * disables its method but does not make the server incompatible
+   */
+  optional?: boolean;
+}
+
+/** Negotiated status of one required tool. */
+export interface QortexToolStatus {
+  tool: string;
+  available: boolean;
+  /** Arguments we send that the server's input schema does not declare */
+  unknownArguments: string[];
+  /** Arguments the server requires that we never send */
+  missingRequired: string[];
+  compatible: boolean;
+  /** Only optional features depend on the tool */
+  optional: boolean;
+}
+
+/** What the connected qortex server supports. */
+export interface QortexCapabilities {
+  /** Server name and version from the MCP initialize handshake */
+  server: { name: string; version: string } | null;
+  /** False when the server is older than `minServerVersion` */
+  versionSupported: boolean;
+  /** Status per required tool */
+  tools: Record<string, QortexToolStatus>;
+  /** Availability per QortexVector method */
+  methods: Record<string, boolean>;
+  /**
+   * True when every non-optional tool is compatible and the version is
+   * supported
+   */
+  compatible: boolean;
+}
+
+/** Tools QortexVector depends on, with the arguments each method sends. */
+export const QORTEX_VECTOR_TOOLS: QortexToolRequirement[] = [
+  {
+    method: "createIndex",
+    tool: "qortex_vector_create_index",
+    arguments: ["index_name", "dimension", "metric"],
+  },
+  {
+    method: "listIndexes",
+    tool: "qortex_vector_list_indexes",
+    arguments: [],
+  },
+  {
+    method: "describeIndex",
+    tool: "qortex_vector_describe_index",
+    arguments: ["index_name"],
+  },
+  {
+    method: "deleteIndex",
+    tool: "qortex_vector_delete_index",
+    arguments: ["index_name"],
+  },
+  {
+    method: "upsert",
+    tool: "qortex_vector_upsert",
+    arguments: ["index_name", "vectors", "metadata", "ids"],
+  },
+  {
+    method: "query",
+    tool: "qortex_vector_query",
+    arguments: ["index_name", "query_vector", "top_k", "filter", "include_vector"],
+  },
+  {
+    method: "updateVector",
+    tool: "qortex_vector_update",
+    arguments: ["index_name", "id", "filter", "vector", "metadata"],
+  },
+  {
+    method: "deleteVector",
+    tool: "qortex_vector_delete",
+    arguments: ["index_name", "id"],
+  },
+  {
+    method: "deleteVectors",
+    tool: "qortex_vector_delete_many",
+    arguments: ["index_name", "ids", "filter"],
+  },
+  {
+    method: "textQuery",
+    tool: "qortex_query",
+    arguments: ["context", "domains", "top_k", "min_confidence", "mode"],
+  },
+  {
+    method: "explore",
+    tool: "qortex_explore",
+    arguments: ["node_id", "depth"],
+  },
+  {
+    method: "getRules",
+    tool: "qortex_rules",
+    arguments: [
+      "domains",
+      "concept_ids",
+      "categories",
+      "include_derived",
+      "min_confidence",
+    ],
+  },
+  {
+    method: "feedback",
+    tool: "qortex_feedback",
+    arguments: ["query_id", "outcomes", "source"],
+  },
+  {
+    method: "listDomains",
+    tool: "qortex_domains",
+    arguments: [],
+    optional: true,
+  },
+  {
+    method: "describeDomain",
+    tool: "qortex_describe_domain",
+    arguments: ["domain"],
+    optional: true,
+  },
+  {
+    method: "createDomain",
+    tool: "qortex_create_domain",
+    arguments: ["domain", "description"],
+    optional: true,
+  },
+  {
+    method: "deleteDomain",
+    tool: "qortex_delete_domain",
+    arguments: ["domain"],
+    optional: true,
+  },
+  {
+    method: "addConcepts",
+    tool: "qortex_add_concepts",
+    arguments: ["concepts"],
+    optional: true,
+  },
+  {
+    method: "updateConcept",
+    tool: "qortex_update_concept",
+    arguments: ["id", "changes"],
+    optional: true,
+  },
+  {
+    method: "deleteConcepts",
+    tool: "qortex_delete_concepts",
+    arguments: ["ids"],
+    optional: true,
+  },
+  {
+    method: "addEdges",
+    tool: "qortex_add_edges",
+    arguments: ["edges"],
+    optional: true,
+  },
+  {
+    method: "updateEdge",
+    tool: "qortex_update_edge",
+    arguments: ["edge", "changes"],
+    optional: true,
+  },
+  {
+    method: "deleteEdges",
+    tool: "qortex_delete_edges",
+    arguments: ["edges"],
+    optional: true,
+  },
+  {
+    method: "addRules",
+    tool: "qortex_add_rules",
+    arguments: ["rules"],
+    optional: true,
+  },
+  {
+    method: "updateRule",
+    tool: "qortex_update_rule",
+    arguments: ["id", "changes"],
+    optional: true,
+  },
+  {
+    method: "deleteRules",
+    tool: "qortex_delete_rules",
+    arguments: ["ids"],
+    optional: true,
+  },
+];
+
+/**
+ * Compare the server's tool list against what QortexVector needs.
+ *
+ * @param listed - Tools reported by the server's tools/list
+ * @param server - Server info from the initialize handshake, if known
+ * @param requirements - Tools and arguments to check
+ * @param minServerVersion - Oldest server version considered supported
+ */
+export function negotiateCapabilities(
+  listed: Tool[],
+  server: Implementation | undefined,
+  requirements: QortexToolRequirement[],
+  minServerVersion?: string,
+): QortexCapabilities {
+  const byName = new Map(listed.map((tool) => [tool.name, tool]));
+  const tools: Record<string, QortexToolStatus> = {};
+  const methods: Record<string, boolean> = {};
+
+  for (const requirement of requirements) {
+    const status =
+      tools[requirement.tool] ??
+      checkTool(requirement, byName.get(requirement.tool));
+    tools[requirement.tool] = {
+      ...status,
+      optional: status.optional && requirement.optional === true,
+    };
+    methods[requirement.method] = status.compatible;
+  }
+
+  const versionSupported =
+    !minServerVersion ||
+    !server ||
+    compareVersions(server.version, minServerVersion) >= 0;
+
+  return {
+    server: server ? { name: server.name, version: server.version } : null,
+    versionSupported,
+    tools,
+    methods,
+    compatible:
+      versionSupported &&
+      Object.values(tools).every((t) => t.optional || t.compatible),
+  };
+}
+
+function checkTool(
+  requirement: QortexToolRequirement,
+  tool: Tool | undefined,
+): QortexToolStatus {
+  if (!tool) {
+    return {
+      tool: requirement.tool,
+      available: false,
+      unknownArguments: [],
+      missingRequired: [],
+      compatible: false,
+      optional: requirement.optional === true,
+    };
+  }
+
+  // A schema without declared properties accepts anything we send
+  const properties = tool.inputSchema.properties;
+  const unknownArguments = properties
+    ? requirement.arguments.filter((arg) => !(arg in properties))
+    : [];
+  const missingRequired = (tool.inputSchema.required ?? []).filter(
+    (arg) => !requirement.arguments.includes(arg),
+  );
+
+  return {
+    tool: requirement.tool,
+    available: true,
+    unknownArguments,
+    missingRequired,
+    compatible: unknownArguments.length === 0 && missingRequired.length === 0,
+    optional: requirement.optional === true,
+  };
+}
+
+/**
+ * Render a human-readable report of incompatibilities.
+ *
+ * Lists the server version and every tool that is missing or whose
+ * input schema does not match what QortexVector sends. Optional tools
+ * are marked as such.
+ */
+export function formatCapabilityReport(
+  capabilities: QortexCapabilities,
+  minServerVersion?: string,
+): string {
+  const lines: string[] = [];
+  const server = capabilities.server
+    ? `${capabilities.server.name} ${capabilities.server.version}`
+    : "unknown server";
+  lines.push(`qortex server: ${server}`);
+
+  if (!capabilities.versionSupported) {
+    lines.push(`  version is older than required ${minServerVersion ?? ""}`.trimEnd());
+  }
+  for (const status of Object.values(capabilities.tools)) {
+    if (status.compatible) continue;
+    const tool = status.optional ? `${status.tool} (optional)` : status.tool;
+    if (!status.available) {
+      lines.push(`  ${tool}: missing`);
+      continue;
+    }
+    if (status.unknownArguments.length > 0) {
+      lines.push(
+        `  ${tool}: does not accept ${status.unknownArguments.join(", ")}`,
+      );
+    }
+    if (status.missingRequired.length > 0) {
+      lines.push(`  ${tool}: requires ${status.missingRequired.join(", ")}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/** Compare dotted numeric versions ("0.2.10" > "0.2.9"). Pre-release tags are ignored. */
+export function compareVersions(a: string, b: string): number {
+  const parse = (v: string) =>
+    v
+      .replace(/^v/, "")
+      .split(/[-+]/)[0]
+      .split(".")
+      .map((part) => Number.parseInt(part, 10) || 0);
+  const left = parse(a);
+  const right = parse(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
@@ -2,12 +2,119 @@
  * MCP client wrapper for communicating with the qortex MCP server.
  *
  * Handles connection lifecycle and tool invocation. The qortex server
- * is spawned as a subprocess (stdio transport) or connected to an
- * existing server.
+ * is spawned as a subprocess (stdio transport), reached over HTTP
+ * (Streamable HTTP with SSE fallback), run in-process (in-memory
+ * transport), or connected to an existing server.
+ *
+ * Connections the client opens itself are supervised: if the server exits
+ * or the transport closes unexpectedly, the client marks itself
+ * disconnected and respawns with exponential backoff. Lifecycle events are
+ * emitted so callers can observe crashes and restarts.
+ *
+ * After connecting, the client negotiates tool capabilities (see
+ * capabilities.ts) and either fails fast or disables missing tools.
  */
 
+import { EventEmitter } from "node:events";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import {
+  StreamableHTTPClientTransport,
+  StreamableHTTPError,
+} from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  formatCapabilityReport,
+  negotiateCapabilities,
+  type QortexCapabilities,
+  type QortexToolRequirement,
+} from "./capabilities.js";
+import {
+  QortexToolMissingError,
+  QortexTransportError,
+  type QortexError,
+  classifyServerError,
+  toQortexError,
+} from "./errors.js";
+import { retryDelay, shouldRetry, type QortexRetryPolicy } from "./retry.js";
+import { runMiddleware, type QortexMiddleware } from "./middleware.js";
+
+/** Spawn the qortex server as a subprocess (uses serverCommand/serverArgs/serverEnv). */
+export interface QortexStdioTransportConfig {
+  type: "stdio";
+}
+
+/** Connect to a long-running qortex server shared by many clients. */
+export interface QortexHttpTransportConfig {
+  type: "http";
+  /** MCP endpoint of the qortex server (e.g. "http://qortex:8000/mcp") */
+  url: string | URL;
+  /** Extra headers sent with every request (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /**
+   * Wire protocol. "auto" (default) tries Streamable HTTP and falls back
+   * to the legacy HTTP+SSE transport when the server rejects it.
+   */
+  protocol?: "auto" | "streamable-http" | "sse";
+  /**
+   * Resume an existing Streamable HTTP session instead of initializing a
+   * new one. If the server no longer knows the session, connect() fails
+   * with a non-retryable QortexTransportError rather than falling back.
+   */
+  sessionId?: string;
+}
+
+/** Connect to a server running in the same process (see createQortexTestServer). */
+export interface QortexInMemoryTransportConfig {
+  type: "in-memory";
+  /** Open a fresh client-side transport; called on every (re)connect */
+  createTransport: () => Promise<Transport>;
+}
+
+export type QortexTransportConfig =
+  | QortexStdioTransportConfig
+  | QortexHttpTransportConfig
+  | QortexInMemoryTransportConfig;
+
+/** Restart policy for server connections the client opened itself. */
+export interface QortexSupervisorConfig {
+  /** Consecutive restart attempts before giving up (default: 5) */
+  maxRestarts?: number;
+  /** Delay before the first restart attempt in ms (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay in ms (default: 30000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each failed attempt (default: 2) */
+  backoffFactor?: number;
+  /** A connection that stays up this long refills the restart budget (default: 60000) */
+  resetAfterMs?: number;
+}
+
+/** Lifecycle events emitted by QortexMcpClient. */
+export type QortexClientEvents = {
+  /** The server connection closed or failed unexpectedly. */
+  crashed: [event: { error?: Error }];
+  /** A restart attempt is scheduled after `delayMs`. */
+  restarting: [event: { attempt: number; delayMs: number }];
+  /** The connection was re-established. */
+  reconnected: [event: { attempt: number }];
+  /** The restart budget is exhausted; the next call will try to connect again. */
+  gaveUp: [event: { attempts: number; error?: Error }];
+  /** A failed call is about to be retried (`attempt` is the upcoming attempt). */
+  retry: [
+    event: { tool: string; attempt: number; delayMs: number; error: QortexError },
+  ];
+};
+
+/** Per-call options accepted by callTool and every QortexVector method. */
+export interface QortexCallOptions {
+  /** Abort the call; the server is sent an MCP cancellation notification */
+  signal?: AbortSignal;
+  /** Override the client's default timeout for this call (ms) */
+  timeoutMs?: number;
+}
 
 export interface QortexMcpClientConfig {
   /** Command to spawn the qortex MCP server (default: "uvx") */
@@ -16,17 +123,43 @@ export interface QortexMcpClientConfig {
   serverArgs?: string[];
   /** Environment variables for the server process */
   serverEnv?: Record<string, string>;
+  /** How to reach the qortex server (default: { type: "stdio" }) */
+  transport?: QortexTransportConfig;
+  /** Default per-call timeout in ms (default: 60000) */
+  timeoutMs?: number;
+  /**
+   * What to do when the server lacks required tools (default: "degraded").
+   * "strict" fails connect() with a report, "degraded" disables only the
+   * affected tools, "off" skips negotiation.
+   */
+  capabilityCheck?: "strict" | "degraded" | "off";
+  /** Tools (and the arguments sent to them) checked on connect */
+  requiredTools?: QortexToolRequirement[];
+  /** Oldest qortex server version accepted, e.g. "0.2.0" */
+  minServerVersion?: string;
+  /** Retry policy for transient failures, or false to disable (default: 3 attempts) */
+  retry?: QortexRetryPolicy | false;
+  /** Restart policy after unexpected disconnects, or false to disable */
+  supervisor?: QortexSupervisorConfig | false;
   /** Pre-configured MCP client (skip spawning) */
   mcpClient?: Client;
 }
 
-export class QortexMcpClient {
+export class QortexMcpClient extends EventEmitter<QortexClientEvents> {
   private client: Client | null = null;
-  private transport: StdioClientTransport | null = null;
+  private transport: Transport | null = null;
   private config: QortexMcpClientConfig;
   private _connected = false;
+  private connecting: Promise<void> | null = null;
+  private restarting: Promise<void> | null = null;
+  private closing = false;
+  private restartAttempts = 0;
+  private connectedAt = 0;
+  private _capabilities: QortexCapabilities | null = null;
+  private middlewares: QortexMiddleware[] = [];
 
   constructor(config: QortexMcpClientConfig = {}) {
+    super();
     this.config = config;
     if (config.mcpClient) {
       this.client = config.mcpClient;
@@ -38,9 +171,187 @@ export class QortexMcpClient {
     return this._connected;
   }
 
+  /**
+   * Streamable HTTP session id, if the server assigned one.
+   *
+   * Pass it back as `transport.sessionId` to resume the session from
+   * another process or after a reconnect.
+   */
+  get sessionId(): string | undefined {
+    return this.transport?.sessionId;
+  }
+
+  /**
+   * Add a middleware around every tool call attempt.
+   *
+   * Middlewares run in registration order; see middleware.ts.
+   */
+  use(middleware: QortexMiddleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /** Result of the last capability negotiation, if any. */
+  get capabilities(): QortexCapabilities | null {
+    return this._capabilities;
+  }
+
   async connect(): Promise<void> {
     if (this._connected) return;
+    if (this.restarting) {
+      await this.restarting;
+      if (this._connected) return;
+    }
+    if (!this.connecting) {
+      this.closing = false;
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<void> {
+    if (this.config.transport?.type === "http") {
+      await this.connectHttp(this.config.transport);
+    } else if (this.config.transport?.type === "in-memory") {
+      await this.connectInMemory(this.config.transport);
+    } else {
+      await this.connectStdio();
+    }
+    this.supervise(this.client!);
+    this._connected = true;
+    this.connectedAt = Date.now();
+
+    const mode = this.config.capabilityCheck ?? "degraded";
+    if (mode === "off") return;
+    let capabilities: QortexCapabilities;
+    try {
+      capabilities = await this.negotiate();
+    } catch (err) {
+      await this.abandon();
+      // A resumed session is only checked by its first request
+      const transport = this.config.transport;
+      if (transport?.type === "http" && isExpiredSession(transport, err)) {
+        throw sessionExpiredError(new URL(transport.url), err);
+      }
+      throw toQortexError(err, { tool: "tools/list" });
+    }
+    if (mode === "strict" && !capabilities.compatible) {
+      await this.abandon();
+      throw new QortexToolMissingError(
+        `qortex server is missing required capabilities:\n${formatCapabilityReport(
+          capabilities,
+          this.config.minServerVersion,
+        )}`,
+        { payload: capabilities },
+      );
+    }
+  }
+
+  /**
+   * List the server's tools and check them against `requiredTools`.
+   *
+   * Runs automatically on connect(); call it directly for pre-configured
+   * clients or to refresh after a server upgrade.
+   */
+  async negotiate(): Promise<QortexCapabilities> {
+    if (!this._connected) {
+      await this.connect();
+      if (this._capabilities) return this._capabilities;
+    }
+
+    const tools: Tool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.client!.listTools(
+        cursor ? { cursor } : undefined,
+      );
+      tools.push(...page.tools);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    this._capabilities = negotiateCapabilities(
+      tools,
+      this.client!.getServerVersion(),
+      this.config.requiredTools ?? [],
+      this.config.minServerVersion,
+    );
+    return this._capabilities;
+  }
+
+  /** Watch a freshly opened connection for unexpected close/error. */
+  private supervise(client: Client): void {
+    let lastError: Error | undefined;
+    client.onerror = (error) => {
+      lastError = error;
+    };
+    client.onclose = () => {
+      if (this.client !== client || this.closing) return;
+      this.handleCrash(lastError);
+    };
+  }
+
+  private handleCrash(error?: Error): void {
+    this._connected = false;
+    this.client = null;
+    this.transport = null;
+    this.emit("crashed", { error });
+
+    if (this.config.supervisor === false) return;
+    const resetAfterMs = this.config.supervisor?.resetAfterMs ?? 60_000;
+    if (Date.now() - this.connectedAt >= resetAfterMs) {
+      this.restartAttempts = 0;
+    }
+    this.restarting = this.restart().finally(() => {
+      this.restarting = null;
+    });
+  }
+
+  private async restart(): Promise<void> {
+    const policy = this.config.supervisor || {};
+    const maxRestarts = policy.maxRestarts ?? 5;
+    const initialDelayMs = policy.initialDelayMs ?? 500;
+    const maxDelayMs = policy.maxDelayMs ?? 30_000;
+    const backoffFactor = policy.backoffFactor ?? 2;
+
+    let lastError: Error | undefined;
+    while (this.restartAttempts < maxRestarts) {
+      const attempt = ++this.restartAttempts;
+      const delayMs = Math.min(
+        initialDelayMs * backoffFactor ** (attempt - 1),
+        maxDelayMs,
+      );
+      this.emit("restarting", { attempt, delayMs });
+      await sleep(delayMs);
+      if (this.closing) return;
+
+      try {
+        await this.open();
+        // disconnect() ran while the restart was connecting
+        if (this.closing) {
+          await this.abandon();
+          return;
+        }
+        this.emit("reconnected", { attempt });
+        return;
+      } catch (err) {
+        lastError = err instanceof Error ? err : new Error(String(err));
+      }
+    }
+
+    this.emit("gaveUp", { attempts: this.restartAttempts, error: lastError });
+    this.restartAttempts = 0;
+  }
 
+  private createClient(): Client {
+    return new Client(
+      { name: "mastra-qortex", version: "0.1.0" },
+      { capabilities: {} },
+    );
+  }
+
+  private async connectStdio(): Promise<void> {
     const command = this.config.serverCommand ?? "uvx";
     const args = this.config.serverArgs ?? ["qortex", "mcp-serve"];
     const env: Record<string, string> = {};
@@ -51,22 +362,109 @@ export class QortexMcpClient {
       Object.assign(env, this.config.serverEnv);
     }
 
-    this.transport = new StdioClientTransport({
+    const transport = new StdioClientTransport({
       command,
       args,
       env,
     });
+    const client = this.createClient();
 
-    this.client = new Client(
-      { name: "mastra-qortex", version: "0.1.0" },
-      { capabilities: {} },
-    );
+    try {
+      await client.connect(transport);
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : String(err);
+      throw new QortexTransportError(
+        `Unable to start qortex MCP server (${command}): ${detail}`,
+        { cause: err },
+      );
+    }
+    this.transport = transport;
+    this.client = client;
+  }
 
-    await this.client.connect(this.transport);
-    this._connected = true;
+  private async connectHttp(config: QortexHttpTransportConfig): Promise<void> {
+    const url = new URL(config.url);
+    const protocol = config.protocol ?? "auto";
+    const requestInit: RequestInit | undefined = config.headers
+      ? { headers: config.headers }
+      : undefined;
+
+    if (protocol !== "sse") {
+      const transport = new StreamableHTTPClientTransport(url, {
+        requestInit,
+        sessionId: config.sessionId,
+      });
+      const client = this.createClient();
+      try {
+        await client.connect(transport);
+        this.transport = transport;
+        this.client = client;
+        return;
+      } catch (err) {
+        await transport.close().catch(() => {});
+        if (isExpiredSession(config, err)) {
+          throw sessionExpiredError(url, err);
+        }
+        // Per the MCP backwards-compatibility guidance, a 400/404/405 answer
+        // to the initialize POST means "try the legacy SSE transport". A
+        // resumed session never sent initialize, so it must not fall back.
+        if (
+          protocol === "streamable-http" ||
+          config.sessionId !== undefined ||
+          !isLegacyServerRejection(err)
+        ) {
+          throw unreachableError(url, err);
+        }
+      }
+    }
+
+    const transport = new SSEClientTransport(url, { requestInit });
+    const client = this.createClient();
+    try {
+      await client.connect(transport);
+    } catch (err) {
+      await transport.close().catch(() => {});
+      throw unreachableError(url, err);
+    }
+    this.transport = transport;
+    this.client = client;
+  }
+
+  private async connectInMemory(
+    config: QortexInMemoryTransportConfig,
+  ): Promise<void> {
+    const transport = await config.createTransport();
+    const client = this.createClient();
+    try {
+      await client.connect(transport);
+    } catch (err) {
+      await transport.close().catch(() => {});
+      const detail = err instanceof Error ? err.message : String(err);
+      throw new QortexTransportError(
+        `Unable to connect to in-memory qortex MCP server: ${detail}`,
+        { cause: err },
+      );
+    }
+    this.transport = transport;
+    this.client = client;
+  }
+
+  /**
+   * Drop a connection that open() could not finish. Unlike disconnect(),
+   * this does not mark the client as closing, so a restart loop that
+   * called open() keeps going.
+   */
+  private async abandon(): Promise<void> {
+    const transport = this.transport;
+    // Clearing the client first keeps supervise() from reporting a crash
+    this.client = null;
+    this.transport = null;
+    this._connected = false;
+    await transport?.close().catch(() => {});
   }
 
   async disconnect(): Promise<void> {
+    this.closing = true;
     if (this.transport) {
       await this.transport.close();
       this.transport = null;
@@ -78,22 +476,96 @@ export class QortexMcpClient {
   /**
    * Call a qortex MCP tool and return the parsed result.
    *
+   * Retryable failures of calls that are safe to replay are retried
+   * according to the `retry` policy; each retry emits a `retry` event.
+   *
    * @param name - Tool name (e.g. "qortex_vector_query")
    * @param args - Tool arguments as a plain object
+   * @param options - Abort signal and timeout override for this call
    * @returns Parsed JSON result from the tool
    */
   async callTool(
     name: string,
     args: Record<string, unknown>,
+    options: QortexCallOptions = {},
+  ): Promise<unknown> {
+    const policy = this.config.retry === false ? null : (this.config.retry ?? {});
+    const maxAttempts = policy ? (policy.maxAttempts ?? 3) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await runMiddleware(
+          this.middlewares,
+          {
+            tool: name,
+            args: { ...args },
+            options,
+            attempt,
+            startedAt: Date.now(),
+            state: {},
+          },
+          (ctx) => this.callOnce(ctx.tool, ctx.args, ctx.options),
+        );
+      } catch (err) {
+        if (
+          !policy ||
+          attempt >= maxAttempts ||
+          options.signal?.aborted ||
+          !shouldRetry(err, name, args, policy)
+        ) {
+          throw err;
+        }
+        const delayMs = retryDelay(attempt, policy);
+        this.emit("retry", {
+          tool: name,
+          attempt: attempt + 1,
+          delayMs,
+          error: err as QortexError,
+        });
+        await sleep(delayMs, options.signal);
+      }
+    }
+  }
+
+  private async callOnce(
+    name: string,
+    args: Record<string, unknown>,
+    options: QortexCallOptions,
   ): Promise<unknown> {
+    options.signal?.throwIfAborted();
     if (!this._connected) {
       await this.connect();
     }
 
-    const result = await this.client!.callTool({
-      name,
-      arguments: args,
-    });
+    const status = this._capabilities?.tools[name];
+    if (status && !status.compatible) {
+      throw new QortexToolMissingError(
+        status.available
+          ? `qortex tool ${name} is disabled: its input schema is incompatible with this client`
+          : `qortex tool ${name} is not available on this server`,
+        { tool: name, args, payload: status },
+      );
+    }
+
+    // The SDK sends notifications/cancelled to the server on abort or timeout
+    let result: Awaited<ReturnType<Client["callTool"]>>;
+    try {
+      result = await this.client!.callTool(
+        {
+          name,
+          arguments: args,
+        },
+        undefined,
+        {
+          signal: options.signal,
+          timeout: options.timeoutMs ?? this.config.timeoutMs ?? 60_000,
+        },
+      );
+    } catch (err) {
+      // Caller-initiated aborts surface with the caller's own reason
+      if (options.signal?.aborted) throw err;
+      throw toQortexError(err, { tool: name, args });
+    }
 
     // MCP tool results come as content blocks
     const content = result.content as Array<{ type: string; text?: string }>;
@@ -108,15 +580,86 @@ export class QortexMcpClient {
 
     // Handle MCP error responses that aren't valid JSON
     // (e.g. "Error calling tool 'qortex_vector_create_index'...")
+    let parsed: unknown;
     try {
-      return JSON.parse(textBlock.text);
+      parsed = JSON.parse(textBlock.text);
     } catch {
       // If the result has isError flag, throw with the raw text
       if (result.isError) {
-        throw new Error(`MCP tool error: ${textBlock.text}`);
+        throw classifyServerError(`MCP tool error: ${textBlock.text}`, {
+          tool: name,
+          args,
+          payload: textBlock.text,
+        });
       }
       // Otherwise return the raw text wrapped in an object
       return { raw: textBlock.text };
     }
+
+    // Servers also report failures as `{ error }` in a successful response;
+    // raising here lets middleware and retries see the typed error
+    const error = (parsed as { error?: unknown } | null)?.error;
+    if (error) {
+      const message =
+        typeof error === "string" ? error : JSON.stringify(error);
+      throw classifyServerError(message, {
+        tool: name,
+        args,
+        payload: parsed,
+      });
+    }
+    return parsed;
   }
 }
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function isLegacyServerRejection(err: unknown): boolean {
+  return (
+    err instanceof StreamableHTTPError &&
+    (err.code === 400 || err.code === 404 || err.code === 405)
+  );
+}
+
+/** Per the Streamable HTTP spec, a 404 for a session id means "start a new session". */
+function isExpiredSession(
+  config: QortexHttpTransportConfig,
+  err: unknown,
+): boolean {
+  return (
+    config.sessionId !== undefined &&
+    err instanceof StreamableHTTPError &&
+    err.code === 404
+  );
+}
+
+function sessionExpiredError(url: URL, cause: unknown): QortexTransportError {
+  return new QortexTransportError(
+    `qortex MCP session expired or unknown at ${url.href}; connect without transport.sessionId to start a new session`,
+    { cause, retryable: false },
+  );
+}
+
+function unreachableError(url: URL, cause: unknown): QortexTransportError {
+  const detail = cause instanceof Error ? cause.message : String(cause);
+  return new QortexTransportError(
+    `Unable to reach qortex MCP server at ${url.href}: ${detail}`,
+    { cause },
+  );
+}
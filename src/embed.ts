@@ -0,0 +1,163 @@
+/**
+ * Client-side embeddings.
+ *
+ * QortexVector.upsertText() and queryText() embed with the embedder given
+ * in QortexVectorConfig, so stored and query vectors share one embedding
+ * space whatever qortex uses server-side for textQuery(). An embedder is
+ * either a function or an AI SDK embedding model. Embeddings are cached by
+ * embedder id and content hash, so repeated texts are embedded once and a
+ * cache shared between embedders never mixes their vectors.
+ *
+ * Usage:
+ *   const qortex = new QortexVector({
+ *     id: "qortex",
+ *     embedder: openai.embedding("text-embedding-3-small"),
+ *   });
+ *   await qortex.upsertText({ indexName: "docs", texts: ["..."] });
+ *   const results = await qortex.queryText({ indexName: "docs", text: "..." });
+ */
+
+import { createHash } from "node:crypto";
+import type { QortexCallOptions } from "./client.js";
+import { QortexValidationError } from "./errors.js";
+
+/** Embeds texts, returning one vector per text in order. */
+export type QortexEmbedFn = (
+  texts: string[],
+  options: QortexCallOptions,
+) => Promise<number[][]>;
+
+/** The part of an AI SDK embedding model (e.g. `openai.embedding(...)`) used. */
+export interface QortexEmbeddingModel {
+  /** Used with `modelId` to namespace cached embeddings */
+  provider?: string;
+  modelId?: string;
+  doEmbed(options: {
+    values: string[];
+    abortSignal?: AbortSignal;
+  }): PromiseLike<{ embeddings: number[][] }>;
+  maxEmbeddingsPerCall?: PromiseLike<number | undefined> | number | undefined;
+}
+
+export type QortexEmbedder = QortexEmbedFn | QortexEmbeddingModel;
+
+/**
+ * Embeddings by key: the embedder id and the text's content hash.
+ * Implement it to share a cache across processes.
+ */
+export interface QortexEmbeddingCache {
+  get(key: string): number[] | undefined | Promise<number[] | undefined>;
+  set(key: string, vector: number[]): void | Promise<void>;
+}
+
+export interface QortexEmbedTextsOptions extends QortexCallOptions {
+  /** Embedder id prefixed to cache keys (see embedderId) */
+  namespace?: string;
+}
+
+/** In-memory cache that evicts the least recently used embedding. */
+export class QortexMemoryEmbeddingCache implements QortexEmbeddingCache {
+  private readonly entries = new Map<string, number[]>();
+
+  /** @param maxEntries - Embeddings kept at most (default: 10000) */
+  constructor(private readonly maxEntries = 10_000) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): number[] | undefined {
+    const vector = this.entries.get(key);
+    if (vector) {
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+    }
+    return vector;
+  }
+
+  set(key: string, vector: number[]): void {
+    this.entries.delete(key);
+    this.entries.set(key, vector);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Call an embedder as a function. AI SDK models are called in chunks of
+ * their `maxEmbeddingsPerCall`.
+ */
+export function toEmbedFn(embedder: QortexEmbedder): QortexEmbedFn {
+  if (typeof embedder === "function") return embedder;
+  return async (texts, options) => {
+    const limit = (await embedder.maxEmbeddingsPerCall) ?? texts.length;
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += Math.max(1, limit)) {
+      const { embeddings } = await embedder.doEmbed({
+        values: texts.slice(i, i + Math.max(1, limit)),
+        abortSignal: options.signal,
+      });
+      vectors.push(...embeddings);
+    }
+    return vectors;
+  };
+}
+
+/**
+ * Id of an AI SDK model ("provider:modelId"), or undefined for functions
+ * and models without a modelId.
+ */
+export function embedderId(embedder: QortexEmbedder): string | undefined {
+  if (typeof embedder === "function" || !embedder.modelId) return undefined;
+  return embedder.provider
+    ? `${embedder.provider}:${embedder.modelId}`
+    : embedder.modelId;
+}
+
+/**
+ * Embed `texts`, taking cached embeddings where present. Misses are
+ * de-duplicated, embedded in one call and added to the cache. Cache keys
+ * are `namespace:hash`, so give each embedder its own namespace.
+ */
+export async function embedTexts(
+  embed: QortexEmbedFn,
+  texts: string[],
+  cache: QortexEmbeddingCache | undefined,
+  { namespace = "", ...options }: QortexEmbedTextsOptions = {},
+): Promise<{ vectors: number[][]; cacheHits: number }> {
+  const keys = texts.map((text) => `${namespace}:${contentHash(text)}`);
+  const vectors: Array<number[] | undefined> = await Promise.all(
+    keys.map((key) => cache?.get(key)),
+  );
+  const cacheHits = vectors.filter(Boolean).length;
+
+  const missing = new Map<string, string>();
+  keys.forEach((key, i) => {
+    if (!vectors[i]) missing.set(key, texts[i]);
+  });
+  if (missing.size > 0) {
+    const embedded = await embed([...missing.values()], options);
+    if (embedded.length !== missing.size) {
+      throw new QortexValidationError(
+        `qortex embedder returned ${embedded.length} vectors for ` +
+          `${missing.size} texts`,
+      );
+    }
+    const byKey = new Map([...missing.keys()].map((k, i) => [k, embedded[i]]));
+    await Promise.all([...byKey].map(([key, v]) => cache?.set(key, v)));
+    keys.forEach((key, i) => {
+      vectors[i] ??= byKey.get(key);
+    });
+  }
+  return { vectors: vectors as number[][], cacheHits };
+}
+
+/** SHA-256 of a text, the per-text part of embedding cache keys. */
+export function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
@@ -0,0 +1,283 @@
+/**
+ * Typed errors for qortex failures.
+ *
+ * Every failure surfaced by QortexMcpClient and QortexVector is a
+ * QortexError subclass carrying the tool name, a summary of the
+ * arguments, the raw server payload and whether a retry may succeed.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { QortexValidationIssue } from "./schemas.js";
+
+export interface QortexErrorDetails {
+  /** MCP tool that failed (e.g. "qortex_vector_query") */
+  tool?: string;
+  /** Arguments sent to the tool; summarized before being stored */
+  args?: Record<string, unknown>;
+  /** Raw server payload (parsed JSON or text) */
+  payload?: unknown;
+  /** Whether retrying the same call may succeed */
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/** Base class for every qortex failure. */
+export class QortexError extends Error {
+  readonly tool: string | undefined;
+  /** Arguments with long arrays and strings elided (vectors, metadata lists) */
+  readonly argsSummary: Record<string, unknown> | undefined;
+  readonly payload: unknown;
+  readonly retryable: boolean;
+
+  constructor(message: string, details: QortexErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.tool = details.tool;
+    this.argsSummary = details.args ? summarizeArgs(details.args) : undefined;
+    this.payload = details.payload;
+    this.retryable = details.retryable ?? false;
+  }
+}
+
+/** The named vector index does not exist. */
+export class QortexIndexNotFoundError extends QortexError {}
+
+/** The named knowledge domain does not exist. */
+export class QortexDomainNotFoundError extends QortexError {}
+
+/**
+ * A graph write references concepts, edges or rules that do not exist
+ * (an edge endpoint, a rule's source concept, or the item to update).
+ */
+export class QortexIntegrityError extends QortexError {
+  /** Missing ids; edges appear as "source -relation-> target" */
+  readonly missing: string[];
+
+  constructor(
+    message: string,
+    details: QortexErrorDetails & { missing?: string[] } = {},
+  ) {
+    super(message, details);
+    const reported = (details.payload as { missing?: unknown } | undefined)
+      ?.missing;
+    this.missing =
+      details.missing ??
+      (Array.isArray(reported) ? reported.map(String) : []);
+  }
+}
+
+/** Vector length does not match the index dimension. */
+export class QortexDimensionMismatchError extends QortexError {}
+
+/** The metadata filter is malformed or uses an unsupported operator. */
+export class QortexInvalidFilterError extends QortexError {
+  /** Location of the problem in the filter, e.g. "$and.1.price.$gte" */
+  readonly path: string | undefined;
+
+  constructor(
+    message: string,
+    details: QortexErrorDetails & { path?: string } = {},
+  ) {
+    super(message, details);
+    this.path = details.path;
+  }
+}
+
+/** The connection to the server failed, closed or could not be opened. */
+export class QortexTransportError extends QortexError {
+  constructor(message: string, details: QortexErrorDetails = {}) {
+    super(message, { retryable: true, ...details });
+  }
+}
+
+/** The call did not complete within its timeout. */
+export class QortexTimeoutError extends QortexError {
+  constructor(message: string, details: QortexErrorDetails = {}) {
+    super(message, { retryable: true, ...details });
+  }
+}
+
+/** The server does not provide a tool (or an incompatible version of it). */
+export class QortexToolMissingError extends QortexError {}
+
+/** upsertText() or queryText() was called without a configured embedder. */
+export class QortexEmbedderMissingError extends QortexError {}
+
+/**
+ * A server response did not match its schema (see schemas.ts), or an
+ * embedder returned the wrong number of vectors.
+ */
+export class QortexValidationError extends QortexError {
+  /** Offending paths into the response, e.g. "items.0.score" */
+  readonly issues: QortexValidationIssue[];
+
+  constructor(
+    message: string,
+    details: QortexErrorDetails & { issues?: QortexValidationIssue[] } = {},
+  ) {
+    super(message, details);
+    this.issues = details.issues ?? [];
+  }
+}
+
+/**
+ * A call's configuration or input cannot work, e.g. an ingest manifest
+ * written for another index or a document without a source.
+ */
+export class QortexConfigError extends QortexError {}
+
+/** A retrieval session was used after end(). */
+export class QortexSessionEndedError extends QortexError {}
+
+/** One failed batch of a batched upsert. */
+export interface QortexBatchFailure {
+  /** 0-based batch index */
+  batch: number;
+  /** Input range of the batch, `[start, end)` */
+  start: number;
+  end: number;
+  error: unknown;
+}
+
+/**
+ * A batched upsert failed after some batches landed.
+ *
+ * `upsertedIds` lists the ids that landed, in input order; `pending`
+ * holds the input ranges that were not written (failed or never sent).
+ */
+export class QortexPartialUpsertError extends QortexError {
+  readonly upsertedIds: string[];
+  readonly failures: QortexBatchFailure[];
+  readonly pending: Array<{ start: number; end: number }>;
+
+  constructor(
+    message: string,
+    details: QortexErrorDetails & {
+      upsertedIds: string[];
+      failures: QortexBatchFailure[];
+      pending: Array<{ start: number; end: number }>;
+    },
+  ) {
+    super(message, details);
+    this.upsertedIds = details.upsertedIds;
+    this.failures = details.failures;
+    this.pending = details.pending;
+  }
+}
+
+type QortexErrorClass = new (
+  message: string,
+  details?: QortexErrorDetails,
+) => QortexError;
+
+/** Structured `code` values the server may attach to error payloads. */
+const ERROR_CODES: Record<string, QortexErrorClass> = {
+  index_not_found: QortexIndexNotFoundError,
+  domain_not_found: QortexDomainNotFoundError,
+  missing_reference: QortexIntegrityError,
+  dimension_mismatch: QortexDimensionMismatchError,
+  invalid_filter: QortexInvalidFilterError,
+  tool_not_found: QortexToolMissingError,
+};
+
+/**
+ * Message patterns for servers that only return error text. Each one is
+ * anchored to a phrase qortex uses for that failure, so unrelated
+ * messages that merely mention "filter" or "dimension" stay generic.
+ */
+const ERROR_PATTERNS: Array<[RegExp, QortexErrorClass]> = [
+  [
+    /\bdimension mismatch\b|\bdimension \d+ (?:does not|doesn't) match\b|\bexpected dimension \d+|\balready exists with dimension\b/i,
+    QortexDimensionMismatchError,
+  ],
+  [
+    /\bno such index\b|\bindex(?: '[^']*')? (?:not found|does not exist|doesn't exist)/i,
+    QortexIndexNotFoundError,
+  ],
+  [
+    /\bno such domain\b|\bdomain(?: '[^']*')? (?:not found|does not exist|doesn't exist)/i,
+    QortexDomainNotFoundError,
+  ],
+  [
+    // Graph ids are namespaced ("sec:oauth2"), so they may appear unquoted
+    /\b(?:concept|edge|rule|endpoint)s?(?: '[^']*'| [\w.-]+:[\w:.-]+)? (?:not found|do(?:es)? not exist)/i,
+    QortexIntegrityError,
+  ],
+  [
+    /\b(?:invalid|malformed) filter\b|\b(?:unsupported|unknown|invalid) (?:filter )?operator\b/i,
+    QortexInvalidFilterError,
+  ],
+  [
+    /\bunknown tool\b|\btool(?: '[^']*')? not found/i,
+    QortexToolMissingError,
+  ],
+];
+
+/**
+ * Build the right QortexError for a server-reported failure.
+ *
+ * @param message - Error text from the server
+ * @param details - Tool, arguments and raw payload; `payload.code` wins over text matching
+ */
+export function classifyServerError(
+  message: string,
+  details: QortexErrorDetails = {},
+): QortexError {
+  const code = (details.payload as { code?: unknown } | undefined)?.code;
+  const byCode = typeof code === "string" ? ERROR_CODES[code] : undefined;
+  const ErrorClass =
+    byCode ??
+    ERROR_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ??
+    QortexError;
+  return new ErrorClass(message, details);
+}
+
+/**
+ * Wrap an error thrown while talking to the server (SDK or network).
+ *
+ * QortexErrors pass through unchanged.
+ */
+export function toQortexError(
+  err: unknown,
+  details: QortexErrorDetails = {},
+): QortexError {
+  if (err instanceof QortexError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  const withCause = { ...details, cause: err };
+
+  if (err instanceof McpError) {
+    switch (err.code) {
+      case ErrorCode.RequestTimeout:
+        return new QortexTimeoutError(message, withCause);
+      case ErrorCode.ConnectionClosed:
+        return new QortexTransportError(message, withCause);
+      case ErrorCode.MethodNotFound:
+        return new QortexToolMissingError(message, withCause);
+      default:
+        return classifyServerError(message, { ...withCause, payload: err.data });
+    }
+  }
+
+  // Anything else (EPIPE, fetch failures, "Not connected") is the pipe, not the server
+  return new QortexTransportError(message, withCause);
+}
+
+/** Elide bulky values so errors stay loggable. */
+function summarizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      summary[key] =
+        value.length <= 5 && value.every((v) => typeof v !== "object")
+          ? value
+          : `[${value.length} items]`;
+    } else if (typeof value === "string" && value.length > 200) {
+      summary[key] = `${value.slice(0, 200)}… (${value.length} chars)`;
+    } else {
+      summary[key] = value;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,377 @@
+/**
+ * Retrieval quality evaluation.
+ *
+ * Runs a labeled dataset (queries plus the ids that should come back)
+ * through textQuery() in each retrieval mode, and optionally through
+ * query() with caller-supplied embeddings, then scores every mode with
+ * recall@k, precision@k, MRR and nDCG@k, overall and per domain.
+ *
+ * Usage:
+ *   const before = await evaluateRetrieval(qortex, dataset, { k: 10 });
+ *   // ... feedback() rounds
+ *   const after = await evaluateRetrieval(qortex, dataset, { k: 10 });
+ *   console.log(formatEvalReport(after, before));
+ *   const delta = compareEvalReports(before, after);
+ *
+ * Reports are plain JSON, so they can be stored and compared later.
+ */
+
+import { runConcurrently } from "./batch.js";
+import type { QortexCallOptions } from "./client.js";
+import { QortexConfigError } from "./errors.js";
+import type { QortexVector } from "./vector.js";
+
+/** The QortexVector methods evaluation calls. */
+export type QortexEvalSource = Pick<QortexVector, "textQuery" | "query">;
+
+/**
+ * Retrieval under test: a textQuery() mode, or "vector" for query() with
+ * the case's own embedding.
+ */
+export type QortexEvalMode = "vec" | "graph" | "auto" | "vector";
+
+export type QortexEvalMetric = "recall" | "precision" | "mrr" | "ndcg";
+
+/** One labeled query. */
+export interface QortexEvalCase {
+  /** Stable id for the report (default: the case's index) */
+  id?: string;
+  query: string;
+  /** Embedding of `query`, used by the "vector" mode */
+  vector?: number[];
+  /** Item ids or node_ids that a good retrieval returns */
+  relevant: string[];
+  /** Domain to report the case under (default: "all") */
+  domain?: string;
+}
+
+export interface QortexEvalDataset {
+  name?: string;
+  cases: QortexEvalCase[];
+}
+
+export interface QortexEvalOptions extends QortexCallOptions {
+  /** Cutoff for every metric (default: 10) */
+  k?: number;
+  /**
+   * Modes to run (default: "vec", "graph" and "auto", plus "vector" when
+   * `indexName` is set)
+   */
+  modes?: QortexEvalMode[];
+  /** Vector index for the "vector" mode */
+  indexName?: string;
+  /** Restrict textQuery() to these domains */
+  domains?: string[];
+  /** Queries in flight at once (default: 4) */
+  concurrency?: number;
+}
+
+export type QortexEvalMetrics = Record<QortexEvalMetric, number>;
+
+/** Averages over a set of cases. */
+export interface QortexEvalSummary extends QortexEvalMetrics {
+  cases: number;
+}
+
+export interface QortexEvalCaseResult {
+  caseId: string;
+  domain: string;
+  /**
+   * Ids returned, in rank order; an item whose node_id (but not id) is
+   * labeled relevant appears as its node_id
+   */
+  retrieved: string[];
+  metrics: QortexEvalMetrics;
+}
+
+export interface QortexEvalModeReport {
+  overall: QortexEvalSummary;
+  byDomain: Record<string, QortexEvalSummary>;
+  cases: QortexEvalCaseResult[];
+}
+
+export interface QortexEvalReport {
+  dataset: string;
+  k: number;
+  /** ISO timestamp */
+  createdAt: string;
+  modes: Partial<Record<QortexEvalMode, QortexEvalModeReport>>;
+}
+
+/** One metric before and after. */
+export interface QortexEvalChange {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export type QortexEvalDelta = Record<QortexEvalMetric, QortexEvalChange>;
+
+/** Metric changes between two reports, for modes and domains in both. */
+export interface QortexEvalComparison {
+  dataset: string;
+  k: number;
+  modes: Partial<
+    Record<
+      QortexEvalMode,
+      { overall: QortexEvalDelta; byDomain: Record<string, QortexEvalDelta> }
+    >
+  >;
+}
+
+const METRICS: QortexEvalMetric[] = ["recall", "precision", "mrr", "ndcg"];
+
+const DEFAULT_DOMAIN = "all";
+
+/**
+ * Run every case through every mode and score the results. Cases without
+ * a `vector` are skipped in the "vector" mode. Failed queries reject the
+ * whole evaluation.
+ */
+export async function evaluateRetrieval(
+  source: QortexEvalSource,
+  dataset: QortexEvalDataset,
+  options: QortexEvalOptions = {},
+): Promise<QortexEvalReport> {
+  const k = options.k ?? 10;
+  const modes =
+    options.modes ??
+    (options.indexName
+      ? (["vec", "graph", "auto", "vector"] as const)
+      : (["vec", "graph", "auto"] as const));
+  if (modes.includes("vector") && !options.indexName) {
+    throw new QortexConfigError(
+      'qortex evaluation mode "vector" requires indexName',
+    );
+  }
+  const call = { signal: options.signal, timeoutMs: options.timeoutMs };
+
+  const report: QortexEvalReport = {
+    dataset: dataset.name ?? "dataset",
+    k,
+    createdAt: new Date().toISOString(),
+    modes: {},
+  };
+  for (const mode of modes) {
+    const cases = dataset.cases
+      .map((c, i) => ({ ...c, id: c.id ?? String(i) }))
+      .filter((c) => mode !== "vector" || c.vector);
+
+    const outcomes = await runConcurrently(
+      cases,
+      options.concurrency ?? 4,
+      async (c): Promise<string[]> => {
+        if (mode === "vector") {
+          const results = await source.query({
+            indexName: options.indexName!,
+            queryVector: c.vector!,
+            topK: k,
+            ...call,
+          });
+          return results.map((r) => r.id);
+        }
+        const result = await source.textQuery(c.query, {
+          mode,
+          topK: k,
+          domains: options.domains,
+          ...call,
+        });
+        // Report each item under whichever of its ids the labels use
+        const wanted = new Set(c.relevant);
+        return result.items.map((item) =>
+          !wanted.has(item.id) && item.node_id ? item.node_id : item.id,
+        );
+      },
+    );
+    const failed = outcomes.find((o) => o?.status === "rejected");
+    if (failed?.status === "rejected") throw failed.reason;
+
+    const results = cases.map((c, i): QortexEvalCaseResult => {
+      const outcome = outcomes[i];
+      const retrieved = outcome?.status === "fulfilled" ? outcome.value : [];
+      return {
+        caseId: c.id,
+        domain: c.domain ?? DEFAULT_DOMAIN,
+        retrieved,
+        metrics: scoreRanking(retrieved, c.relevant, k),
+      };
+    });
+    report.modes[mode] = summarizeMode(results);
+  }
+  return report;
+}
+
+/**
+ * Score one ranking against binary relevance labels. A relevant id
+ * retrieved more than once counts once, at its best rank.
+ */
+export function scoreRanking(
+  retrieved: string[],
+  relevant: string[],
+  k: number,
+): QortexEvalMetrics {
+  const wanted = new Set(relevant);
+  const seen = new Set<string>();
+  let hits = 0;
+  let dcg = 0;
+  let firstRank = 0;
+  for (const [i, id] of retrieved.slice(0, k).entries()) {
+    if (!wanted.has(id) || seen.has(id)) continue;
+    seen.add(id);
+    hits++;
+    dcg += 1 / Math.log2(i + 2);
+    firstRank ||= i + 1;
+  }
+
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(wanted.size, k); i++) {
+    idealDcg += 1 / Math.log2(i + 2);
+  }
+  return {
+    recall: wanted.size > 0 ? hits / wanted.size : 0,
+    precision: k > 0 ? hits / k : 0,
+    mrr: firstRank > 0 ? 1 / firstRank : 0,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+  };
+}
+
+/** Per-metric change from `before` to `after`. */
+export function compareEvalReports(
+  before: QortexEvalReport,
+  after: QortexEvalReport,
+): QortexEvalComparison {
+  const comparison: QortexEvalComparison = {
+    dataset: after.dataset,
+    k: after.k,
+    modes: {},
+  };
+  for (const [mode, current] of modeEntries(after)) {
+    const previous = before.modes[mode];
+    if (!previous) continue;
+    const byDomain: Record<string, QortexEvalDelta> = {};
+    for (const [domain, summary] of Object.entries(current.byDomain)) {
+      const old = previous.byDomain[domain];
+      if (old) byDomain[domain] = delta(old, summary);
+    }
+    comparison.modes[mode] = {
+      overall: delta(previous.overall, current.overall),
+      byDomain,
+    };
+  }
+  return comparison;
+}
+
+/**
+ * Markdown tables of a report: one row per mode, overall and per
+ * domain. With `baseline`, each cell also shows the change since it.
+ */
+export function formatEvalReport(
+  report: QortexEvalReport,
+  baseline?: QortexEvalReport,
+): string {
+  const comparison = baseline && compareEvalReports(baseline, report);
+  const k = report.k;
+  const header = [
+    `| Mode | Recall@${k} | Precision@${k} | MRR | nDCG@${k} | Cases |`,
+    "| --- | ---: | ---: | ---: | ---: | ---: |",
+  ];
+  const row = (
+    mode: QortexEvalMode,
+    summary: QortexEvalSummary,
+    changes?: QortexEvalDelta,
+  ) => {
+    const cells = METRICS.map((metric) => {
+      const value = summary[metric].toFixed(3);
+      const change = changes?.[metric].delta;
+      return change === undefined ? value : `${value} (${signed(change)})`;
+    });
+    return `| ${mode} | ${cells.join(" | ")} | ${summary.cases} |`;
+  };
+
+  const lines = [`# Retrieval evaluation: ${report.dataset}`, ""];
+  if (baseline) {
+    lines.push(`Compared with the run from ${baseline.createdAt}.`, "");
+  }
+  lines.push(...header);
+  for (const [mode, result] of modeEntries(report)) {
+    lines.push(row(mode, result.overall, comparison?.modes[mode]?.overall));
+  }
+
+  const domains = [
+    ...new Set(modeEntries(report).flatMap(([, r]) => Object.keys(r.byDomain))),
+  ].sort();
+  if (domains.length > 1) {
+    lines.push("", "## By domain");
+    for (const domain of domains) {
+      lines.push("", `### ${domain}`, "", ...header);
+      for (const [mode, result] of modeEntries(report)) {
+        const summary = result.byDomain[domain];
+        if (!summary) continue;
+        const changes = comparison?.modes[mode]?.byDomain[domain];
+        lines.push(row(mode, summary, changes));
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+function summarizeMode(results: QortexEvalCaseResult[]): QortexEvalModeReport {
+  const byDomain = new Map<string, QortexEvalCaseResult[]>();
+  for (const result of results) {
+    const group = byDomain.get(result.domain) ?? [];
+    group.push(result);
+    byDomain.set(result.domain, group);
+  }
+  return {
+    overall: average(results),
+    byDomain: Object.fromEntries(
+      [...byDomain].map(([domain, group]) => [domain, average(group)]),
+    ),
+    cases: results,
+  };
+}
+
+function average(results: QortexEvalCaseResult[]): QortexEvalSummary {
+  const summary: QortexEvalSummary = {
+    recall: 0,
+    precision: 0,
+    mrr: 0,
+    ndcg: 0,
+    cases: results.length,
+  };
+  if (results.length === 0) return summary;
+  for (const metric of METRICS) {
+    const total = results.reduce((sum, r) => sum + r.metrics[metric], 0);
+    summary[metric] = total / results.length;
+  }
+  return summary;
+}
+
+function delta(
+  before: QortexEvalMetrics,
+  after: QortexEvalMetrics,
+): QortexEvalDelta {
+  return Object.fromEntries(
+    METRICS.map((metric) => [
+      metric,
+      {
+        before: before[metric],
+        after: after[metric],
+        delta: after[metric] - before[metric],
+      },
+    ]),
+  ) as QortexEvalDelta;
+}
+
+function modeEntries(
+  report: QortexEvalReport,
+): Array<[QortexEvalMode, QortexEvalModeReport]> {
+  return Object.entries(report.modes) as Array<
+    [QortexEvalMode, QortexEvalModeReport]
+  >;
+}
+
+function signed(value: number): string {
+  const fixed = value.toFixed(3);
+  return value >= 0 && !fixed.startsWith("-") ? `+${fixed}` : fixed;
+}
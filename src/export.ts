@@ -0,0 +1,326 @@
+/**
+ * Serialize graph neighborhoods for inspection: Graphviz DOT, Mermaid
+ * flowcharts, GraphML and JSON-LD.
+ *
+ * Every exporter accepts an ExploreResult or any { nodes, edges } graph
+ * (e.g. QortexGraphTraversal.subgraph()). Nodes are grouped by domain,
+ * edges are labelled "relation_type (confidence)", and linked rules are
+ * added as annotation nodes when `includeRules` is set.
+ *
+ * Usage:
+ *   const explored = await qortex.explore("sec:oauth", 2);
+ *   console.log(toMermaid(explored, { includeRules: true }));
+ */
+
+import type {
+  ExploreResult,
+  QortexEdge,
+  QortexNode,
+  QortexRule,
+} from "./types.js";
+import { xml } from "./xml.js";
+
+/** A graph to export. */
+export interface QortexGraphData {
+  nodes: QortexNode[];
+  edges: QortexEdge[];
+  /** Rules to annotate concepts with (used when `includeRules` is set) */
+  rules?: QortexRule[];
+}
+
+export interface QortexExportOptions {
+  /** Add linked rules as annotations on their source concepts (default: false) */
+  includeRules?: boolean;
+  /** Graph name, where the format has one (default: "qortex") */
+  name?: string;
+}
+
+/** Graphviz DOT, one cluster per domain. */
+export function toDot(
+  input: ExploreResult | QortexGraphData,
+  options: QortexExportOptions = {},
+): string {
+  const graph = normalize(input);
+  const ids = nodeIds(graph);
+  const lines = [`digraph ${dotString(options.name ?? "qortex")} {`];
+  lines.push("  rankdir=LR;", "  node [shape=box, style=rounded];");
+
+  for (const [i, [domain, nodes]] of byDomain(graph.nodes).entries()) {
+    lines.push(`  subgraph cluster_${i} {`, `    label=${dotString(domain)};`);
+    for (const node of nodes) {
+      lines.push(`    ${ids.get(node.id)} [label=${dotString(node.name)}];`);
+    }
+    lines.push("  }");
+  }
+  for (const edge of graph.edges) {
+    lines.push(
+      `  ${ids.get(edge.source_id)} -> ${ids.get(edge.target_id)} ` +
+        `[label=${dotString(edgeLabel(edge))}];`,
+    );
+  }
+  for (const [i, rule] of annotations(graph, ids, options).entries()) {
+    lines.push(
+      `  r${i} [shape=note, label=${dotString(rule.text)}];`,
+      ...linkedConcepts(rule, ids).map(
+        (id) => `  r${i} -> ${id} [style=dashed, arrowhead=none];`,
+      ),
+    );
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/** Mermaid flowchart, one subgraph per domain. */
+export function toMermaid(
+  input: ExploreResult | QortexGraphData,
+  options: QortexExportOptions = {},
+): string {
+  const graph = normalize(input);
+  const ids = nodeIds(graph);
+  const lines = ["flowchart LR"];
+
+  for (const [i, [domain, nodes]] of byDomain(graph.nodes).entries()) {
+    lines.push(`  subgraph d${i}[${mermaidString(domain)}]`);
+    for (const node of nodes) {
+      lines.push(`    ${ids.get(node.id)}[${mermaidString(node.name)}]`);
+    }
+    lines.push("  end");
+  }
+  for (const edge of graph.edges) {
+    lines.push(
+      `  ${ids.get(edge.source_id)} -->|${mermaidString(edgeLabel(edge))}| ` +
+        ids.get(edge.target_id),
+    );
+  }
+  for (const [i, rule] of annotations(graph, ids, options).entries()) {
+    lines.push(
+      `  r${i}>${mermaidString(rule.text)}]`,
+      ...linkedConcepts(rule, ids).map((id) => `  r${i} -.- ${id}`),
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * GraphML with qortex fields as data keys. Each domain is a group node
+ * holding a nested graph of its concepts; rules become nodes with
+ * kind "rule" linked to their concepts by "annotates" edges.
+ */
+export function toGraphML(
+  input: ExploreResult | QortexGraphData,
+  options: QortexExportOptions = {},
+): string {
+  const graph = normalize(input);
+  const ids = nodeIds(graph);
+  const data = (key: string, value: unknown) =>
+    `<data key="${key}">${xml(String(value))}</data>`;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    `  <key id="kind" for="node" attr.name="kind" attr.type="string"/>`,
+    `  <key id="name" for="node" attr.name="name" attr.type="string"/>`,
+    `  <key id="description" for="node" attr.name="description" attr.type="string"/>`,
+    `  <key id="domain" for="node" attr.name="domain" attr.type="string"/>`,
+    `  <key id="text" for="node" attr.name="text" attr.type="string"/>`,
+    `  <key id="category" for="node" attr.name="category" attr.type="string"/>`,
+    `  <key id="relation_type" for="edge" attr.name="relation_type" attr.type="string"/>`,
+    `  <key id="confidence" for="all" attr.name="confidence" attr.type="double"/>`,
+    `  <graph id=${xmlAttr(options.name ?? "qortex")} edgedefault="directed">`,
+  ];
+
+  for (const [domain, nodes] of byDomain(graph.nodes)) {
+    const groupId = `domain:${domain}`;
+    lines.push(
+      `    <node id=${xmlAttr(groupId)}>`,
+      `      ${data("kind", "domain")}${data("name", domain)}`,
+      `      <graph id=${xmlAttr(`${groupId}:`)} edgedefault="directed">`,
+    );
+    for (const node of nodes) {
+      lines.push(
+        `        <node id=${xmlAttr(node.id)}>` +
+          data("kind", "concept") +
+          data("name", node.name) +
+          data("description", node.description) +
+          data("domain", node.domain) +
+          data("confidence", node.confidence) +
+          `</node>`,
+      );
+    }
+    lines.push("      </graph>", "    </node>");
+  }
+  for (const edge of graph.edges) {
+    lines.push(
+      `    <edge source=${xmlAttr(edge.source_id)} target=${xmlAttr(edge.target_id)}>` +
+        data("relation_type", edge.relation_type) +
+        data("confidence", edge.confidence) +
+        `</edge>`,
+    );
+  }
+  for (const rule of annotations(graph, ids, options)) {
+    lines.push(
+      `    <node id=${xmlAttr(rule.id)}>` +
+        data("kind", "rule") +
+        data("text", rule.text) +
+        data("domain", rule.domain) +
+        (rule.category !== null ? data("category", rule.category) : "") +
+        data("confidence", rule.confidence) +
+        `</node>`,
+      ...rule.source_concepts
+        .filter((id) => ids.has(id))
+        .map(
+          (id) =>
+            `    <edge source=${xmlAttr(rule.id)} target=${xmlAttr(id)}>` +
+            data("relation_type", "annotates") +
+            `</edge>`,
+        ),
+    );
+  }
+
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n") + "\n";
+}
+
+/** JSON-LD vocabulary used by toJsonLd. */
+export const QORTEX_JSONLD_CONTEXT = {
+  "@vocab": "https://qortex.dev/ns#",
+  schema: "https://schema.org/",
+  name: "schema:name",
+  description: "schema:description",
+  domain: { "@id": "domain", "@type": "@id" },
+  source: { "@id": "source", "@type": "@id" },
+  target: { "@id": "target", "@type": "@id" },
+  annotates: { "@id": "annotates", "@type": "@id", "@container": "@set" },
+} as const;
+
+/**
+ * JSON-LD document: Domain, Concept and Relation resources (plus Rule
+ * resources with `annotates` links when `includeRules` is set).
+ */
+export function toJsonLd(
+  input: ExploreResult | QortexGraphData,
+  options: QortexExportOptions = {},
+): Record<string, unknown> {
+  const graph = normalize(input);
+  const ids = nodeIds(graph);
+  const resources: Record<string, unknown>[] = [];
+
+  for (const [domain] of byDomain(graph.nodes)) {
+    resources.push({
+      "@id": `domain:${domain}`,
+      "@type": "Domain",
+      name: domain,
+    });
+  }
+  for (const node of graph.nodes) {
+    resources.push({
+      "@id": node.id,
+      "@type": "Concept",
+      name: node.name,
+      description: node.description,
+      domain: `domain:${node.domain}`,
+      confidence: node.confidence,
+    });
+  }
+  for (const edge of graph.edges) {
+    resources.push({
+      "@type": "Relation",
+      source: edge.source_id,
+      target: edge.target_id,
+      relationType: edge.relation_type,
+      confidence: edge.confidence,
+    });
+  }
+  for (const rule of annotations(graph, ids, options)) {
+    resources.push({
+      "@id": rule.id,
+      "@type": "Rule",
+      text: rule.text,
+      ...(rule.category !== null ? { category: rule.category } : {}),
+      confidence: rule.confidence,
+      annotates: rule.source_concepts.filter((id) => ids.has(id)),
+    });
+  }
+
+  return {
+    "@context": QORTEX_JSONLD_CONTEXT,
+    "@id": options.name ?? "qortex",
+    "@graph": resources,
+  };
+}
+
+/** Turn an ExploreResult into plain graph data; de-duplicate nodes and edges. */
+function normalize(input: ExploreResult | QortexGraphData): QortexGraphData {
+  const nodes =
+    "node" in input ? [input.node, ...input.neighbors] : input.nodes;
+  const unique = new Map(nodes.map((node) => [node.id, node]));
+  const edges = new Map(
+    input.edges.map((edge) => [
+      `${edge.source_id}\u0000${edge.relation_type}\u0000${edge.target_id}`,
+      edge,
+    ]),
+  );
+  return {
+    nodes: [...unique.values()],
+    // Drop edges to nodes outside the export so no format dangles
+    edges: [...edges.values()].filter(
+      (e) => unique.has(e.source_id) && unique.has(e.target_id),
+    ),
+    rules: input.rules,
+  };
+}
+
+/** Short, syntax-safe ids (n0, n1, …) for DOT and Mermaid. */
+function nodeIds(graph: QortexGraphData): Map<string, string> {
+  return new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+}
+
+function byDomain(nodes: QortexNode[]): Array<[string, QortexNode[]]> {
+  const groups = new Map<string, QortexNode[]>();
+  for (const node of nodes) {
+    const group = groups.get(node.domain) ?? [];
+    group.push(node);
+    groups.set(node.domain, group);
+  }
+  return [...groups.entries()];
+}
+
+/** Rules to annotate with: requested, de-duplicated, linked to an exported node. */
+function annotations(
+  graph: QortexGraphData,
+  ids: Map<string, string>,
+  options: QortexExportOptions,
+): QortexRule[] {
+  if (!options.includeRules) return [];
+  const rules = new Map((graph.rules ?? []).map((rule) => [rule.id, rule]));
+  return [...rules.values()].filter(
+    (rule) => linkedConcepts(rule, ids).length > 0,
+  );
+}
+
+/** Short ids of the exported concepts a rule is linked to. */
+function linkedConcepts(rule: QortexRule, ids: Map<string, string>): string[] {
+  return rule.source_concepts.flatMap((id) => {
+    const short = ids.get(id);
+    return short ? [short] : [];
+  });
+}
+
+function edgeLabel(edge: QortexEdge): string {
+  return `${edge.relation_type} (${edge.confidence.toFixed(2)})`;
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+/** Quoted Mermaid label; quotes become entity codes, newlines <br>. */
+function mermaidString(value: string): string {
+  return `"${value.replace(/"/g, "#quot;").replace(/\n/g, "<br>")}"`;
+}
+
+function xmlAttr(value: string): string {
+  return `"${xml(value)}"`;
+}
@@ -0,0 +1,492 @@
+/**
+ * Buffered, durable feedback.
+ *
+ * QortexVector.feedback() waits for the server, so calling it inline adds
+ * latency to agent turns, and the signal is lost if the server is down.
+ * QortexFeedbackBuffer accepts outcomes immediately, coalesces them per
+ * query_id, persists pending entries to a JSONL file so they survive
+ * restarts, and flushes them in the background with backoff.
+ *
+ * Usage:
+ *   const buffer = new QortexFeedbackBuffer(qortex, {
+ *     path: ".qortex/feedback.jsonl",
+ *   });
+ *   await buffer.start();
+ *   buffer.add(queryId, { [itemId]: "accepted" });
+ *   // ... on shutdown
+ *   await buffer.close();
+ *
+ * Delivery is at least once: an entry whose call timed out after the
+ * server applied it is sent again.
+ */
+
+import { EventEmitter } from "node:events";
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import { dirname } from "node:path";
+import { runConcurrently } from "./batch.js";
+import type { QortexCallOptions } from "./client.js";
+import { QortexError } from "./errors.js";
+import { retryDelay, type QortexRetryPolicy } from "./retry.js";
+import type { FeedbackOutcome, FeedbackResult } from "./types.js";
+
+/** Anything with QortexVector's feedback(); usually the QortexVector itself. */
+export interface QortexFeedbackSink {
+  feedback(
+    queryId: string,
+    outcomes: Record<string, FeedbackOutcome>,
+    source?: string,
+    options?: QortexCallOptions,
+  ): Promise<FeedbackResult>;
+}
+
+export interface QortexFeedbackBufferConfig {
+  /** JSONL file for pending and failed entries (default: memory only) */
+  path?: string;
+  /** Background flush interval in ms, or 0 to flush only on demand (default: 5000) */
+  flushIntervalMs?: number;
+  /** Flush early once this many entries are pending (default: 50) */
+  flushAt?: number;
+  /** Pending entries kept at most; the oldest are dropped beyond it (default: 10000) */
+  maxPending?: number;
+  /** feedback() calls in flight at once during a flush (default: 4) */
+  concurrency?: number;
+  /**
+   * Backoff for failed deliveries (default: 10 attempts, 1s initial
+   * delay, 60s max). Entries that exhaust it, or fail with a
+   * non-retryable error, move to the failed list.
+   */
+  retry?: Omit<QortexRetryPolicy, "isRetrySafe">;
+  /** Per-call options for each feedback() call */
+  callOptions?: QortexCallOptions;
+}
+
+/** One buffered feedback submission. */
+export interface QortexFeedbackEntry {
+  queryId: string;
+  source: string;
+  /** Outcomes per item id; later add() calls overwrite earlier ones */
+  outcomes: Record<string, FeedbackOutcome>;
+  /** Delivery attempts so far */
+  attempts: number;
+  /** When the entry was first buffered (epoch ms) */
+  addedAt: number;
+  /** Message of the last delivery error */
+  lastError?: string;
+}
+
+export interface QortexFeedbackStats {
+  /** Entries waiting to be sent, including those in flight */
+  pending: number;
+  /** Entries being sent right now */
+  inFlight: number;
+  /** Entries that gave up; see failedEntries() and retryFailed() */
+  failed: number;
+  /** Entries delivered since construction */
+  sent: number;
+  /** Entries dropped because of maxPending */
+  dropped: number;
+  /** When the last flush finished (epoch ms), or null */
+  lastFlushAt: number | null;
+  /** Last delivery or persistence error */
+  lastError: Error | null;
+}
+
+export interface QortexFeedbackFlushResult {
+  /** Entries delivered */
+  sent: number;
+  /** Entries that moved to the failed list */
+  failed: number;
+  /** Entries still pending, e.g. waiting for a retry */
+  pending: number;
+}
+
+/** Events emitted by QortexFeedbackBuffer. */
+export type QortexFeedbackBufferEvents = {
+  /** A flush finished. */
+  flushed: [result: QortexFeedbackFlushResult];
+  /** An entry gave up and moved to the failed list. */
+  failed: [event: { entry: QortexFeedbackEntry; error: unknown }];
+  /** An entry was dropped because of maxPending. */
+  dropped: [event: { entry: QortexFeedbackEntry }];
+  /** Reading or writing the JSONL file failed; entries stay in memory. */
+  writeFailed: [event: { error: Error }];
+};
+
+/** A line of the JSONL file. */
+interface StoredEntry extends QortexFeedbackEntry {
+  state: "pending" | "failed";
+}
+
+interface PendingEntry extends QortexFeedbackEntry {
+  /** Earliest retry time (epoch ms); not persisted */
+  nextAttemptAt: number;
+}
+
+const DEFAULT_RETRY = {
+  maxAttempts: 10,
+  initialDelayMs: 1_000,
+  maxDelayMs: 60_000,
+};
+
+export class QortexFeedbackBuffer extends EventEmitter<QortexFeedbackBufferEvents> {
+  private readonly config: QortexFeedbackBufferConfig;
+  private readonly retry: Omit<QortexRetryPolicy, "isRetrySafe">;
+  /** Pending entries by key, oldest first */
+  private readonly pending = new Map<string, PendingEntry>();
+  private readonly inFlight = new Map<string, PendingEntry>();
+  private readonly failed = new Map<string, QortexFeedbackEntry>();
+  /** File writes, serialized */
+  private writes: Promise<void> = Promise.resolve();
+  private flushing: Promise<QortexFeedbackFlushResult> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sent = 0;
+  private dropped = 0;
+  private lastFlushAt: number | null = null;
+  private lastError: Error | null = null;
+
+  constructor(
+    private readonly sink: QortexFeedbackSink,
+    config: QortexFeedbackBufferConfig = {},
+  ) {
+    super();
+    this.config = config;
+    this.retry = { ...DEFAULT_RETRY, ...config.retry };
+  }
+
+  /**
+   * Load entries left in the file by a previous process and start the
+   * background flush timer. The timer does not keep the process alive.
+   */
+  async start(): Promise<void> {
+    await this.enqueueWrite(() => this.load());
+    const interval = this.config.flushIntervalMs ?? 5_000;
+    if (interval > 0 && !this.timer) {
+      this.timer = setInterval(() => void this.flush(), interval);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Buffer outcomes for `queryId`. Returns immediately; outcomes for a
+   * query that is still pending are merged into its entry.
+   */
+  add(
+    queryId: string,
+    outcomes: Record<string, FeedbackOutcome>,
+    source: string = "mastra",
+  ): void {
+    const key = entryKey(queryId, source);
+    const entry = this.pending.get(key);
+    let dropped = false;
+    if (entry) {
+      Object.assign(entry.outcomes, outcomes);
+    } else {
+      this.pending.set(key, {
+        queryId,
+        source,
+        outcomes: { ...outcomes },
+        attempts: 0,
+        addedAt: Date.now(),
+        nextAttemptAt: 0,
+      });
+      dropped = this.enforceLimit();
+    }
+
+    const path = this.config.path;
+    if (dropped) {
+      // Rewrite rather than append, so dropped entries leave the file too
+      void this.persist();
+    } else if (path) {
+      const line = stored({ queryId, source, outcomes }, "pending");
+      void this.enqueueWrite(async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(path, line);
+      });
+    }
+    if (this.pending.size >= (this.config.flushAt ?? 50)) void this.flush();
+  }
+
+  /**
+   * Send every pending entry that is not waiting for a retry. Concurrent
+   * calls share one flush.
+   */
+  flush(): Promise<QortexFeedbackFlushResult> {
+    this.flushing ??= this.send().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /** Move failed entries back to pending; returns how many moved. */
+  retryFailed(): number {
+    const count = this.failed.size;
+    for (const [key, entry] of this.failed) {
+      this.merge(key, { ...entry, attempts: 0, nextAttemptAt: 0 });
+    }
+    this.failed.clear();
+    if (count > 0) void this.persist();
+    return count;
+  }
+
+  /** Entries that gave up, oldest first. */
+  failedEntries(): QortexFeedbackEntry[] {
+    return [...this.failed.values()].map((entry) => ({ ...entry }));
+  }
+
+  get stats(): QortexFeedbackStats {
+    return {
+      pending: this.pending.size + this.inFlight.size,
+      inFlight: this.inFlight.size,
+      failed: this.failed.size,
+      sent: this.sent,
+      dropped: this.dropped,
+      lastFlushAt: this.lastFlushAt,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Stop the timer, make a last flush attempt and wait for file writes.
+   * Entries that could not be sent stay in the file for the next start().
+   */
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.flushing;
+    await this.flush();
+    await this.writes;
+  }
+
+  private async send(): Promise<QortexFeedbackFlushResult> {
+    const now = Date.now();
+    const due = [...this.pending].filter(([, e]) => e.nextAttemptAt <= now);
+    for (const [key, entry] of due) {
+      this.pending.delete(key);
+      this.inFlight.set(key, entry);
+    }
+
+    let sent = 0;
+    let failed = 0;
+    // Each task settles on its own so one failure does not stop the rest
+    await runConcurrently(
+      due,
+      this.config.concurrency ?? 4,
+      async ([key, entry]) => {
+        try {
+          await this.sink.feedback(
+            entry.queryId,
+            entry.outcomes,
+            entry.source,
+            this.config.callOptions,
+          );
+          sent++;
+        } catch (error) {
+          if (this.giveUp(key, entry, error)) failed++;
+        } finally {
+          this.inFlight.delete(key);
+        }
+      },
+    );
+
+    this.sent += sent;
+    this.lastFlushAt = Date.now();
+    if (due.length > 0) await this.persist();
+    const result = { sent, failed, pending: this.pending.size };
+    this.emit("flushed", result);
+    return result;
+  }
+
+  /**
+   * Record a failed delivery: reschedule it, or move it to the failed list
+   * when the error is not retryable or attempts are exhausted. Returns
+   * whether it moved.
+   */
+  private giveUp(key: string, entry: PendingEntry, error: unknown): boolean {
+    this.lastError = error instanceof Error ? error : new Error(String(error));
+    const attempts = entry.attempts + 1;
+    const retryable = !(error instanceof QortexError) || error.retryable;
+    const updated = {
+      ...entry,
+      attempts,
+      lastError: this.lastError.message,
+      nextAttemptAt: Date.now() + retryDelay(attempts, this.retry),
+    };
+
+    if (retryable && attempts < (this.retry.maxAttempts ?? 10)) {
+      this.merge(key, updated);
+      return false;
+    }
+    const failed = publicEntry(updated);
+    this.failed.set(key, failed);
+    this.emit("failed", { entry: { ...failed }, error });
+    return true;
+  }
+
+  /**
+   * Put an entry back in the pending map. Outcomes added while it was
+   * away win over its own.
+   */
+  private merge(key: string, entry: PendingEntry): void {
+    const newer = this.pending.get(key);
+    this.pending.delete(key);
+    this.pending.set(key, {
+      ...entry,
+      outcomes: { ...entry.outcomes, ...newer?.outcomes },
+    });
+    this.enforceLimit();
+  }
+
+  /** Drop the oldest pending entries beyond maxPending; returns whether any went. */
+  private enforceLimit(): boolean {
+    const maxPending = this.config.maxPending ?? 10_000;
+    let dropped = false;
+    for (const [key, entry] of this.pending) {
+      if (this.pending.size <= maxPending) break;
+      this.pending.delete(key);
+      this.dropped++;
+      dropped = true;
+      this.emit("dropped", { entry: publicEntry(entry) });
+    }
+    return dropped;
+  }
+
+  /** Rewrite the file with the entries currently held. */
+  private persist(): Promise<void> {
+    const path = this.config.path;
+    if (!path) return Promise.resolve();
+    return this.enqueueWrite(() => replaceFile(path, this.snapshot()));
+  }
+
+  /** Every entry held, as JSONL. */
+  private snapshot(): string {
+    return [
+      ...[...this.inFlight.values(), ...this.pending.values()].map((entry) =>
+        stored(entry, "pending"),
+      ),
+      ...[...this.failed.values()].map((entry) => stored(entry, "failed")),
+    ].join("");
+  }
+
+  /** Merge entries from the file, then compact it. */
+  private async load(): Promise<void> {
+    const path = this.config.path;
+    if (!path) return;
+    await mkdir(dirname(path), { recursive: true });
+
+    let text = "";
+    try {
+      text = await readFile(path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+    for (const line of text.split("\n")) {
+      const entry = parseLine(line);
+      if (!entry) continue;
+      const { state, ...fields } = entry;
+      const key = entryKey(entry.queryId, entry.source);
+      const newer = this.pending.get(key);
+      if (state === "failed" && newer) {
+        // Pending outcomes were added after this entry gave up; they win
+        newer.outcomes = { ...fields.outcomes, ...newer.outcomes };
+      } else if (state === "failed") {
+        this.failed.set(key, { ...this.failed.get(key), ...fields });
+      } else {
+        const earlier = this.pending.get(key);
+        this.pending.set(key, {
+          ...fields,
+          outcomes: {
+            ...this.failed.get(key)?.outcomes,
+            ...earlier?.outcomes,
+            ...fields.outcomes,
+          },
+          attempts: Math.max(earlier?.attempts ?? 0, fields.attempts),
+          addedAt: earlier?.addedAt ?? fields.addedAt,
+          nextAttemptAt: 0,
+        });
+        this.failed.delete(key);
+      }
+    }
+    this.enforceLimit();
+    await replaceFile(path, this.snapshot());
+  }
+
+  /** Queue a file operation after earlier ones; failures are reported, not thrown. */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.then(write).catch((err) => {
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.lastError = error;
+      this.emit("writeFailed", { error });
+    });
+    return this.writes;
+  }
+}
+
+function entryKey(queryId: string, source: string): string {
+  return `${source}\u0000${queryId}`;
+}
+
+function publicEntry({
+  nextAttemptAt: _,
+  ...entry
+}: PendingEntry): QortexFeedbackEntry {
+  return entry;
+}
+
+/** Write a sibling file and rename it, so a crash never truncates the log. */
+async function replaceFile(path: string, text: string): Promise<void> {
+  await writeFile(`${path}.tmp`, text);
+  await rename(`${path}.tmp`, path);
+}
+
+/** Serialize an entry as one JSONL line. */
+function stored(
+  entry: Pick<QortexFeedbackEntry, "queryId" | "source" | "outcomes"> &
+    Partial<QortexFeedbackEntry>,
+  state: StoredEntry["state"],
+): string {
+  const line: StoredEntry = {
+    queryId: entry.queryId,
+    source: entry.source,
+    outcomes: entry.outcomes,
+    attempts: entry.attempts ?? 0,
+    addedAt: entry.addedAt ?? Date.now(),
+    ...(entry.lastError !== undefined ? { lastError: entry.lastError } : {}),
+    state,
+  };
+  return JSON.stringify(line) + "\n";
+}
+
+/** Parse a JSONL line; blank, torn or foreign lines yield null. */
+function parseLine(line: string): StoredEntry | null {
+  if (!line.trim()) return null;
+  try {
+    const entry = JSON.parse(line) as Partial<StoredEntry>;
+    if (
+      typeof entry.queryId !== "string" ||
+      typeof entry.source !== "string" ||
+      typeof entry.outcomes !== "object" ||
+      entry.outcomes === null
+    ) {
+      return null;
+    }
+    return {
+      queryId: entry.queryId,
+      source: entry.source,
+      outcomes: entry.outcomes,
+      attempts: typeof entry.attempts === "number" ? entry.attempts : 0,
+      addedAt: typeof entry.addedAt === "number" ? entry.addedAt : Date.now(),
+      ...(typeof entry.lastError === "string"
+        ? { lastError: entry.lastError }
+        : {}),
+      state: entry.state === "failed" ? "failed" : "pending",
+    };
+  } catch {
+    return null;
+  }
+}
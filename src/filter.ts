@@ -0,0 +1,489 @@
+/**
+ * Metadata filters: translation for the qortex server and client-side
+ * evaluation.
+ *
+ * QortexFilterTranslator validates a Mastra VectorFilter against the
+ * operators the qortex server evaluates ($eq, $ne, $gt, $lt, $in, $and,
+ * $or), normalizes shorthand (`{ field: value }` becomes
+ * `{ field: { $eq: value } }`, several fields become `$and`), and can
+ * split a filter into a server part and a part to post-filter locally.
+ *
+ * matchesFilter evaluates every Mastra operator ($eq, $ne, $gt, $gte,
+ * $lt, $lte, $in, $nin, $all, $elemMatch, $exists, $regex/$options,
+ * $not, $and, $or, $nor) against a metadata object. Field names may be
+ * dotted paths into nested metadata.
+ */
+
+import {
+  BaseFilterTranslator,
+  type OperatorSupport,
+  type VectorFilter,
+} from "@mastra/core/vector";
+import { QortexInvalidFilterError } from "./errors.js";
+
+type Metadata = Record<string, unknown>;
+
+/**
+ * How QortexVector handles metadata filters.
+ *
+ * - "strict": reject operators the server does not support
+ * - "post-filter": send what the server supports and apply the rest to
+ *   query results client-side (query only; updates and deletes stay strict)
+ * - "off": pass filters to the server untouched
+ */
+export type QortexFilterMode = "strict" | "post-filter" | "off";
+
+/** Operators the qortex server evaluates natively. */
+export const QORTEX_SERVER_OPERATORS = [
+  "$eq",
+  "$ne",
+  "$gt",
+  "$lt",
+  "$in",
+  "$and",
+  "$or",
+];
+
+/** Every field-level operator in Mastra's VectorFilter. */
+const FIELD_OPERATORS = new Set([
+  "$eq",
+  "$ne",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$in",
+  "$nin",
+  "$all",
+  "$elemMatch",
+  "$exists",
+  "$regex",
+  "$options",
+  "$not",
+]);
+
+const LOGICAL_OPERATORS = new Set(["$and", "$or", "$nor", "$not"]);
+
+/** A filter divided between the server and client-side post-filtering. */
+export interface QortexFilterSplit {
+  /** Part the server evaluates (undefined when nothing is left) */
+  server: VectorFilter;
+  /** Part to apply to results with matchesFilter (undefined when none) */
+  client: VectorFilter;
+}
+
+export class QortexFilterTranslator extends BaseFilterTranslator<
+  VectorFilter,
+  VectorFilter
+> {
+  protected override getSupportedOperators(): OperatorSupport {
+    return {
+      logical: ["$and", "$or"],
+      basic: ["$eq", "$ne"],
+      numeric: ["$gt", "$lt"],
+      array: ["$in"],
+      element: [],
+      regex: [],
+    };
+  }
+
+  /**
+   * Normalize `filter` and check that the server supports every operator.
+   *
+   * @throws QortexInvalidFilterError with the path of the first problem,
+   *   relative to `filter` as written
+   */
+  translate(filter: VectorFilter): VectorFilter {
+    const conjuncts = this.normalize(filter);
+    // Search the caller's filter, not the normalized one, so paths do not
+    // pass through the implicit $and or expanded shorthand
+    for (const [key, operand] of Object.entries(filter ?? {})) {
+      const path = this.findUnsupported({ [key]: operand }, "");
+      if (path) {
+        const last = path.split(".").pop()!;
+        const op = last.startsWith("$") ? last : "$regex";
+        throw new QortexInvalidFilterError(
+          `Unsupported filter operator ${op} at ${path}; the qortex server ` +
+            `supports ${QORTEX_SERVER_OPERATORS.join(", ")}`,
+          { path },
+        );
+      }
+    }
+    return combine(conjuncts);
+  }
+
+  /**
+   * Normalize `filter` and divide its top-level conditions between the
+   * server and the client. A condition goes to the client as a whole if
+   * any operator in it is unsupported by the server.
+   *
+   * @throws QortexInvalidFilterError for malformed filters or unknown operators
+   */
+  split(filter: VectorFilter): QortexFilterSplit {
+    const server: Metadata[] = [];
+    const client: Metadata[] = [];
+    for (const conjunct of this.normalize(filter)) {
+      (this.findUnsupported(conjunct, "") ? client : server).push(conjunct);
+    }
+    return { server: combine(server), client: combine(client) };
+  }
+
+  /** Validate structure and return the filter as a list of AND-ed conditions. */
+  private normalize(filter: VectorFilter): Metadata[] {
+    if (filter === null || filter === undefined) return [];
+    if (!isPlainObject(filter)) {
+      throw invalid("Filter must be an object", "");
+    }
+    return this.normalizeCondition(filter, "");
+  }
+
+  private normalizeCondition(condition: Metadata, path: string): Metadata[] {
+    const conjuncts: Metadata[] = [];
+    for (const [key, operand] of Object.entries(condition)) {
+      const keyPath = join(path, key);
+      if (LOGICAL_OPERATORS.has(key)) {
+        conjuncts.push({ [key]: this.normalizeLogical(key, operand, keyPath) });
+      } else if (key.startsWith("$")) {
+        throw FIELD_OPERATORS.has(key)
+          ? invalid(`Operator ${key} must be applied to a field`, keyPath)
+          : invalid(`Unknown filter operator ${key}`, keyPath);
+      } else {
+        conjuncts.push({ [key]: this.normalizeField(operand, keyPath) });
+      }
+    }
+    return conjuncts;
+  }
+
+  private normalizeLogical(
+    op: string,
+    operand: unknown,
+    path: string,
+  ): unknown {
+    if (op === "$not") {
+      if (!isPlainObject(operand) || this.isEmpty(operand)) {
+        throw invalid("$not expects a non-empty condition", path);
+      }
+      return combine(this.normalizeCondition(operand, path));
+    }
+    if (!Array.isArray(operand) || operand.length === 0) {
+      throw invalid(`${op} expects a non-empty array of conditions`, path);
+    }
+    return operand.map((branch, i) => {
+      if (!isPlainObject(branch)) {
+        throw invalid(`${op} branches must be objects`, join(path, String(i)));
+      }
+      return combine(this.normalizeCondition(branch, join(path, String(i))));
+    });
+  }
+
+  private normalizeField(operand: unknown, path: string): Metadata {
+    if (operand instanceof RegExp) {
+      return {
+        $regex: operand.source,
+        ...(operand.flags ? { $options: operand.flags } : {}),
+      };
+    }
+    if (!isOperatorObject(operand)) {
+      if (
+        isPlainObject(operand) &&
+        Object.keys(operand).some((k) => k.startsWith("$"))
+      ) {
+        throw invalid("Cannot mix operators and field names", path);
+      }
+      return { $eq: this.normalizeComparisonValue(operand) };
+    }
+
+    const normalized: Metadata = {};
+    for (const [op, arg] of Object.entries(operand)) {
+      const opPath = join(path, op);
+      if (LOGICAL_OPERATORS.has(op) && op !== "$not") {
+        throw invalid(`${op} cannot be used inside a field condition`, opPath);
+      }
+      if (!FIELD_OPERATORS.has(op)) {
+        throw invalid(`Unknown filter operator ${op}`, opPath);
+      }
+      normalized[op] = this.normalizeOperand(op, arg, opPath);
+    }
+    return normalized;
+  }
+
+  private normalizeOperand(op: string, arg: unknown, path: string): unknown {
+    switch (op) {
+      case "$in":
+      case "$nin":
+      case "$all":
+        if (!Array.isArray(arg)) throw invalid(`${op} expects an array`, path);
+        return this.normalizeArrayValues(arg);
+      case "$gt":
+      case "$gte":
+      case "$lt":
+      case "$lte":
+        if (!(
+          typeof arg === "number" ||
+          typeof arg === "string" ||
+          arg instanceof Date
+        )) {
+          throw invalid(`${op} expects a number, string or date`, path);
+        }
+        return this.normalizeComparisonValue(arg);
+      case "$exists":
+        if (typeof arg !== "boolean")
+          throw invalid("$exists expects a boolean", path);
+        return arg;
+      case "$elemMatch":
+        if (!isPlainObject(arg))
+          throw invalid("$elemMatch expects an object", path);
+        return arg;
+      case "$not":
+        if (arg instanceof RegExp) return this.normalizeField(arg, path);
+        if (!isOperatorObject(arg))
+          throw invalid("$not expects an operator condition", path);
+        return this.normalizeField(arg, path);
+      case "$regex":
+        if (arg instanceof RegExp) return arg.source;
+        if (typeof arg !== "string")
+          throw invalid("$regex expects a string", path);
+        return arg;
+      default:
+        return this.normalizeComparisonValue(arg);
+    }
+  }
+
+  /** Path of the first operator the server cannot evaluate, if any. */
+  private findUnsupported(node: unknown, path: string): string | undefined {
+    if (Array.isArray(node)) {
+      for (const [i, item] of node.entries()) {
+        const found = this.findUnsupported(item, join(path, String(i)));
+        if (found) return found;
+      }
+      return undefined;
+    }
+    // A RegExp shorthand stands for $regex
+    if (node instanceof RegExp) {
+      return this.isValidOperator("$regex") ? undefined : path;
+    }
+    if (!isPlainObject(node)) return undefined;
+    for (const [key, value] of Object.entries(node)) {
+      const keyPath = join(path, key);
+      if (key.startsWith("$") && !this.isValidOperator(key)) return keyPath;
+      // Operands of $eq/$ne/$in are values, not conditions
+      if (key === "$eq" || key === "$ne" || key === "$in") continue;
+      const found = this.findUnsupported(value, keyPath);
+      if (found) return found;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Whether `metadata` satisfies `filter`. An empty filter matches everything.
+ *
+ * @throws QortexInvalidFilterError for unknown operators or malformed operands
+ */
+export function matchesFilter(
+  metadata: Metadata | undefined,
+  filter: VectorFilter | Metadata,
+): boolean {
+  if (!filter) return true;
+  return matchesCondition(metadata ?? {}, filter as Metadata);
+}
+
+function matchesCondition(metadata: Metadata, condition: Metadata): boolean {
+  return Object.entries(condition).every(([key, operand]) => {
+    switch (key) {
+      case "$and":
+        return branches(key, operand).every((b) =>
+          matchesCondition(metadata, b),
+        );
+      case "$or":
+        return branches(key, operand).some((b) =>
+          matchesCondition(metadata, b),
+        );
+      case "$nor":
+        return !branches(key, operand).some((b) =>
+          matchesCondition(metadata, b),
+        );
+      case "$not":
+        if (!isPlainObject(operand)) throw invalid("$not expects an object");
+        return !matchesCondition(metadata, operand);
+      default:
+        if (key.startsWith("$"))
+          throw invalid(`Unsupported filter operator ${key}`);
+        return matchesField(getPath(metadata, key), operand);
+    }
+  });
+}
+
+function matchesField(value: unknown, operand: unknown): boolean {
+  if (!isOperatorObject(operand)) {
+    return operand instanceof RegExp
+      ? matchesRegex(value, operand)
+      : equalsOrContains(value, operand);
+  }
+
+  const options =
+    typeof operand.$options === "string" ? operand.$options : undefined;
+  return Object.entries(operand).every(([op, arg]) => {
+    switch (op) {
+      case "$eq":
+        return equalsOrContains(value, arg);
+      case "$ne":
+        return !equalsOrContains(value, arg);
+      case "$gt":
+        return compare(value, arg, (c) => c > 0);
+      case "$gte":
+        return compare(value, arg, (c) => c >= 0);
+      case "$lt":
+        return compare(value, arg, (c) => c < 0);
+      case "$lte":
+        return compare(value, arg, (c) => c <= 0);
+      case "$in":
+        return list(op, arg).some((v) => equalsOrContains(value, v));
+      case "$nin":
+        return !list(op, arg).some((v) => equalsOrContains(value, v));
+      case "$all":
+        return (
+          Array.isArray(value) &&
+          list(op, arg).every((v) => value.some((item) => deepEqual(item, v)))
+        );
+      case "$elemMatch":
+        if (!isPlainObject(arg)) throw invalid("$elemMatch expects an object");
+        return (
+          Array.isArray(value) &&
+          value.some((item) =>
+            isPlainObject(item) && !isOperatorObject(arg)
+              ? matchesCondition(item, arg)
+              : matchesField(item, arg),
+          )
+        );
+      case "$exists":
+        return (value !== undefined) === Boolean(arg);
+      case "$regex":
+        return matchesRegex(value, toRegex(arg, options));
+      case "$options":
+        return true;
+      case "$not":
+        return !matchesField(value, arg);
+      default:
+        throw invalid(`Unsupported filter operator ${op}`);
+    }
+  });
+}
+
+function getPath(metadata: Metadata, path: string): unknown {
+  if (path in metadata) return metadata[path];
+  let current: unknown = metadata;
+  for (const part of path.split(".")) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+/** Mongo equality: array fields match when any element is equal. */
+function equalsOrContains(value: unknown, expected: unknown): boolean {
+  if (deepEqual(value, expected)) return true;
+  return (
+    Array.isArray(value) && value.some((item) => deepEqual(item, expected))
+  );
+}
+
+function compare(
+  value: unknown,
+  operand: unknown,
+  test: (comparison: number) => boolean,
+): boolean {
+  const a = comparable(value);
+  const b = comparable(operand);
+  if (a === undefined || b === undefined || typeof a !== typeof b) return false;
+  return test(a < b ? -1 : a > b ? 1 : 0);
+}
+
+function comparable(value: unknown): number | string | undefined {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number" || typeof value === "string") return value;
+  return undefined;
+}
+
+function matchesRegex(value: unknown, regex: RegExp): boolean {
+  if (Array.isArray(value))
+    return value.some((item) => matchesRegex(item, regex));
+  return typeof value === "string" && regex.test(value);
+}
+
+function toRegex(pattern: unknown, options?: string): RegExp {
+  if (pattern instanceof RegExp)
+    return options ? new RegExp(pattern.source, options) : pattern;
+  if (typeof pattern !== "string") throw invalid("$regex expects a string");
+  try {
+    return new RegExp(pattern, options);
+  } catch (err) {
+    throw invalid(`Invalid $regex ${pattern}: ${(err as Error).message}`);
+  }
+}
+
+function branches(op: string, operand: unknown): Metadata[] {
+  if (!Array.isArray(operand) || !operand.every(isPlainObject)) {
+    throw invalid(`${op} expects an array of conditions`);
+  }
+  return operand;
+}
+
+function list(op: string, operand: unknown): unknown[] {
+  if (!Array.isArray(operand)) throw invalid(`${op} expects an array`);
+  return operand;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date || b instanceof Date) {
+    return comparable(a) !== undefined && comparable(a) === comparable(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Metadata {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof RegExp)
+  );
+}
+
+function isOperatorObject(value: unknown): value is Metadata {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every((key) => key.startsWith("$"))
+  );
+}
+
+function invalid(message: string, path?: string): QortexInvalidFilterError {
+  return new QortexInvalidFilterError(
+    path ? `${message} (at ${path})` : message,
+    { path },
+  );
+}
+
+function combine(conjuncts: Metadata[]): VectorFilter {
+  if (conjuncts.length === 0) return undefined;
+  return (
+    conjuncts.length === 1 ? conjuncts[0] : { $and: conjuncts }
+  ) as VectorFilter;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -0,0 +1,177 @@
+/**
+ * Result fusion for QortexVector.hybridQuery.
+ *
+ * hybridQuery runs the vector-level query() (caller's embeddings) and
+ * the graph-level textQuery() (qortex's embedder + PPR) side by side.
+ * fuseResults merges the two ranked lists into one, treating a vector
+ * result and a graph item as the same hit when the vector id equals the
+ * graph item's node_id or id.
+ *
+ *   - "rrf" (reciprocal rank fusion): score = Σ weight / (rrfK + rank).
+ *     Ignores raw scores, so it is robust to the two retrievers scoring
+ *     on different scales.
+ *   - "weighted": each retriever's scores are min-max normalized to
+ *     [0, 1], then summed with their weights. A retriever that missed a
+ *     hit contributes 0.
+ */
+
+import type { QueryResult } from "@mastra/core/vector";
+import type { QortexQueryItem, QortexRule } from "./types.js";
+
+export type QortexFusion = "rrf" | "weighted";
+
+/** Which side of hybridQuery found a result. */
+export type QortexRetriever = "vector" | "graph";
+
+/** Relative weight of each retriever in the fused score (default: 1 each). */
+export interface QortexHybridWeights {
+  vector?: number;
+  graph?: number;
+}
+
+export interface QortexFusionOptions {
+  /** Fusion strategy (default: "rrf") */
+  fusion?: QortexFusion;
+  weights?: QortexHybridWeights;
+  /** RRF rank constant (default: 60) */
+  rrfK?: number;
+  /** Results to keep after fusion (default: all) */
+  topK?: number;
+}
+
+/** One fused hybridQuery result. */
+export interface QortexHybridItem {
+  /** Vector id, or the graph item's node_id when only the graph found it */
+  id: string;
+  /** Fused score; only comparable within one result list */
+  score: number;
+  /** Retrievers that returned this hit, in the order above */
+  sources: QortexRetriever[];
+  /** Raw score from each retriever that returned this hit */
+  scores: Partial<Record<QortexRetriever, number>>;
+  /** Graph metadata overlaid with vector metadata */
+  metadata: Record<string, unknown>;
+  /**
+   * Graph-side fields, present when the graph returned this hit.
+   * `item_id` is the graph item's own id, the key feedback() expects.
+   */
+  item_id?: string;
+  node_id?: string;
+  content?: string;
+  domain?: string;
+  /** Stored vector, when the vector query asked for it */
+  vector?: number[];
+}
+
+/** Result of hybridQuery: fused hits plus the graph side's query_id and rules. */
+export interface QortexHybridResult {
+  results: QortexHybridItem[];
+  /** Pass to feedback() to report outcomes for these results */
+  query_id: string;
+  rules: QortexRule[];
+}
+
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Fuse vector and graph results into a single ranked, de-duplicated list.
+ * Ties keep vector-first order.
+ */
+export function fuseResults(
+  vectorResults: QueryResult[],
+  graphItems: QortexQueryItem[],
+  options: QortexFusionOptions = {},
+): QortexHybridItem[] {
+  const fusion = options.fusion ?? "rrf";
+  const weights = {
+    vector: options.weights?.vector ?? 1,
+    graph: options.weights?.graph ?? 1,
+  };
+  const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+
+  const vectorContrib = contributions(
+    vectorResults.map((r) => r.score),
+    fusion,
+    weights.vector,
+    rrfK,
+  );
+  const graphContrib = contributions(
+    graphItems.map((item) => item.score),
+    fusion,
+    weights.graph,
+    rrfK,
+  );
+
+  const fused = new Map<string, QortexHybridItem>();
+  vectorResults.forEach((result, rank) => {
+    // A store can return the same id twice; keep the best-ranked copy
+    if (fused.has(result.id)) return;
+    fused.set(result.id, {
+      id: result.id,
+      score: vectorContrib[rank],
+      sources: ["vector"],
+      scores: { vector: result.score },
+      metadata: { ...result.metadata },
+      ...(result.vector ? { vector: result.vector } : {}),
+    });
+  });
+
+  const seen = new Set<QortexHybridItem>();
+  graphItems.forEach((item, rank) => {
+    const key = item.node_id || item.id;
+    const hit =
+      fused.get(key) ?? (item.id !== key ? fused.get(item.id) : undefined);
+    if (hit && seen.has(hit)) return;
+
+    if (hit) {
+      hit.score += graphContrib[rank];
+      hit.sources.push("graph");
+      hit.scores.graph = item.score;
+      hit.metadata = { ...item.metadata, ...hit.metadata };
+      Object.assign(hit, graphFields(item));
+      seen.add(hit);
+    } else {
+      const added: QortexHybridItem = {
+        id: key,
+        score: graphContrib[rank],
+        sources: ["graph"],
+        scores: { graph: item.score },
+        metadata: { ...item.metadata },
+        ...graphFields(item),
+      };
+      fused.set(key, added);
+      seen.add(added);
+    }
+  });
+
+  const ranked = [...fused.values()].sort((a, b) => b.score - a.score);
+  return options.topK === undefined ? ranked : ranked.slice(0, options.topK);
+}
+
+/** Per-rank contribution of one retriever to the fused score. */
+function contributions(
+  scores: number[],
+  fusion: QortexFusion,
+  weight: number,
+  rrfK: number,
+): number[] {
+  if (fusion === "rrf") {
+    return scores.map((_, rank) => weight / (rrfK + rank + 1));
+  }
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return scores.map(
+    (score) => weight * (range > 0 ? (score - min) / range : 1),
+  );
+}
+
+function graphFields(
+  item: QortexQueryItem,
+): Pick<QortexHybridItem, "item_id" | "node_id" | "content" | "domain"> {
+  return {
+    item_id: item.id,
+    node_id: item.node_id,
+    content: item.content,
+    domain: item.domain,
+  };
+}
@@ -1,5 +1,229 @@
-export { QortexVector, type QortexVectorConfig } from "./vector.js";
-export { QortexMcpClient, type QortexMcpClientConfig } from "./client.js";
+export {
+  QortexVector,
+  type QortexVectorConfig,
+  type QortexUpsertOptions,
+  type QortexHybridQueryParams,
+  type QortexUpsertTextParams,
+  type QortexQueryTextParams,
+} from "./vector.js";
+export {
+  fuseResults,
+  DEFAULT_RRF_K,
+  type QortexFusion,
+  type QortexFusionOptions,
+  type QortexHybridItem,
+  type QortexHybridResult,
+  type QortexHybridWeights,
+  type QortexRetriever,
+} from "./hybrid.js";
+export {
+  QortexMemoryEmbeddingCache,
+  contentHash,
+  embedTexts,
+  embedderId,
+  toEmbedFn,
+  type QortexEmbedFn,
+  type QortexEmbedTextsOptions,
+  type QortexEmbedder,
+  type QortexEmbeddingCache,
+  type QortexEmbeddingModel,
+} from "./embed.js";
+export {
+  QortexIngestor,
+  chunkText,
+  type QortexChunkOptions,
+  type QortexChunkStrategy,
+  type QortexIngestDocument,
+  type QortexIngestOptions,
+  type QortexIngestResult,
+  type QortexIngestSourceResult,
+  type QortexIngestTarget,
+  type QortexIngestorConfig,
+  type QortexMDocumentLike,
+} from "./ingest.js";
+export {
+  QortexFeedbackBuffer,
+  type QortexFeedbackBufferConfig,
+  type QortexFeedbackBufferEvents,
+  type QortexFeedbackEntry,
+  type QortexFeedbackFlushResult,
+  type QortexFeedbackSink,
+  type QortexFeedbackStats,
+} from "./feedback.js";
+export {
+  QortexRetrievalSession,
+  type QortexRetrievalKind,
+  type QortexRetrievalSessionConfig,
+  type QortexSessionFailure,
+  type QortexSessionFeedback,
+  type QortexSessionItem,
+  type QortexSessionSource,
+  type QortexSessionSummary,
+  type QortexSessionTarget,
+} from "./session.js";
+export {
+  QortexRulesProcessor,
+  type QortexRulesProcessorConfig,
+  type QortexRulesTurn,
+} from "./processor.js";
+export {
+  createQortexQueryTool,
+  createQortexExploreTool,
+  createQortexRulesTool,
+  createQortexFeedbackTool,
+  type QortexToolOptions,
+  type QortexQueryToolOptions,
+  type QortexExploreToolOptions,
+  type QortexRulesToolOptions,
+  type QortexFeedbackToolOptions,
+} from "./tools.js";
+export {
+  evaluateRetrieval,
+  scoreRanking,
+  compareEvalReports,
+  formatEvalReport,
+  type QortexEvalCase,
+  type QortexEvalCaseResult,
+  type QortexEvalChange,
+  type QortexEvalComparison,
+  type QortexEvalDataset,
+  type QortexEvalDelta,
+  type QortexEvalMetric,
+  type QortexEvalMetrics,
+  type QortexEvalMode,
+  type QortexEvalModeReport,
+  type QortexEvalOptions,
+  type QortexEvalReport,
+  type QortexEvalSource,
+  type QortexEvalSummary,
+} from "./eval.js";
+export {
+  renderRules,
+  citedRuleIds,
+  type QortexRenderRulesOptions,
+  type QortexRenderedRules,
+  type QortexRuleFormat,
+  type QortexRuleGrouping,
+} from "./prompt.js";
+export {
+  toDot,
+  toMermaid,
+  toGraphML,
+  toJsonLd,
+  QORTEX_JSONLD_CONTEXT,
+  type QortexExportOptions,
+  type QortexGraphData,
+} from "./export.js";
+export {
+  QortexGraphTraversal,
+  type QortexGraphPath,
+  type QortexGraphSource,
+  type QortexGraphTraversalConfig,
+  type QortexShortestPathOptions,
+  type QortexSubgraph,
+  type QortexSubgraphOptions,
+  type QortexTraversalFilter,
+  type QortexTraversalStep,
+  type QortexTraverseOptions,
+} from "./traversal.js";
+export {
+  QortexFilterTranslator,
+  QORTEX_SERVER_OPERATORS,
+  matchesFilter,
+  type QortexFilterMode,
+  type QortexFilterSplit,
+} from "./filter.js";
+export {
+  type QortexBatchConfig,
+  type QortexUpsertProgress,
+} from "./batch.js";
+export {
+  QortexMcpClient,
+  type QortexMcpClientConfig,
+  type QortexCallOptions,
+  type QortexTransportConfig,
+  type QortexStdioTransportConfig,
+  type QortexHttpTransportConfig,
+  type QortexInMemoryTransportConfig,
+  type QortexSupervisorConfig,
+  type QortexClientEvents,
+} from "./client.js";
+export {
+  createQortexTestServer,
+  QortexTestServer,
+  DEFAULT_TEST_GRAPH,
+  type QortexTestServerOptions,
+  type QortexTestGraph,
+  type QortexTestFeedback,
+  type QortexTestDomain,
+} from "./testing.js";
+export {
+  loggerMiddleware,
+  timingMiddleware,
+  type QortexMiddleware,
+  type QortexCallContext,
+  type QortexCallTiming,
+  type QortexMiddlewareLogger,
+} from "./middleware.js";
+export {
+  QortexTelemetry,
+  QORTEX_INSTRUMENTATION_NAME,
+  type QortexTelemetryConfig,
+} from "./telemetry.js";
+export {
+  isRetrySafe,
+  type QortexRetryPolicy,
+} from "./retry.js";
+export {
+  QortexError,
+  QortexIndexNotFoundError,
+  QortexDomainNotFoundError,
+  QortexIntegrityError,
+  QortexDimensionMismatchError,
+  QortexInvalidFilterError,
+  QortexTransportError,
+  QortexTimeoutError,
+  QortexToolMissingError,
+  QortexEmbedderMissingError,
+  QortexValidationError,
+  QortexConfigError,
+  QortexSessionEndedError,
+  QortexPartialUpsertError,
+  type QortexErrorDetails,
+  type QortexBatchFailure,
+} from "./errors.js";
+export {
+  QortexNodeSchema,
+  QortexEdgeSchema,
+  QortexRuleSchema,
+  ExploreResultSchema,
+  RulesResultSchema,
+  FeedbackOutcomeSchema,
+  FeedbackResultSchema,
+  QortexQueryItemSchema,
+  QortexQueryResultSchema,
+  QortexDomainInfoSchema,
+  IndexStatsSchema,
+  QueryResultSchema,
+  ListIndexesResponseSchema,
+  ListDomainsResponseSchema,
+  AddedIdsResponseSchema,
+  AddedEdgesResponseSchema,
+  DeletedCountResponseSchema,
+  QortexEdgeRefSchema,
+  QueryResponseSchema,
+  UpsertResponseSchema,
+  type QortexValidationMode,
+  type QortexValidationIssue,
+} from "./schemas.js";
+export {
+  QORTEX_VECTOR_TOOLS,
+  negotiateCapabilities,
+  formatCapabilityReport,
+  type QortexCapabilities,
+  type QortexToolRequirement,
+  type QortexToolStatus,
+} from "./capabilities.js";
 export type {
   ExploreResult,
   RulesResult,
@@ -11,4 +235,11 @@ export type {
   QortexEdge,
   QortexRule,
   QortexDomainInfo,
+  QortexConceptInput,
+  QortexConceptUpdate,
+  QortexEdgeInput,
+  QortexEdgeRef,
+  QortexEdgeUpdate,
+  QortexRuleInput,
+  QortexRuleUpdate,
 } from "./types.js";
@@ -0,0 +1,612 @@
+/**
+ * Document ingestion: chunk → embed → upsert, with provenance.
+ *
+ * QortexIngestor takes plain text, Mastra MDocuments or text and markdown
+ * files, splits them into chunks, embeds the chunks with a caller-supplied
+ * function and upserts them in batches. Chunk ids are derived from the
+ * source and the chunk's content, and every vector carries its source,
+ * chunk index, content hash and text as metadata.
+ *
+ * A manifest records what each source last produced, so re-ingesting only
+ * embeds new chunks, updates chunks whose metadata changed and deletes
+ * chunks that disappeared. Chunks that merely moved and unchanged sources
+ * cost no calls at all.
+ *
+ * Usage:
+ *   const ingestor = new QortexIngestor(qortex, {
+ *     indexName: "docs",
+ *     embed: async (texts) =>
+ *       (await embedMany({ model, values: texts })).embeddings,
+ *     manifestPath: ".qortex/docs-manifest.json",
+ *   });
+ *   const result = await ingestor.ingestFiles(["docs"], { prune: true });
+ */
+
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { dirname, extname, join, relative, resolve, sep } from "node:path";
+import { runConcurrently, type QortexBatchConfig } from "./batch.js";
+import type { QortexCallOptions } from "./client.js";
+import {
+  contentHash as sha256,
+  toEmbedFn,
+  type QortexEmbedder,
+  type QortexEmbedFn,
+} from "./embed.js";
+import { QortexConfigError, QortexValidationError } from "./errors.js";
+import type { QortexVector } from "./vector.js";
+
+/** The QortexVector methods ingestion calls. */
+export type QortexIngestTarget = Pick<
+  QortexVector,
+  "upsert" | "updateVector" | "deleteVectors"
+>;
+
+/** Built-in chunking strategies. */
+export type QortexChunkStrategy =
+  "recursive" | "markdown" | "character" | "none";
+
+export interface QortexChunkOptions {
+  /**
+   * "recursive" splits on paragraphs, then lines, sentences and words;
+   * "markdown" first splits at headings; "character" cuts fixed windows;
+   * "none" keeps each text whole (default: "recursive")
+   */
+  strategy?: QortexChunkStrategy;
+  /** Largest chunk in characters (default: 1000) */
+  size?: number;
+  /** Characters repeated from the end of the previous chunk (default: 100) */
+  overlap?: number;
+}
+
+/** One piece of text to ingest. */
+export interface QortexIngestDocument {
+  /** Stable identifier, e.g. a path; chunk ids derive from it */
+  source: string;
+  text: string;
+  /** Extra metadata stored on every chunk */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * The part of Mastra's MDocument ingestion reads. Each doc is chunked on
+ * its own; the source is the first doc's `metadata.source`.
+ */
+export interface QortexMDocumentLike {
+  getDocs(): Array<{ text: string; metadata: Record<string, unknown> }>;
+}
+
+export interface QortexIngestorConfig {
+  /** Vector index to write to; it must already exist */
+  indexName: string;
+  /** Embedding function or AI SDK embedding model */
+  embed: QortexEmbedder;
+  /**
+   * Built-in chunking options, or a function returning the chunks of a
+   * text (default: recursive, 1000 characters, 100 overlap)
+   */
+  chunk?: QortexChunkOptions | ((text: string) => string[]);
+  /** Texts per embed() call (default: 64) */
+  embedBatchSize?: number;
+  /** Upsert batch limits (default: the store's) */
+  batch?: QortexBatchConfig;
+  /** Metadata updates and embed() calls in flight at once (default: 4) */
+  concurrency?: number;
+  /** JSON file that keeps the manifest across runs (default: memory only) */
+  manifestPath?: string;
+  /** Sources of files are paths relative to this directory (default: cwd) */
+  root?: string;
+  /** File extensions ingestFiles() picks up in directories */
+  extensions?: string[];
+}
+
+export interface QortexIngestOptions extends QortexCallOptions {
+  /** Delete every known source not ingested in this call (default: false) */
+  prune?: boolean;
+}
+
+/** What happened to one source. */
+export interface QortexIngestSourceResult {
+  source: string;
+  /** Chunks the source produced */
+  chunks: number;
+  /** Chunks embedded and upserted */
+  added: number;
+  /** Chunks whose metadata changed, e.g. new document metadata */
+  updated: number;
+  /** Chunks left untouched */
+  unchanged: number;
+  /** Chunks deleted because the source no longer produces them */
+  deleted: number;
+}
+
+export interface QortexIngestResult {
+  sources: QortexIngestSourceResult[];
+  /** Sources deleted by `prune` or remove() */
+  removed: string[];
+  added: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+}
+
+/** Manifest file contents. */
+interface Manifest {
+  version: 1;
+  indexName: string;
+  /** Source → chunk id → hash of the chunk's metadata */
+  sources: Record<string, Record<string, string>>;
+}
+
+interface PlannedChunk {
+  id: string;
+  text: string;
+  metadata: Record<string, unknown>;
+  metadataHash: string;
+}
+
+const DEFAULT_EXTENSIONS = [".md", ".markdown", ".mdx", ".txt"];
+
+const SEPARATORS = ["\n\n", "\n", ". ", " "];
+
+export class QortexIngestor {
+  private manifest: Manifest | undefined;
+  private loading: Promise<Manifest> | undefined;
+  private readonly embedFn: QortexEmbedFn;
+
+  constructor(
+    private readonly qortex: QortexIngestTarget,
+    private readonly config: QortexIngestorConfig,
+  ) {
+    this.embedFn = toEmbedFn(config.embed);
+  }
+
+  /**
+   * Ingest documents. The manifest is updated only after every write
+   * succeeded, so the next run redoes whatever a failed run left out.
+   * Sources must be unique within a call.
+   */
+  async ingest(
+    documents: Array<QortexIngestDocument | QortexMDocumentLike>,
+    options: QortexIngestOptions = {},
+  ): Promise<QortexIngestResult> {
+    const manifest = await this.loadManifest();
+    const call = { signal: options.signal, timeoutMs: options.timeoutMs };
+    const planned = new Map<string, PlannedChunk[]>();
+    for (const document of documents) {
+      const { source, sections } = normalize(document);
+      if (planned.has(source)) {
+        throw new QortexConfigError(
+          `qortex ingest got source "${source}" twice`,
+        );
+      }
+      planned.set(source, this.plan(source, sections));
+    }
+
+    try {
+      const results: QortexIngestSourceResult[] = [];
+      const added: PlannedChunk[] = [];
+      const updated: PlannedChunk[] = [];
+      const stale: string[] = [];
+      for (const [source, chunks] of planned) {
+        const known = manifest.sources[source] ?? {};
+        const current = new Set(chunks.map((c) => c.id));
+        const result: QortexIngestSourceResult = {
+          source,
+          chunks: chunks.length,
+          added: 0,
+          updated: 0,
+          unchanged: 0,
+          deleted: 0,
+        };
+        for (const chunk of chunks) {
+          const previous = known[chunk.id];
+          if (previous === undefined) {
+            added.push(chunk);
+            result.added++;
+          } else if (previous !== chunk.metadataHash) {
+            updated.push(chunk);
+            result.updated++;
+          } else {
+            result.unchanged++;
+          }
+        }
+        for (const id of Object.keys(known)) {
+          if (!current.has(id)) {
+            stale.push(id);
+            result.deleted++;
+          }
+        }
+        results.push(result);
+      }
+
+      await this.write(added, updated, stale, call);
+      for (const [source, chunks] of planned) {
+        manifest.sources[source] = Object.fromEntries(
+          chunks.map((c) => [c.id, c.metadataHash]),
+        );
+      }
+
+      const removed = options.prune
+        ? await this.removeSources(
+            Object.keys(manifest.sources).filter((s) => !planned.has(s)),
+            call,
+          )
+        : { sources: [], deleted: 0 };
+      return {
+        sources: results,
+        removed: removed.sources,
+        added: added.length,
+        updated: updated.length,
+        unchanged: results.reduce((total, r) => total + r.unchanged, 0),
+        deleted: stale.length + removed.deleted,
+      };
+    } finally {
+      await this.saveManifest();
+    }
+  }
+
+  /**
+   * Ingest text and markdown files. Directories are walked recursively
+   * for files with the configured extensions. Each file's source is its
+   * path relative to `root`, with "/" separators.
+   */
+  async ingestFiles(
+    paths: string[],
+    options: QortexIngestOptions = {},
+  ): Promise<QortexIngestResult> {
+    const root = resolve(this.config.root ?? ".");
+    const extensions = this.config.extensions ?? DEFAULT_EXTENSIONS;
+    const files = new Set<string>();
+    for (const path of paths) {
+      const absolute = resolve(root, path);
+      if (!(await stat(absolute)).isDirectory()) {
+        files.add(absolute);
+        continue;
+      }
+      for (const file of await listFiles(absolute)) {
+        if (extensions.includes(extname(file))) files.add(file);
+      }
+    }
+
+    const documents: QortexIngestDocument[] = [];
+    for (const file of [...files].sort()) {
+      documents.push({
+        source: relative(root, file).split(sep).join("/"),
+        text: await readFile(file, "utf8"),
+      });
+    }
+    return this.ingest(documents, options);
+  }
+
+  /** Delete every chunk of these sources and forget them. */
+  async remove(
+    sources: string[],
+    options: QortexCallOptions = {},
+  ): Promise<QortexIngestResult> {
+    await this.loadManifest();
+    try {
+      const removed = await this.removeSources(sources, options);
+      return {
+        sources: [],
+        removed: removed.sources,
+        added: 0,
+        updated: 0,
+        unchanged: 0,
+        deleted: removed.deleted,
+      };
+    } finally {
+      await this.saveManifest();
+    }
+  }
+
+  /** Sources in the manifest, sorted. */
+  async sources(): Promise<string[]> {
+    return Object.keys((await this.loadManifest()).sources).sort();
+  }
+
+  private plan(
+    source: string,
+    sections: Array<{ text: string; metadata: Record<string, unknown> }>,
+  ): PlannedChunk[] {
+    const texts = sections.flatMap((section) =>
+      this.split(section.text).map((text) => ({ text, section })),
+    );
+    const seen = new Map<string, number>();
+    return texts.map(({ text, section }, index) => {
+      const contentHash = sha256(text);
+      // Repeated chunks within a source get distinct ids
+      const occurrence = seen.get(contentHash) ?? 0;
+      seen.set(contentHash, occurrence + 1);
+      const metadata = {
+        ...section.metadata,
+        source,
+        chunkIndex: index,
+        chunkCount: texts.length,
+        contentHash,
+        text,
+      };
+      // Positions are hashed too: a chunk that moved gets a metadata-only
+      // update, not a new embedding
+      return {
+        id: sha256(`${source}\0${contentHash}\0${occurrence}`).slice(0, 32),
+        text,
+        metadata,
+        metadataHash: sha256(JSON.stringify(metadata)),
+      };
+    });
+  }
+
+  private split(text: string): string[] {
+    const chunk = this.config.chunk;
+    const chunks =
+      typeof chunk === "function" ? chunk(text) : chunkText(text, chunk);
+    return chunks.filter((c) => c.trim().length > 0);
+  }
+
+  private async write(
+    added: PlannedChunk[],
+    updated: PlannedChunk[],
+    stale: string[],
+    call: QortexCallOptions,
+  ): Promise<void> {
+    const { indexName } = this.config;
+    const concurrency = this.config.concurrency ?? 4;
+
+    if (added.length > 0) {
+      const size = Math.max(1, this.config.embedBatchSize ?? 64);
+      const batches: PlannedChunk[][] = [];
+      for (let i = 0; i < added.length; i += size) {
+        batches.push(added.slice(i, i + size));
+      }
+      const embedded = await runConcurrently(batches, concurrency, (batch) =>
+        this.embed(batch, call),
+      );
+      const failed = embedded.find((o) => o?.status === "rejected");
+      if (failed?.status === "rejected") throw failed.reason;
+
+      await this.qortex.upsert({
+        indexName,
+        vectors: embedded.flatMap((o) =>
+          o?.status === "fulfilled" ? o.value : [],
+        ),
+        ids: added.map((c) => c.id),
+        metadata: added.map((c) => c.metadata),
+        batch: this.config.batch,
+        ...call,
+      });
+    }
+
+    const outcomes = await runConcurrently(updated, concurrency, (chunk) =>
+      this.qortex.updateVector({
+        indexName,
+        id: chunk.id,
+        update: { metadata: chunk.metadata },
+        ...call,
+      }),
+    );
+    const failed = outcomes.find((o) => o?.status === "rejected");
+    if (failed?.status === "rejected") throw failed.reason;
+
+    if (stale.length > 0) {
+      await this.qortex.deleteVectors({ indexName, ids: stale, ...call });
+    }
+  }
+
+  private async embed(
+    chunks: PlannedChunk[],
+    call: QortexCallOptions,
+  ): Promise<number[][]> {
+    const vectors = await this.embedFn(
+      chunks.map((c) => c.text),
+      call,
+    );
+    if (vectors.length !== chunks.length) {
+      throw new QortexValidationError(
+        `qortex ingest embed() returned ${vectors.length} vectors for ` +
+          `${chunks.length} texts`,
+      );
+    }
+    return vectors;
+  }
+
+  private async removeSources(
+    sources: string[],
+    call: QortexCallOptions,
+  ): Promise<{ sources: string[]; deleted: number }> {
+    const manifest = await this.loadManifest();
+    const known = sources.filter((s) => manifest.sources[s]);
+    const ids = known.flatMap((s) => Object.keys(manifest.sources[s]));
+    if (ids.length > 0) {
+      await this.qortex.deleteVectors({
+        indexName: this.config.indexName,
+        ids,
+        ...call,
+      });
+    }
+    for (const source of known) delete manifest.sources[source];
+    return { sources: known, deleted: ids.length };
+  }
+
+  /** Read the manifest once; a failed read is retried by the next call. */
+  private loadManifest(): Promise<Manifest> {
+    this.loading ??= this.readManifest().then(
+      (manifest) => {
+        this.manifest = manifest;
+        return manifest;
+      },
+      (err: unknown) => {
+        this.loading = undefined;
+        throw err;
+      },
+    );
+    return this.loading;
+  }
+
+  private async readManifest(): Promise<Manifest> {
+    const empty: Manifest = {
+      version: 1,
+      indexName: this.config.indexName,
+      sources: {},
+    };
+    const path = this.config.manifestPath;
+    if (!path) return empty;
+
+    let text: string;
+    try {
+      text = await readFile(path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return empty;
+      throw err;
+    }
+    const manifest = JSON.parse(text) as Manifest;
+    if (manifest.indexName !== this.config.indexName) {
+      throw new QortexConfigError(
+        `qortex ingest manifest ${path} belongs to index ` +
+          `"${manifest.indexName}", not "${this.config.indexName}"`,
+      );
+    }
+    return manifest;
+  }
+
+  private async saveManifest(): Promise<void> {
+    const path = this.config.manifestPath;
+    if (!path || !this.manifest) return;
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(this.manifest, null, 2));
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+/**
+ * Split text with a built-in strategy. Chunks are at most `size`
+ * characters; "recursive" and "markdown" prefer paragraph, line,
+ * sentence and word boundaries, in that order.
+ */
+export function chunkText(
+  text: string,
+  options: QortexChunkOptions = {},
+): string[] {
+  const size = Math.max(1, options.size ?? 1000);
+  const overlap = Math.min(Math.max(0, options.overlap ?? 100), size - 1);
+
+  switch (options.strategy ?? "recursive") {
+    case "none":
+      return text.trim() ? [text.trim()] : [];
+    case "character": {
+      const chunks: string[] = [];
+      for (let start = 0; start < text.length; start += size - overlap) {
+        chunks.push(text.slice(start, start + size));
+        if (start + size >= text.length) break;
+      }
+      return chunks.map((c) => c.trim()).filter(Boolean);
+    }
+    case "markdown":
+      return markdownSections(text).flatMap((section) =>
+        merge(pieces(section, size, SEPARATORS), size, overlap),
+      );
+    case "recursive":
+      return merge(pieces(text, size, SEPARATORS), size, overlap);
+  }
+}
+
+/**
+ * Files under `dir`, recursively. Walked by hand because Dirent.parentPath
+ * (needed with `readdir({ recursive: true })`) only exists from Node 20.12.
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await listFiles(path)));
+    else if (entry.isFile()) files.push(path);
+  }
+  return files;
+}
+
+/** Split markdown before every ATX heading outside code fences. */
+function markdownSections(text: string): string[] {
+  const sections: string[][] = [[]];
+  let fenced = false;
+  for (const line of text.split("\n")) {
+    if (/^(```|~~~)/.test(line)) fenced = !fenced;
+    if (!fenced && /^#{1,6}\s/.test(line) && sections.at(-1)!.length > 0) {
+      sections.push([]);
+    }
+    sections.at(-1)!.push(line);
+  }
+  return sections.map((lines) => lines.join("\n"));
+}
+
+/** Split `text` into pieces of at most `size`, at the coarsest separator. */
+function pieces(text: string, size: number, separators: string[]): string[] {
+  if (text.length <= size) return [text];
+  const [separator, ...finer] = separators;
+  if (separator === undefined) {
+    const cut: string[] = [];
+    for (let i = 0; i < text.length; i += size)
+      cut.push(text.slice(i, i + size));
+    return cut;
+  }
+  const parts = text.split(separator);
+  return parts.flatMap((part, i) => {
+    const piece = i < parts.length - 1 ? part + separator : part;
+    return piece.length <= size ? [piece] : pieces(piece, size, finer);
+  });
+}
+
+/**
+ * Pack consecutive pieces into chunks of at most `size`, starting each
+ * chunk with the trailing pieces of the previous one that fit in
+ * `overlap`.
+ */
+function merge(parts: string[], size: number, overlap: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  for (const part of parts) {
+    if (length + part.length > size && current.length > 0) {
+      chunks.push(current.join(""));
+      const carried: string[] = [];
+      let kept = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (kept + current[i].length > overlap) break;
+        if (kept + current[i].length + part.length > size) break;
+        carried.unshift(current[i]);
+        kept += current[i].length;
+      }
+      current = carried;
+      length = kept;
+    }
+    current.push(part);
+    length += part.length;
+  }
+  if (current.length > 0) chunks.push(current.join(""));
+  return chunks.map((c) => c.trim()).filter(Boolean);
+}
+
+function normalize(document: QortexIngestDocument | QortexMDocumentLike): {
+  source: string;
+  sections: Array<{ text: string; metadata: Record<string, unknown> }>;
+} {
+  if (!("getDocs" in document)) {
+    return {
+      source: document.source,
+      sections: [{ text: document.text, metadata: document.metadata ?? {} }],
+    };
+  }
+  const docs = document.getDocs();
+  const source = docs[0]?.metadata.source;
+  if (typeof source !== "string" || !source) {
+    throw new QortexConfigError(
+      "qortex ingest needs metadata.source on MDocument docs",
+    );
+  }
+  return { source, sections: docs };
+}
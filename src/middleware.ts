@@ -0,0 +1,149 @@
+/**
+ * Middleware pipeline around qortex tool calls.
+ *
+ * Middlewares are registered with `use()` on QortexMcpClient (or
+ * QortexVector) and run in registration order around every call attempt:
+ *
+ *   client.use(async (ctx, next) => {
+ *     const result = await next();
+ *     console.log(ctx.tool, ctx.durationMs);
+ *     return result;
+ *   });
+ *
+ * A middleware may rewrite `ctx.args` before calling `next()` (redaction,
+ * tenant tagging), replace the result, or throw (chaos testing).
+ */
+
+import type { QortexCallOptions } from "./client.js";
+
+/** Per-attempt call state shared by every middleware in the chain. */
+export interface QortexCallContext {
+  /** MCP tool name (e.g. "qortex_vector_query") */
+  tool: string;
+  /** Tool arguments; changes made before `next()` are sent to the server */
+  args: Record<string, unknown>;
+  /** Signal and timeout for this call */
+  options: QortexCallOptions;
+  /** 1-based attempt number (greater than 1 when the call is retried) */
+  attempt: number;
+  /** Epoch ms when the attempt started */
+  startedAt: number;
+  /** Set once the server call settles */
+  durationMs?: number;
+  /** Parsed result, set when the server call succeeds */
+  result?: unknown;
+  /** Failure, set when the server call throws */
+  error?: unknown;
+  /** Scratch space for passing data between middlewares */
+  state: Record<string, unknown>;
+}
+
+export type QortexMiddleware = (
+  ctx: QortexCallContext,
+  next: () => Promise<unknown>,
+) => Promise<unknown>;
+
+/**
+ * Run `middlewares` around `core` for one call attempt.
+ *
+ * `core` performs the actual tool call; its outcome and duration are
+ * recorded on the context before control returns up the chain.
+ */
+export function runMiddleware(
+  middlewares: readonly QortexMiddleware[],
+  ctx: QortexCallContext,
+  core: (ctx: QortexCallContext) => Promise<unknown>,
+): Promise<unknown> {
+  let index = -1;
+
+  const dispatch = async (i: number): Promise<unknown> => {
+    if (i <= index) {
+      throw new Error("qortex middleware called next() more than once");
+    }
+    index = i;
+
+    if (i === middlewares.length) {
+      try {
+        ctx.result = await core(ctx);
+        return ctx.result;
+      } catch (err) {
+        ctx.error = err;
+        throw err;
+      } finally {
+        ctx.durationMs = Date.now() - ctx.startedAt;
+      }
+    }
+    return middlewares[i](ctx, () => dispatch(i + 1));
+  };
+
+  return dispatch(0);
+}
+
+// ---------------------------------------------------------------------------
+// Built-in middlewares
+// ---------------------------------------------------------------------------
+
+/** Minimal logger shape; satisfied by `console` and Mastra loggers. */
+export interface QortexMiddlewareLogger {
+  debug(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Log every call with its duration; failures are logged as errors.
+ *
+ * Arguments are not logged by default since they may hold embeddings or
+ * sensitive metadata; pass `logArgs: true` to include them.
+ */
+export function loggerMiddleware(
+  logger: QortexMiddlewareLogger = console,
+  options: { logArgs?: boolean } = {},
+): QortexMiddleware {
+  return async (ctx, next) => {
+    const meta = (extra: Record<string, unknown> = {}) => ({
+      tool: ctx.tool,
+      attempt: ctx.attempt,
+      durationMs: ctx.durationMs,
+      ...(options.logArgs ? { args: ctx.args } : {}),
+      ...extra,
+    });
+    try {
+      const result = await next();
+      logger.debug(`qortex ${ctx.tool} ok`, meta());
+      return result;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error(`qortex ${ctx.tool} failed`, meta({ error: message }));
+      throw err;
+    }
+  };
+}
+
+/** Timing sample reported by timingMiddleware. */
+export interface QortexCallTiming {
+  tool: string;
+  attempt: number;
+  durationMs: number;
+  ok: boolean;
+}
+
+/** Report the duration of every call attempt to `onTiming`. */
+export function timingMiddleware(
+  onTiming: (timing: QortexCallTiming) => void,
+): QortexMiddleware {
+  return async (ctx, next) => {
+    let ok = false;
+    try {
+      const result = await next();
+      ok = true;
+      return result;
+    } finally {
+      onTiming({
+        tool: ctx.tool,
+        attempt: ctx.attempt,
+        durationMs: ctx.durationMs ?? Date.now() - ctx.startedAt,
+        ok,
+      });
+    }
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Mastra input processor that injects qortex rules into agent turns.
+ *
+ * On each turn, QortexRulesProcessor queries qortex with the latest user
+ * message, keeps the rules linked to the retrieved concepts (filtered by
+ * domain, category and confidence), and adds them as one system message
+ * cut to a token budget (see renderRules). With `categories` set, every
+ * rule in those categories is fetched with getRules() as well, whether or
+ * not the query reached its concepts. The turn's query_id is recorded so
+ * its outcome can later be reported with feedback().
+ *
+ * Usage:
+ *   const rules = new QortexRulesProcessor(qortex, {
+ *     domains: ["security"],
+ *     maxTokens: 400,
+ *     onRules: (turn) => turns.set(threadId, turn.queryId),
+ *   });
+ *   const agent = new Agent({ ..., inputProcessors: [rules] });
+ */
+
+import type {
+  ProcessInputArgs,
+  ProcessInputResultWithSystemMessages,
+  Processor,
+} from "@mastra/core/processors";
+import { renderRules, type QortexRuleFormat } from "./prompt.js";
+import type { QortexRetrievalSession } from "./session.js";
+import type { QortexQueryResult, QortexRule } from "./types.js";
+import type { QortexVector } from "./vector.js";
+
+export interface QortexRulesProcessorConfig {
+  /** Restrict the query to these domains */
+  domains?: string[];
+  /**
+   * Only inject rules in these categories, including ones not linked to
+   * the retrieved concepts (default: all rules linked to them)
+   */
+  categories?: string[];
+  /** Skip rules below this confidence (default: 0) */
+  minConfidence?: number;
+  /** Concepts retrieved per turn; more concepts surface more rules (default: 10) */
+  topK?: number;
+  /** Retrieval mode (default: "auto") */
+  mode?: "vec" | "graph" | "auto";
+  /** Rule format inside the system message (default: "markdown") */
+  format?: QortexRuleFormat;
+  /** Token budget for the injected rules (default: 500) */
+  maxTokens?: number;
+  /** Text placed above the rules */
+  header?: string;
+  /** Record each turn's query on this session for later feedback */
+  session?: QortexRetrievalSession;
+  /** Called after each turn that queried qortex, e.g. to keep the query_id */
+  onRules?: (turn: QortexRulesTurn) => void;
+  /**
+   * Called when the qortex query fails; the turn then proceeds without
+   * rules. Throw from here to fail the turn instead (default: ignore).
+   * Aborting the turn is not a failure: the abort error is rethrown.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/** What the processor did for one turn; also stored in the processor state. */
+export interface QortexRulesTurn {
+  /** query_id to pass to feedback() */
+  queryId: string;
+  /** The user message that was queried */
+  query: string;
+  /** Rules injected, in render order */
+  ruleIds: string[];
+  /** Items retrieved for the query */
+  itemIds: string[];
+  /** The system message added, or null if no rules applied */
+  systemMessage: string | null;
+}
+
+const DEFAULT_HEADER =
+  "Rules from the knowledge base that apply to this request. Follow them " +
+  "where relevant and cite the ids of rules you rely on.";
+
+export class QortexRulesProcessor implements Processor<"qortex-rules"> {
+  readonly id = "qortex-rules";
+  readonly name = "qortex rules";
+
+  constructor(
+    private readonly qortex: Pick<QortexVector, "textQuery" | "getRules">,
+    private readonly config: QortexRulesProcessorConfig = {},
+  ) {}
+
+  async processInput({
+    messages,
+    systemMessages,
+    state,
+    abortSignal,
+  }: ProcessInputArgs): Promise<ProcessInputResultWithSystemMessages> {
+    const query = latestUserText(messages);
+    if (!query) return { messages, systemMessages };
+
+    const { domains, categories, minConfidence } = this.config;
+    let result: QortexQueryResult;
+    let categoryRules: QortexRule[];
+    try {
+      [result, categoryRules] = await Promise.all([
+        this.qortex.textQuery(query, {
+          domains,
+          topK: this.config.topK ?? 10,
+          mode: this.config.mode,
+          signal: abortSignal,
+        }),
+        categories
+          ? this.qortex
+              .getRules({
+                domains,
+                categories,
+                minConfidence,
+                signal: abortSignal,
+              })
+              .then((rules) => rules.rules)
+          : [],
+      ]);
+    } catch (error) {
+      if (abortSignal?.aborted) throw error;
+      this.config.onError?.(error);
+      return { messages, systemMessages };
+    }
+    this.config.session?.record(result);
+
+    // Retrieved copies carry relevance, so they win over category fetches
+    const retrieved = new Set(result.rules.map((rule) => rule.id));
+    const rules = [
+      ...result.rules,
+      ...categoryRules.filter((rule) => !retrieved.has(rule.id)),
+    ];
+    const rendered = renderRules(this.applicable(rules), {
+      format: this.config.format,
+      maxTokens: this.config.maxTokens ?? 500,
+    });
+    const systemMessage = rendered.text
+      ? `${this.config.header ?? DEFAULT_HEADER}\n\n${rendered.text}`
+      : null;
+
+    const turn: QortexRulesTurn = {
+      queryId: result.query_id,
+      query,
+      ruleIds: rendered.rules.map((rule) => rule.id),
+      itemIds: result.items.map((item) => item.id),
+      systemMessage,
+    };
+    state.qortex = turn;
+    this.config.onRules?.(turn);
+
+    return {
+      messages,
+      systemMessages: systemMessage
+        ? [...systemMessages, { role: "system", content: systemMessage }]
+        : systemMessages,
+    };
+  }
+
+  private applicable(rules: QortexRule[]): QortexRule[] {
+    const { domains, categories, minConfidence = 0 } = this.config;
+    return rules.filter(
+      (rule) =>
+        rule.confidence >= minConfidence &&
+        (!domains || domains.includes(rule.domain)) &&
+        (!categories ||
+          (rule.category !== null && categories.includes(rule.category))),
+    );
+  }
+}
+
+/** Text of the last user message, or "" if there is none. */
+function latestUserText(messages: ProcessInputArgs["messages"]): string {
+  const message = [...messages].reverse().find((m) => m.role === "user");
+  if (!message) return "";
+  const text = message.content.parts
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("\n")
+    .trim();
+  return text || message.content.content?.trim() || "";
+}
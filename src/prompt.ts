@@ -0,0 +1,238 @@
+/**
+ * Render QortexRule[] as system-prompt text.
+ *
+ * Rules from getRules() or textQuery() are de-duplicated, ordered by
+ * relevance × confidence, grouped by domain and category, and cut to a
+ * token or character budget. Every rule keeps its id in the output, so
+ * an answer that cites rules can be traced back (citedRuleIds) and the
+ * outcome reported with feedback().
+ *
+ * Usage:
+ *   const { rules } = await qortex.textQuery("token validation");
+ *   const prompt = renderRules(rules, { format: "xml", maxTokens: 500 });
+ *   // ... later
+ *   const cited = citedRuleIds(answer, prompt.rules);
+ */
+
+import type { QortexRule } from "./types.js";
+import { xml } from "./xml.js";
+
+export type QortexRuleFormat = "markdown" | "xml" | "bullets";
+
+/** Rule fields that can group the output. */
+export type QortexRuleGrouping = "domain" | "category";
+
+export interface QortexRenderRulesOptions {
+  /** Output format (default: "markdown") */
+  format?: QortexRuleFormat;
+  /**
+   * Group by these fields, outermost first (default: ["domain",
+   * "category"]; [] for a flat list)
+   */
+  groupBy?: QortexRuleGrouping[];
+  /** Token budget for the whole text */
+  maxTokens?: number;
+  /** Character budget for the whole text */
+  maxChars?: number;
+  /** Token counter (default: ~4 characters per token) */
+  countTokens?: (text: string) => number;
+  /**
+   * Word-overlap (Jaccard) similarity at or above which two rules count
+   * as duplicates; the better-scored one is kept (default: 0.85)
+   */
+  dedupeThreshold?: number;
+}
+
+export interface QortexRenderedRules {
+  text: string;
+  /** Rules in the text, in render order */
+  rules: QortexRule[];
+  /** Ids left out to fit the budget */
+  omitted: string[];
+  /** Near-duplicates dropped, with the id of the rule kept instead */
+  duplicates: Array<{ id: string; duplicateOf: string }>;
+  /** Size of `text` per `countTokens` */
+  tokens: number;
+}
+
+/** Label for rules without a category. */
+const UNCATEGORIZED = "general";
+
+/**
+ * Render rules within a budget.
+ *
+ * Rules are taken best-first and skipped when they (with any new group
+ * heading) would overflow the budget, so a long rule does not crowd out
+ * shorter ones after it.
+ */
+export function renderRules(
+  rules: QortexRule[],
+  options: QortexRenderRulesOptions = {},
+): QortexRenderedRules {
+  const countTokens = options.countTokens ?? estimateTokens;
+  const { kept, duplicates } = dedupe(
+    [...rules].sort(byScore),
+    options.dedupeThreshold ?? 0.85,
+  );
+
+  const fits = (text: string) =>
+    (options.maxChars === undefined || text.length <= options.maxChars) &&
+    (options.maxTokens === undefined || countTokens(text) <= options.maxTokens);
+
+  const included: QortexRule[] = [];
+  const omitted: string[] = [];
+  for (const rule of kept) {
+    if (fits(render([...included, rule], options))) included.push(rule);
+    else omitted.push(rule.id);
+  }
+
+  const text = included.length > 0 ? render(included, options) : "";
+  return {
+    text,
+    rules: groups(included, options).flatMap((group) => group.rules),
+    omitted,
+    duplicates,
+    tokens: countTokens(text),
+  };
+}
+
+/**
+ * Ids of `rules` that `answer` mentions, e.g. to report them as
+ * accepted via feedback(). Matches whole ids only.
+ */
+export function citedRuleIds(answer: string, rules: QortexRule[]): string[] {
+  return rules
+    .filter((rule) =>
+      new RegExp(`(^|[^\\w:-])${escapeRegExp(rule.id)}(?![\\w:-])`).test(
+        answer,
+      ),
+    )
+    .map((rule) => rule.id);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function score(rule: QortexRule): number {
+  return rule.relevance * rule.confidence;
+}
+
+/** Best first: relevance × confidence, then confidence; stable otherwise. */
+function byScore(a: QortexRule, b: QortexRule): number {
+  return score(b) - score(a) || b.confidence - a.confidence;
+}
+
+interface RuleGroup {
+  /** Grouping field values, outermost first */
+  labels: Array<[QortexRuleGrouping, string]>;
+  rules: QortexRule[];
+}
+
+/** Group rules, keeping groups and rules in best-first order. */
+function groups(
+  rules: QortexRule[],
+  options: QortexRenderRulesOptions,
+): RuleGroup[] {
+  const groupBy = options.groupBy ?? ["domain", "category"];
+  const byKey = new Map<string, RuleGroup>();
+  for (const rule of rules) {
+    const labels = groupBy.map((field): [QortexRuleGrouping, string] => [
+      field,
+      field === "domain" ? rule.domain : (rule.category ?? UNCATEGORIZED),
+    ]);
+    const key = JSON.stringify(labels);
+    const group = byKey.get(key) ?? { labels, rules: [] };
+    group.rules.push(rule);
+    byKey.set(key, group);
+  }
+  return [...byKey.values()];
+}
+
+function render(
+  rules: QortexRule[],
+  options: QortexRenderRulesOptions,
+): string {
+  const grouped = groups(rules, options);
+  switch (options.format ?? "markdown") {
+    case "xml":
+      return [
+        "<rules>",
+        ...grouped.flatMap(({ labels, rules: members }) => {
+          const items = members.map(
+            (rule) =>
+              `<rule id="${xml(rule.id)}">${xml(oneLine(rule.text))}</rule>`,
+          );
+          if (labels.length === 0) return items.map((item) => `  ${item}`);
+          const attrs = labels
+            .map(([field, value]) => ` ${field}="${xml(value)}"`)
+            .join("");
+          return [
+            `  <group${attrs}>`,
+            ...items.map((item) => `    ${item}`),
+            "  </group>",
+          ];
+        }),
+        "</rules>",
+      ].join("\n");
+    case "bullets":
+      return grouped
+        .map(({ labels, rules: members }) =>
+          [
+            ...(labels.length > 0 ? [`${heading(labels)}:`] : []),
+            ...members.map((rule) => `- ${oneLine(rule.text)} (${rule.id})`),
+          ].join("\n"),
+        )
+        .join("\n\n");
+    case "markdown":
+      return grouped
+        .map(({ labels, rules: members }) =>
+          [
+            ...(labels.length > 0 ? [`### ${heading(labels)}`] : []),
+            ...members.map((rule) => `- ${oneLine(rule.text)} [${rule.id}]`),
+          ].join("\n"),
+        )
+        .join("\n\n");
+  }
+}
+
+function heading(labels: Array<[QortexRuleGrouping, string]>): string {
+  return labels.map(([, value]) => value).join(" / ");
+}
+
+/**
+ * Drop rules whose text nearly repeats a better-scored one. `rules` must
+ * already be sorted best-first.
+ */
+function dedupe(
+  rules: QortexRule[],
+  threshold: number,
+): Pick<QortexRenderedRules, "duplicates"> & { kept: QortexRule[] } {
+  const kept: Array<{ rule: QortexRule; words: Set<string> }> = [];
+  const duplicates: QortexRenderedRules["duplicates"] = [];
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (seen.has(rule.id)) continue;
+    seen.add(rule.id);
+    const words = new Set(rule.text.toLowerCase().match(/[\p{L}\p{N}]+/gu));
+    const match = kept.find((k) => jaccard(k.words, words) >= threshold);
+    if (match) duplicates.push({ id: rule.id, duplicateOf: match.rule.id });
+    else kept.push({ rule, words });
+  }
+  return { kept: kept.map((k) => k.rule), duplicates };
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
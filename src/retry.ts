@@ -0,0 +1,88 @@
+/**
+ * Retry policy for qortex tool calls.
+ *
+ * Only retryable failures (transport errors, timeouts) are retried, and
+ * only for calls that are safe to replay: reads, and upserts whose ids
+ * are supplied by the caller. Non-idempotent writes such as
+ * qortex_feedback are never replayed.
+ */
+
+import { QortexError } from "./errors.js";
+
+export interface QortexRetryPolicy {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms (default: 200) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay in ms (default: 5000) */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoffFactor?: number;
+  /** Fraction of each delay that is randomized, 0–1 (default: 0.5) */
+  jitter?: number;
+  /** Override which calls are safe to replay (default: isRetrySafe) */
+  isRetrySafe?: (tool: string, args: Record<string, unknown>) => boolean;
+}
+
+/** Tools that only read state and can always be replayed. */
+const READ_TOOLS = new Set([
+  "qortex_vector_list_indexes",
+  "qortex_vector_describe_index",
+  "qortex_vector_query",
+  "qortex_query",
+  "qortex_explore",
+  "qortex_rules",
+  "qortex_domains",
+  "qortex_describe_domain",
+]);
+
+/**
+ * Whether replaying a call cannot change the outcome.
+ *
+ * Reads are always safe. qortex_vector_upsert is safe only when ids are
+ * supplied — without them the server mints new ids and a replay would
+ * duplicate vectors. The same holds for qortex_add_concepts and
+ * qortex_add_rules; qortex_add_edges is keyed by its endpoints and always
+ * safe. Every other write is treated as unsafe.
+ */
+export function isRetrySafe(
+  tool: string,
+  args: Record<string, unknown>,
+): boolean {
+  if (READ_TOOLS.has(tool)) return true;
+  if (tool === "qortex_vector_upsert") {
+    return Array.isArray(args.ids) && args.ids.length > 0;
+  }
+  // Graph adds replace by id (edges by endpoints + relation)
+  if (tool === "qortex_add_edges") return true;
+  if (tool === "qortex_add_concepts" || tool === "qortex_add_rules") {
+    const items = args[tool === "qortex_add_rules" ? "rules" : "concepts"];
+    return (
+      Array.isArray(items) &&
+      items.every((item: { id?: unknown }) => typeof item?.id === "string")
+    );
+  }
+  return false;
+}
+
+/** Whether a failure is worth another attempt under `policy`. */
+export function shouldRetry(
+  error: unknown,
+  tool: string,
+  args: Record<string, unknown>,
+  policy: QortexRetryPolicy,
+): boolean {
+  if (!(error instanceof QortexError) || !error.retryable) return false;
+  return (policy.isRetrySafe ?? isRetrySafe)(tool, args);
+}
+
+/** Backoff delay before retry number `retry` (1-based), with jitter. */
+export function retryDelay(retry: number, policy: QortexRetryPolicy): number {
+  const initialDelayMs = policy.initialDelayMs ?? 200;
+  const maxDelayMs = policy.maxDelayMs ?? 5_000;
+  const backoffFactor = policy.backoffFactor ?? 2;
+  const jitter = Math.min(Math.max(policy.jitter ?? 0.5, 0), 1);
+
+  const base = Math.min(initialDelayMs * backoffFactor ** (retry - 1), maxDelayMs);
+  return Math.round(base * (1 - jitter + jitter * Math.random()));
+}
@@ -0,0 +1,203 @@
+/**
+ * Runtime schemas for qortex tool responses.
+ *
+ * Mirrors the interfaces in types.ts plus the vector tool responses
+ * (IndexStats, QueryResult[], upsert ids). QortexVector validates every
+ * response against these; they are exported for reuse by callers.
+ *
+ * Objects use passthrough so fields added by newer servers survive.
+ */
+
+import { z } from "zod";
+import type { IndexStats, QueryResult } from "@mastra/core/vector";
+import type {
+  ExploreResult,
+  FeedbackResult,
+  QortexDomainInfo,
+  QortexEdge,
+  QortexEdgeRef,
+  QortexNode,
+  QortexQueryItem,
+  QortexQueryResult,
+  QortexRule,
+  RulesResult,
+} from "./types.js";
+
+/** Schema whose parsed output satisfies the interface `T`. */
+type SchemaFor<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+const properties = z.record(z.unknown());
+
+export const QortexNodeSchema: SchemaFor<QortexNode> = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    domain: z.string(),
+    confidence: z.number(),
+    properties,
+  })
+  .passthrough();
+
+export const QortexEdgeSchema: SchemaFor<QortexEdge> = z
+  .object({
+    source_id: z.string(),
+    target_id: z.string(),
+    relation_type: z.string(),
+    confidence: z.number(),
+    properties,
+  })
+  .passthrough();
+
+export const QortexRuleSchema: SchemaFor<QortexRule> = z
+  .object({
+    id: z.string(),
+    text: z.string(),
+    domain: z.string(),
+    category: z.string().nullable(),
+    confidence: z.number(),
+    relevance: z.number(),
+    derivation: z.string(),
+    source_concepts: z.array(z.string()),
+    metadata: properties,
+  })
+  .passthrough();
+
+export const ExploreResultSchema: SchemaFor<ExploreResult> = z
+  .object({
+    node: QortexNodeSchema,
+    edges: z.array(QortexEdgeSchema),
+    rules: z.array(QortexRuleSchema),
+    neighbors: z.array(QortexNodeSchema),
+  })
+  .passthrough();
+
+export const RulesResultSchema: SchemaFor<RulesResult> = z
+  .object({
+    rules: z.array(QortexRuleSchema),
+    domain_count: z.number(),
+    projection: z.string(),
+  })
+  .passthrough();
+
+export const FeedbackOutcomeSchema = z.enum(["accepted", "rejected", "partial"]);
+
+export const FeedbackResultSchema: SchemaFor<FeedbackResult> = z
+  .object({
+    status: z.string(),
+    query_id: z.string(),
+    outcome_count: z.number(),
+    source: z.string(),
+  })
+  .passthrough();
+
+export const QortexQueryItemSchema: SchemaFor<QortexQueryItem> = z
+  .object({
+    id: z.string(),
+    content: z.string(),
+    score: z.number(),
+    domain: z.string(),
+    node_id: z.string(),
+    metadata: properties,
+  })
+  .passthrough();
+
+export const QortexQueryResultSchema: SchemaFor<QortexQueryResult> = z
+  .object({
+    items: z.array(QortexQueryItemSchema),
+    query_id: z.string(),
+    rules: z.array(QortexRuleSchema),
+  })
+  .passthrough();
+
+export const QortexDomainInfoSchema: SchemaFor<QortexDomainInfo> = z
+  .object({
+    name: z.string(),
+    description: z.string().nullable(),
+    concept_count: z.number(),
+    edge_count: z.number(),
+    rule_count: z.number(),
+  })
+  .passthrough();
+
+// ---------------------------------------------------------------------------
+// Vector tool responses
+// ---------------------------------------------------------------------------
+
+export const IndexStatsSchema: SchemaFor<IndexStats> = z
+  .object({
+    dimension: z.number().int().nonnegative(),
+    count: z.number().int().nonnegative(),
+    metric: z.enum(["cosine", "euclidean", "dotproduct"]).optional(),
+  })
+  .passthrough();
+
+export const QueryResultSchema: SchemaFor<QueryResult> = z
+  .object({
+    id: z.string(),
+    score: z.number(),
+    metadata: properties.optional(),
+    vector: z.array(z.number()).optional(),
+    document: z.string().optional(),
+  })
+  .passthrough();
+
+/** qortex_domains */
+export const ListDomainsResponseSchema = z
+  .object({ domains: z.array(QortexDomainInfoSchema) })
+  .passthrough();
+
+/** qortex_add_concepts / qortex_add_rules */
+export const AddedIdsResponseSchema = z
+  .object({ ids: z.array(z.string()) })
+  .passthrough();
+
+export const QortexEdgeRefSchema: SchemaFor<QortexEdgeRef> = z
+  .object({
+    source_id: z.string(),
+    target_id: z.string(),
+    relation_type: z.string(),
+  })
+  .passthrough();
+
+/** qortex_add_edges */
+export const AddedEdgesResponseSchema = z
+  .object({ edges: z.array(QortexEdgeRefSchema) })
+  .passthrough();
+
+/** qortex_delete_concepts / qortex_delete_edges / qortex_delete_rules */
+export const DeletedCountResponseSchema = z
+  .object({ deleted: z.number().int().nonnegative() })
+  .passthrough();
+
+/** qortex_vector_list_indexes */
+export const ListIndexesResponseSchema = z
+  .object({ indexes: z.array(z.string()) })
+  .passthrough();
+
+/** qortex_vector_query */
+export const QueryResponseSchema = z
+  .object({ results: z.array(QueryResultSchema).optional() })
+  .passthrough();
+
+/** qortex_vector_upsert */
+export const UpsertResponseSchema = z
+  .object({ ids: z.array(z.string()) })
+  .passthrough();
+
+/** How QortexVector treats responses that fail validation. */
+export type QortexValidationMode = "strict" | "warn" | "off";
+
+/** A single validation problem, with a dotted path into the response. */
+export interface QortexValidationIssue {
+  path: string;
+  message: string;
+}
+
+/** Flatten zod issues into `path: message` pairs ("items.0.score"). */
+export function describeIssues(error: z.ZodError): QortexValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+  }));
+}
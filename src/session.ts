@@ -0,0 +1,312 @@
+/**
+ * Retrieval sessions: tie what an agent run retrieved to the feedback it
+ * reports.
+ *
+ * A session wraps a QortexVector and records every textQuery(),
+ * hybridQuery() and query() made through it. Items are then marked by
+ * item id, node id or predicate, and end() submits one consolidated
+ * outcome map per query_id, so callers never carry query ids around.
+ *
+ * Usage:
+ *   const session = new QortexRetrievalSession(qortex, { uncited: "rejected" });
+ *   const { items } = await session.textQuery("token validation");
+ *   // ... the agent answers, citing some items
+ *   session.cite((item) => answer.includes(item.id));
+ *   session.reject("sec:api-keys");
+ *   await session.end();
+ *
+ * Plain vector query() results, and hybridQuery() hits only the vector
+ * side found, have no query_id; they can be marked and cited but are not
+ * submitted. Hybrid hits the graph found are reported by item id.
+ */
+
+import type { QueryResult, QueryVectorParams } from "@mastra/core/vector";
+import { runConcurrently } from "./batch.js";
+import type { QortexCallOptions } from "./client.js";
+import { QortexSessionEndedError } from "./errors.js";
+import type { QortexFeedbackBuffer, QortexFeedbackSink } from "./feedback.js";
+import type { QortexHybridResult } from "./hybrid.js";
+import type { FeedbackOutcome, QortexQueryResult } from "./types.js";
+import type { QortexHybridQueryParams, QortexVector } from "./vector.js";
+
+/** Outcome maps end() sends at once. */
+const FEEDBACK_CONCURRENCY = 4;
+
+/** The QortexVector methods a session wraps. */
+export type QortexSessionSource = Pick<
+  QortexVector,
+  "textQuery" | "hybridQuery" | "query"
+> &
+  QortexFeedbackSink;
+
+export interface QortexRetrievalSessionConfig {
+  /** Feedback source label (default: "mastra") */
+  source?: string;
+  /** Outcome for cited items that were not marked (default: "accepted") */
+  cited?: FeedbackOutcome | "ignore";
+  /**
+   * Outcome for items that were neither cited nor marked (default:
+   * "ignore"). "rejected" penalizes everything the agent retrieved but
+   * did not use.
+   */
+  uncited?: FeedbackOutcome | "ignore";
+  /** Queue feedback here instead of calling feedback() in end() */
+  buffer?: QortexFeedbackBuffer;
+}
+
+/** Which retrieval call produced an item. */
+export type QortexRetrievalKind = "text" | "hybrid" | "vector";
+
+/** One retrieved item, as recorded by a session. */
+export interface QortexSessionItem {
+  /** Id reported in feedback */
+  id: string;
+  node_id?: string;
+  /**
+   * query_id of the retrieval; absent for vector query() results and
+   * hybrid hits only the vector side found
+   */
+  query_id?: string;
+  kind: QortexRetrievalKind;
+  score: number;
+  content?: string;
+  domain?: string;
+  metadata: Record<string, unknown>;
+}
+
+/** Items to mark: an item or node id, several ids, or a predicate. */
+export type QortexSessionTarget =
+  string | string[] | ((item: QortexSessionItem) => boolean);
+
+/** One outcome map submitted by end(). */
+export interface QortexSessionFeedback {
+  queryId: string;
+  outcomes: Record<string, FeedbackOutcome>;
+}
+
+/** An outcome map end() could not send. */
+export interface QortexSessionFailure extends QortexSessionFeedback {
+  error: unknown;
+}
+
+export interface QortexSessionSummary {
+  /** Outcome maps sent (or queued on the buffer), one per query_id */
+  feedback: QortexSessionFeedback[];
+  /** Outcome maps the server did not take; resend them with feedback() */
+  failed: QortexSessionFailure[];
+  /** Items with an outcome that could not be sent for lack of a query_id */
+  unsubmitted: QortexSessionItem[];
+}
+
+export class QortexRetrievalSession {
+  private readonly config: QortexRetrievalSessionConfig;
+  private readonly recorded: QortexSessionItem[] = [];
+  private readonly marks = new Map<QortexSessionItem, FeedbackOutcome>();
+  private readonly cited = new Set<QortexSessionItem>();
+  private ended = false;
+
+  constructor(
+    private readonly qortex: QortexSessionSource,
+    config: QortexRetrievalSessionConfig = {},
+  ) {
+    this.config = config;
+  }
+
+  /** Items retrieved so far, in retrieval order. */
+  get items(): QortexSessionItem[] {
+    return [...this.recorded];
+  }
+
+  /** textQuery(), recording its items. */
+  async textQuery(
+    ...args: Parameters<QortexVector["textQuery"]>
+  ): Promise<QortexQueryResult> {
+    this.assertOpen();
+    const result = await this.qortex.textQuery(...args);
+    this.record(result);
+    return result;
+  }
+
+  /** hybridQuery(), recording its fused results. */
+  async hybridQuery(
+    params: QortexHybridQueryParams,
+  ): Promise<QortexHybridResult> {
+    this.assertOpen();
+    const result = await this.qortex.hybridQuery(params);
+    this.record(result);
+    return result;
+  }
+
+  /** Vector query(), recording its results (without a query_id). */
+  async query(
+    params: QueryVectorParams & QortexCallOptions,
+  ): Promise<QueryResult[]> {
+    this.assertOpen();
+    const results = await this.qortex.query(params);
+    this.record(results);
+    return results;
+  }
+
+  /**
+   * Record results retrieved outside the session, e.g. by a tool that
+   * called QortexVector directly.
+   */
+  record(result: QortexQueryResult | QortexHybridResult | QueryResult[]): void {
+    this.assertOpen();
+    if (Array.isArray(result)) {
+      for (const r of result) {
+        this.recorded.push({
+          id: r.id,
+          kind: "vector",
+          score: r.score,
+          metadata: r.metadata ?? {},
+        });
+      }
+    } else if ("results" in result) {
+      for (const r of result.results) {
+        // The query_id only covers what the graph side returned, which it
+        // knows by item id, as for textQuery(); vector-only hits are
+        // recorded without one
+        const graph = r.sources.includes("graph");
+        this.recorded.push({
+          id: graph ? (r.item_id ?? r.id) : r.id,
+          node_id: r.node_id,
+          ...(graph ? { query_id: result.query_id } : {}),
+          kind: "hybrid",
+          score: r.score,
+          content: r.content,
+          domain: r.domain,
+          metadata: r.metadata,
+        });
+      }
+    } else {
+      for (const item of result.items) {
+        this.recorded.push({
+          id: item.id,
+          node_id: item.node_id,
+          query_id: result.query_id,
+          kind: "text",
+          score: item.score,
+          content: item.content,
+          domain: item.domain,
+          metadata: item.metadata,
+        });
+      }
+    }
+  }
+
+  /** Mark matching items as accepted; returns how many matched. */
+  accept(target: QortexSessionTarget): number {
+    return this.mark(target, "accepted");
+  }
+
+  /** Mark matching items as rejected; returns how many matched. */
+  reject(target: QortexSessionTarget): number {
+    return this.mark(target, "rejected");
+  }
+
+  /** Mark matching items as partially useful; returns how many matched. */
+  partial(target: QortexSessionTarget): number {
+    return this.mark(target, "partial");
+  }
+
+  /**
+   * Mark items retrieved so far; a later mark overrides an earlier one.
+   * Returns how many items matched.
+   */
+  mark(target: QortexSessionTarget, outcome: FeedbackOutcome): number {
+    this.assertOpen();
+    const matched = this.match(target);
+    for (const item of matched) this.marks.set(item, outcome);
+    return matched.length;
+  }
+
+  /**
+   * Note that the agent used matching items. Unmarked cited items get
+   * the `cited` outcome on end(); see also `uncited`.
+   */
+  cite(target: QortexSessionTarget): number {
+    this.assertOpen();
+    const matched = this.match(target);
+    for (const item of matched) this.cited.add(item);
+    return matched.length;
+  }
+
+  /**
+   * Submit one outcome map per query_id and close the session. Explicit
+   * marks win over the cited/uncited policy. With a buffer configured,
+   * outcomes are queued and end() does not wait for the server.
+   * Otherwise every map is sent even if some fail; failures are listed
+   * in the summary's `failed` rather than thrown.
+   */
+  async end(options: QortexCallOptions = {}): Promise<QortexSessionSummary> {
+    this.assertOpen();
+    this.ended = true;
+
+    const byQuery = new Map<string, Record<string, FeedbackOutcome>>();
+    const unsubmitted: QortexSessionItem[] = [];
+    for (const item of this.recorded) {
+      const outcome = this.outcome(item);
+      if (!outcome) continue;
+      if (!item.query_id) {
+        unsubmitted.push(item);
+        continue;
+      }
+      const outcomes = byQuery.get(item.query_id) ?? {};
+      outcomes[item.id] = outcome;
+      byQuery.set(item.query_id, outcomes);
+    }
+
+    const source = this.config.source ?? "mastra";
+    const maps = [...byQuery].map(([queryId, outcomes]) => ({
+      queryId,
+      outcomes,
+    }));
+    const buffer = this.config.buffer;
+    if (buffer) {
+      for (const { queryId, outcomes } of maps) {
+        buffer.add(queryId, outcomes, source);
+      }
+      return { feedback: maps, failed: [], unsubmitted };
+    }
+
+    const errors = new Map<QortexSessionFeedback, unknown>();
+    // Each task settles on its own so one failure does not stop the rest
+    await runConcurrently(maps, FEEDBACK_CONCURRENCY, async (map) => {
+      try {
+        await this.qortex.feedback(map.queryId, map.outcomes, source, options);
+      } catch (error) {
+        errors.set(map, error);
+      }
+    });
+    const feedback = maps.filter((map) => !errors.has(map));
+    const failed = maps
+      .filter((map) => errors.has(map))
+      .map((map) => ({ ...map, error: errors.get(map) }));
+    return { feedback, failed, unsubmitted };
+  }
+
+  private outcome(item: QortexSessionItem): FeedbackOutcome | null {
+    const policy = this.cited.has(item)
+      ? (this.config.cited ?? "accepted")
+      : (this.config.uncited ?? "ignore");
+    const outcome = this.marks.get(item) ?? policy;
+    return outcome === "ignore" ? null : outcome;
+  }
+
+  private match(target: QortexSessionTarget): QortexSessionItem[] {
+    if (typeof target === "function") return this.recorded.filter(target);
+    const ids = new Set(typeof target === "string" ? [target] : target);
+    return this.recorded.filter(
+      (item) =>
+        ids.has(item.id) ||
+        (item.node_id !== undefined && ids.has(item.node_id)),
+    );
+  }
+
+  private assertOpen(): void {
+    if (this.ended) {
+      throw new QortexSessionEndedError("qortex retrieval session has ended");
+    }
+  }
+}
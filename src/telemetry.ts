@@ -0,0 +1,116 @@
+/**
+ * OpenTelemetry instrumentation for qortex operations.
+ *
+ * QortexVector opens a span per method (`qortex.query`, `qortex.upsert`,
+ * ...) under the active context, so qortex calls nest inside Mastra's
+ * agent and workflow spans. Per-tool latency and error metrics are
+ * recorded by a middleware around every MCP call attempt.
+ *
+ * Without a registered tracer/meter provider the global API is a no-op.
+ */
+
+import {
+  metrics,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type AttributeValue,
+  type Attributes,
+  type Counter,
+  type Histogram,
+  type Meter,
+  type Span,
+  type Tracer,
+} from "@opentelemetry/api";
+import type { QortexMiddleware } from "./middleware.js";
+
+/** Instrumentation scope name for spans and metrics. */
+export const QORTEX_INSTRUMENTATION_NAME = "@peleke.s/mastra-qortex";
+
+export interface QortexTelemetryConfig {
+  /** Tracer for method spans (default: tracer from the global provider) */
+  tracer?: Tracer;
+  /** Meter for tool metrics (default: meter from the global provider) */
+  meter?: Meter;
+}
+
+/** Attribute map that tolerates unset values; they are dropped. */
+type QortexSpanAttributes = Record<string, AttributeValue | undefined>;
+
+export class QortexTelemetry {
+  private readonly tracer: Tracer;
+  private readonly duration: Histogram;
+  private readonly errors: Counter;
+
+  constructor(config: QortexTelemetryConfig = {}) {
+    this.tracer = config.tracer ?? trace.getTracer(QORTEX_INSTRUMENTATION_NAME);
+    const meter = config.meter ?? metrics.getMeter(QORTEX_INSTRUMENTATION_NAME);
+    this.duration = meter.createHistogram("qortex.tool.duration", {
+      description: "Duration of qortex MCP tool calls",
+      unit: "ms",
+    });
+    this.errors = meter.createCounter("qortex.tool.errors", {
+      description: "Failed qortex MCP tool calls",
+    });
+  }
+
+  /**
+   * Run `fn` inside an active span named `qortex.<operation>`.
+   *
+   * Failures are recorded on the span and rethrown; `fn` may add result
+   * attributes (counts, query ids) through the span it receives.
+   */
+  async span<T>(
+    operation: string,
+    attributes: QortexSpanAttributes,
+    fn: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    return this.tracer.startActiveSpan(
+      `qortex.${operation}`,
+      { kind: SpanKind.CLIENT, attributes: definedAttributes(attributes) },
+      async (span) => {
+        try {
+          return await fn(span);
+        } catch (err) {
+          const error = err instanceof Error ? err : new Error(String(err));
+          span.recordException(error);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+          throw err;
+        } finally {
+          span.end();
+        }
+      },
+    );
+  }
+
+  /** Middleware recording `qortex.tool.duration` and `qortex.tool.errors`. */
+  middleware(): QortexMiddleware {
+    return async (ctx, next) => {
+      let outcome = "error";
+      try {
+        const result = await next();
+        outcome = "ok";
+        return result;
+      } catch (err) {
+        this.errors.add(1, {
+          "qortex.tool": ctx.tool,
+          "error.type": err instanceof Error ? err.name : "Error",
+        });
+        throw err;
+      } finally {
+        this.duration.record(ctx.durationMs ?? Date.now() - ctx.startedAt, {
+          "qortex.tool": ctx.tool,
+          "qortex.outcome": outcome,
+        });
+      }
+    };
+  }
+}
+
+function definedAttributes(attributes: QortexSpanAttributes): Attributes {
+  const defined: Attributes = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) defined[key] = value;
+  }
+  return defined;
+}
@@ -0,0 +1,1095 @@
+/**
+ * In-memory qortex MCP stand-in for tests and local development.
+ *
+ * createQortexTestServer() implements every tool QortexVector calls —
+ * the qortex_vector_* tools plus qortex_query, qortex_explore,
+ * qortex_rules, qortex_feedback, the domain tools and the graph write
+ * tools — against in-process state:
+ *
+ *   - vector indexes with brute-force cosine / euclidean / dotproduct
+ *     similarity and Mongo-style metadata filters (see filter.ts)
+ *   - a small seedable knowledge graph of nodes, edges and rules
+ *
+ * Usage:
+ *   const server = createQortexTestServer();
+ *   const qortex = new QortexVector({ id: "test", transport: server.transport });
+ *
+ * No Python, network or subprocess is involved, so suites built on it
+ * run offline in CI.
+ */
+
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { QortexInMemoryTransportConfig } from "./client.js";
+import { matchesFilter } from "./filter.js";
+import type {
+  FeedbackOutcome,
+  QortexDomainInfo,
+  QortexEdge,
+  QortexEdgeRef,
+  QortexNode,
+  QortexQueryItem,
+  QortexRule,
+} from "./types.js";
+
+type Metric = "cosine" | "euclidean" | "dotproduct";
+
+/** Graph the stand-in serves to qortex_query / qortex_explore / qortex_rules. */
+export interface QortexTestGraph {
+  nodes: QortexNode[];
+  edges: QortexEdge[];
+  rules: QortexRule[];
+  /** Domain descriptions; domains used by nodes or rules are listed either way */
+  domains?: QortexTestDomain[];
+}
+
+export interface QortexTestDomain {
+  name: string;
+  description: string | null;
+}
+
+export interface QortexTestServerOptions {
+  /** Graph to serve (default: a small security/infra graph, see DEFAULT_TEST_GRAPH) */
+  graph?: QortexTestGraph;
+  /** Server name reported in the MCP handshake (default: "qortex") */
+  name?: string;
+  /** Server version reported in the MCP handshake (default: "0.2.0") */
+  version?: string;
+  /**
+   * qortex_query item id per node id (default: the node id). Real qortex
+   * items are chunks whose id differs from their node_id; set this to
+   * test code that must keep the two apart. Feedback is keyed by item id.
+   */
+  itemIds?: Record<string, string>;
+}
+
+/** One qortex_feedback call as received by the stand-in. */
+export interface QortexTestFeedback {
+  queryId: string;
+  outcomes: Record<string, FeedbackOutcome>;
+  source: string;
+}
+
+interface StoredVector {
+  vector: number[];
+  metadata: Record<string, unknown>;
+}
+
+interface TestIndex {
+  dimension: number;
+  metric: Metric;
+  vectors: Map<string, StoredVector>;
+}
+
+/** Error the stand-in reports as `{ error, code }`, like the real server. */
+class ToolError extends Error {
+  constructor(
+    message: string,
+    readonly code?: string,
+    /** Extra payload fields, e.g. `missing` ids */
+    readonly extra: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
+
+/** Score adjustment per feedback outcome, applied to later text queries. */
+const FEEDBACK_WEIGHTS: Record<FeedbackOutcome, number> = {
+  accepted: 0.1,
+  partial: 0.05,
+  rejected: -0.1,
+};
+
+/** Share of a neighbor's score propagated along an edge in graph mode. */
+const GRAPH_SPREAD = 0.5;
+
+export class QortexTestServer {
+  /** Vector indexes by name */
+  readonly indexes = new Map<string, TestIndex>();
+  /** Every qortex_feedback call received, in order */
+  readonly feedback: QortexTestFeedback[] = [];
+  readonly graph: QortexTestGraph;
+
+  private readonly info: { name: string; version: string };
+  private readonly servers = new Set<McpServer>();
+  private readonly weights = new Map<string, number>();
+  private readonly itemIds: Record<string, string>;
+  /** Node id per item id, to apply feedback to the right node */
+  private readonly nodeIds: Map<string, string>;
+  private queryCount = 0;
+
+  constructor(options: QortexTestServerOptions = {}) {
+    this.graph = structuredClone(options.graph ?? DEFAULT_TEST_GRAPH);
+    this.info = {
+      name: options.name ?? "qortex",
+      version: options.version ?? "0.2.0",
+    };
+    this.itemIds = options.itemIds ?? {};
+    this.nodeIds = new Map(
+      Object.entries(this.itemIds).map(([nodeId, itemId]) => [itemId, nodeId]),
+    );
+  }
+
+  /** Transport config for QortexMcpClient / QortexVector. */
+  get transport(): QortexInMemoryTransportConfig {
+    return { type: "in-memory", createTransport: () => this.connect() };
+  }
+
+  /**
+   * Open a new connection and return its client-side transport.
+   *
+   * Every connection gets its own McpServer; all of them share this
+   * instance's indexes, graph and feedback.
+   */
+  async connect(): Promise<InMemoryTransport> {
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    const server = new McpServer(this.info);
+    this.registerVectorTools(server);
+    this.registerGraphTools(server);
+    this.registerDomainTools(server);
+    this.registerGraphWriteTools(server);
+    await server.connect(serverSide);
+    this.servers.add(server);
+    server.server.onclose = () => this.servers.delete(server);
+    return clientSide;
+  }
+
+  /** Close every open connection (clients see an unexpected disconnect). */
+  async close(): Promise<void> {
+    await Promise.all([...this.servers].map((server) => server.close()));
+    this.servers.clear();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Vector tools
+  // ---------------------------------------------------------------------------
+
+  private registerVectorTools(server: McpServer): void {
+    const filter = z.record(z.unknown()).optional();
+
+    tool(
+      server,
+      "qortex_vector_create_index",
+      {
+        index_name: z.string(),
+        dimension: z.number().int().positive(),
+        metric: z.enum(["cosine", "euclidean", "dotproduct"]).optional(),
+      },
+      ({ index_name, dimension, metric = "cosine" }) => {
+        const existing = this.indexes.get(index_name);
+        if (existing && existing.dimension !== dimension) {
+          throw new ToolError(
+            `Index '${index_name}' already exists with dimension ${existing.dimension}`,
+            "dimension_mismatch",
+          );
+        }
+        if (!existing) {
+          this.indexes.set(index_name, {
+            dimension,
+            metric,
+            vectors: new Map(),
+          });
+        }
+        return { status: "created", index_name };
+      },
+    );
+
+    tool(server, "qortex_vector_list_indexes", {}, () => ({
+      indexes: [...this.indexes.keys()],
+    }));
+
+    tool(
+      server,
+      "qortex_vector_describe_index",
+      { index_name: z.string() },
+      ({ index_name }) => {
+        const index = this.index(index_name);
+        return {
+          dimension: index.dimension,
+          count: index.vectors.size,
+          metric: index.metric,
+        };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_vector_delete_index",
+      { index_name: z.string() },
+      ({ index_name }) => {
+        this.index(index_name);
+        this.indexes.delete(index_name);
+        return { status: "deleted", index_name };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_vector_upsert",
+      {
+        index_name: z.string(),
+        vectors: z.array(z.array(z.number())),
+        metadata: z.array(z.record(z.unknown())).optional(),
+        ids: z.array(z.string()).optional(),
+      },
+      ({ index_name, vectors, metadata, ids }) => {
+        const index = this.index(index_name);
+        if (ids && ids.length !== vectors.length) {
+          throw new ToolError(
+            `Got ${ids.length} ids for ${vectors.length} vectors`,
+          );
+        }
+        vectors.forEach((vector) => checkDimension(index, vector));
+
+        const upserted = vectors.map((vector, i) => {
+          const id = ids?.[i] ?? randomUUID();
+          index.vectors.set(id, { vector, metadata: metadata?.[i] ?? {} });
+          return id;
+        });
+        return { ids: upserted };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_vector_query",
+      {
+        index_name: z.string(),
+        query_vector: z.array(z.number()),
+        top_k: z.number().int().positive().optional(),
+        filter,
+        include_vector: z.boolean().optional(),
+      },
+      ({ index_name, query_vector, top_k = 10, filter, include_vector }) => {
+        const index = this.index(index_name);
+        checkDimension(index, query_vector);
+
+        const results = [...index.vectors]
+          .filter(([, stored]) => matches(stored.metadata, filter))
+          .map(([id, stored]) => ({
+            id,
+            score: similarity(index.metric, query_vector, stored.vector),
+            metadata: stored.metadata,
+            ...(include_vector ? { vector: stored.vector } : {}),
+          }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, top_k);
+        return { results };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_vector_update",
+      {
+        index_name: z.string(),
+        id: z.string().optional(),
+        filter,
+        vector: z.array(z.number()).optional(),
+        metadata: z.record(z.unknown()).optional(),
+      },
+      ({ index_name, id, filter, vector, metadata }) => {
+        const index = this.index(index_name);
+        if (!id && !filter) {
+          throw new ToolError("Either id or filter is required");
+        }
+        if (vector) checkDimension(index, vector);
+
+        const targets = id
+          ? [this.vector(index_name, index, id)]
+          : [...index.vectors.values()].filter((stored) =>
+              matches(stored.metadata, filter),
+            );
+        for (const stored of targets) {
+          if (vector) stored.vector = vector;
+          if (metadata) stored.metadata = { ...stored.metadata, ...metadata };
+        }
+        return { status: "updated", count: targets.length };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_vector_delete",
+      { index_name: z.string(), id: z.string() },
+      ({ index_name, id }) => {
+        const index = this.index(index_name);
+        this.vector(index_name, index, id);
+        index.vectors.delete(id);
+        return { status: "deleted", count: 1 };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_vector_delete_many",
+      {
+        index_name: z.string(),
+        ids: z.array(z.string()).optional(),
+        filter,
+      },
+      ({ index_name, ids, filter }) => {
+        const index = this.index(index_name);
+        if (!ids && !filter) {
+          throw new ToolError("Either ids or filter is required");
+        }
+        let count = 0;
+        for (const [id, stored] of index.vectors) {
+          const selected = ids
+            ? ids.includes(id) && matches(stored.metadata, filter)
+            : matches(stored.metadata, filter);
+          if (selected && index.vectors.delete(id)) count++;
+        }
+        return { status: "deleted", count };
+      },
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Graph tools
+  // ---------------------------------------------------------------------------
+
+  private registerGraphTools(server: McpServer): void {
+    tool(
+      server,
+      "qortex_query",
+      {
+        context: z.string(),
+        domains: z.array(z.string()).optional(),
+        top_k: z.number().int().positive().optional(),
+        min_confidence: z.number().optional(),
+        mode: z.enum(["vec", "graph", "auto"]).optional(),
+      },
+      ({ context, domains, top_k = 20, min_confidence = 0, mode = "auto" }) => {
+        const candidates = this.graph.nodes.filter(
+          (node) =>
+            (!domains || domains.includes(node.domain)) &&
+            node.confidence >= min_confidence,
+        );
+        const scores = new Map(
+          candidates.map((node) => [node.id, textScore(context, node)]),
+        );
+        if (mode !== "vec") this.spread(scores);
+
+        const items: QortexQueryItem[] = candidates
+          .map((node) => ({
+            node,
+            score:
+              (scores.get(node.id) ?? 0) + (this.weights.get(node.id) ?? 0),
+          }))
+          .filter(({ node }) => (scores.get(node.id) ?? 0) > 0)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, top_k)
+          .map(({ node, score }) => ({
+            id: this.itemIds[node.id] ?? node.id,
+            content: `${node.name}: ${node.description}`,
+            score: round(score),
+            domain: node.domain,
+            node_id: node.id,
+            metadata: node.properties,
+          }));
+
+        const relevance = new Map(
+          items.map((item) => [item.node_id, item.score]),
+        );
+        const rules = this.graph.rules
+          .filter((rule) =>
+            rule.source_concepts.some((id) => relevance.has(id)),
+          )
+          .map((rule) => ({
+            ...rule,
+            relevance: Math.max(
+              ...rule.source_concepts.map((id) => relevance.get(id) ?? 0),
+            ),
+          }));
+
+        return { items, query_id: `q-${++this.queryCount}`, rules };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_explore",
+      { node_id: z.string(), depth: z.number().int().min(0).optional() },
+      ({ node_id, depth = 1 }) => {
+        const node = this.graph.nodes.find((n) => n.id === node_id);
+        if (!node) return { node: null };
+
+        const visited = new Set([node_id]);
+        let frontier = [node_id];
+        for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+          const next: string[] = [];
+          for (const id of frontier) {
+            for (const neighbor of this.neighbors(id)) {
+              if (!visited.has(neighbor)) {
+                visited.add(neighbor);
+                next.push(neighbor);
+              }
+            }
+          }
+          frontier = next;
+        }
+
+        return {
+          node,
+          edges: this.graph.edges.filter(
+            (e) => visited.has(e.source_id) && visited.has(e.target_id),
+          ),
+          rules: this.graph.rules.filter((r) =>
+            r.source_concepts.includes(node_id),
+          ),
+          neighbors: this.graph.nodes.filter(
+            (n) => n.id !== node_id && visited.has(n.id),
+          ),
+        };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_rules",
+      {
+        domains: z.array(z.string()).optional(),
+        concept_ids: z.array(z.string()).optional(),
+        categories: z.array(z.string()).optional(),
+        include_derived: z.boolean().optional(),
+        min_confidence: z.number().optional(),
+      },
+      ({
+        domains,
+        concept_ids,
+        categories,
+        include_derived = true,
+        min_confidence = 0,
+      }) => {
+        const rules = this.graph.rules.filter(
+          (rule) =>
+            (!domains || domains.includes(rule.domain)) &&
+            (!concept_ids ||
+              rule.source_concepts.some((id) => concept_ids.includes(id))) &&
+            (!categories ||
+              (rule.category !== null && categories.includes(rule.category))) &&
+            (include_derived || rule.derivation === "explicit") &&
+            rule.confidence >= min_confidence,
+        );
+        return {
+          rules,
+          domain_count: new Set(rules.map((rule) => rule.domain)).size,
+          projection: "rules",
+        };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_feedback",
+      {
+        query_id: z.string(),
+        outcomes: z.record(z.enum(["accepted", "rejected", "partial"])),
+        source: z.string().optional(),
+      },
+      ({ query_id, outcomes, source = "mastra" }) => {
+        this.feedback.push({ queryId: query_id, outcomes, source });
+        for (const [itemId, outcome] of Object.entries(outcomes)) {
+          const id = this.nodeIds.get(itemId) ?? itemId;
+          this.weights.set(
+            id,
+            (this.weights.get(id) ?? 0) + FEEDBACK_WEIGHTS[outcome],
+          );
+        }
+        return {
+          status: "recorded",
+          query_id,
+          outcome_count: Object.keys(outcomes).length,
+          source,
+        };
+      },
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Domain tools
+  // ---------------------------------------------------------------------------
+
+  private registerDomainTools(server: McpServer): void {
+    tool(server, "qortex_domains", {}, () => ({
+      domains: this.domainNames().map((name) => this.domainInfo(name)),
+    }));
+
+    tool(
+      server,
+      "qortex_describe_domain",
+      { domain: z.string() },
+      ({ domain }) => this.domainInfo(this.domain(domain)),
+    );
+
+    tool(
+      server,
+      "qortex_create_domain",
+      { domain: z.string(), description: z.string().optional() },
+      ({ domain, description }) => {
+        const domains = (this.graph.domains ??= []);
+        const existing = domains.find((d) => d.name === domain);
+        if (existing) {
+          if (description !== undefined) existing.description = description;
+        } else {
+          domains.push({ name: domain, description: description ?? null });
+        }
+        return this.domainInfo(domain);
+      },
+    );
+
+    tool(
+      server,
+      "qortex_delete_domain",
+      { domain: z.string() },
+      ({ domain }) => {
+        this.domain(domain);
+        const removed = new Set(
+          this.graph.nodes.filter((n) => n.domain === domain).map((n) => n.id),
+        );
+        this.graph.nodes = this.graph.nodes.filter((n) => !removed.has(n.id));
+        this.graph.edges = this.graph.edges.filter(
+          (e) => !removed.has(e.source_id) && !removed.has(e.target_id),
+        );
+        this.graph.rules = this.graph.rules.filter((r) => r.domain !== domain);
+        this.graph.domains = this.graph.domains?.filter(
+          (d) => d.name !== domain,
+        );
+        return { status: "deleted", domain };
+      },
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Graph write tools
+  // ---------------------------------------------------------------------------
+
+  private registerGraphWriteTools(server: McpServer): void {
+    const confidence = z.number().min(0).max(1).optional();
+    const record = z.record(z.unknown()).optional();
+    const concept = z.object({
+      id: z.string().optional(),
+      name: z.string(),
+      description: z.string().optional(),
+      domain: z.string(),
+      confidence,
+      properties: record,
+    });
+    const edgeRef = z.object({
+      source_id: z.string(),
+      target_id: z.string(),
+      relation_type: z.string(),
+    });
+    const edgeChanges = z.object({ confidence, properties: record });
+    const rule = z.object({
+      id: z.string().optional(),
+      text: z.string(),
+      domain: z.string(),
+      category: z.string().nullable().optional(),
+      confidence,
+      derivation: z.string().optional(),
+      source_concepts: z.array(z.string()).optional(),
+      metadata: record,
+    });
+
+    tool(
+      server,
+      "qortex_add_concepts",
+      { concepts: z.array(concept) },
+      ({ concepts }) => ({
+        ids: concepts.map((input) => {
+          const added: QortexNode = {
+            id: input.id ?? `concept:${randomUUID()}`,
+            name: input.name,
+            description: input.description ?? "",
+            domain: input.domain,
+            confidence: input.confidence ?? 1,
+            properties: input.properties ?? {},
+          };
+          replaceById(this.graph.nodes, added);
+          return added.id;
+        }),
+      }),
+    );
+
+    tool(
+      server,
+      "qortex_update_concept",
+      { id: z.string(), changes: concept.omit({ id: true }).partial() },
+      ({ id, changes }) => {
+        this.requireConcepts([id]);
+        const node = this.graph.nodes.find((n) => n.id === id)!;
+        return Object.assign(node, defined(changes));
+      },
+    );
+
+    tool(
+      server,
+      "qortex_delete_concepts",
+      { ids: z.array(z.string()) },
+      ({ ids }) => {
+        this.requireConcepts(ids);
+        const removed = new Set(ids);
+        const before = this.graph.nodes.length;
+        this.graph.nodes = this.graph.nodes.filter((n) => !removed.has(n.id));
+        this.graph.edges = this.graph.edges.filter(
+          (e) => !removed.has(e.source_id) && !removed.has(e.target_id),
+        );
+        for (const r of this.graph.rules) {
+          r.source_concepts = r.source_concepts.filter((c) => !removed.has(c));
+        }
+        return { deleted: before - this.graph.nodes.length };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_add_edges",
+      { edges: z.array(edgeRef.merge(edgeChanges)) },
+      ({ edges }) => {
+        const endpoints = edges.flatMap((e) => [e.source_id, e.target_id]);
+        this.requireConcepts(endpoints, "Edge endpoints");
+        for (const input of edges) {
+          const added: QortexEdge = {
+            source_id: input.source_id,
+            target_id: input.target_id,
+            relation_type: input.relation_type,
+            confidence: input.confidence ?? 1,
+            properties: input.properties ?? {},
+          };
+          const index = this.graph.edges.findIndex((e) => sameEdge(e, added));
+          if (index >= 0) this.graph.edges[index] = added;
+          else this.graph.edges.push(added);
+        }
+        return {
+          edges: edges.map(({ source_id, target_id, relation_type }) => ({
+            source_id,
+            target_id,
+            relation_type,
+          })),
+        };
+      },
+    );
+
+    tool(
+      server,
+      "qortex_update_edge",
+      { edge: edgeRef, changes: edgeChanges },
+      ({ edge, changes }) => {
+        this.requireEdges([edge]);
+        const stored = this.graph.edges.find((e) => sameEdge(e, edge))!;
+        return Object.assign(stored, defined(changes));
+      },
+    );
+
+    tool(
+      server,
+      "qortex_delete_edges",
+      { edges: z.array(edgeRef) },
+      ({ edges }) => {
+        this.requireEdges(edges);
+        const before = this.graph.edges.length;
+        this.graph.edges = this.graph.edges.filter(
+          (e) => !edges.some((ref) => sameEdge(e, ref)),
+        );
+        return { deleted: before - this.graph.edges.length };
+      },
+    );
+
+    tool(server, "qortex_add_rules", { rules: z.array(rule) }, ({ rules }) => {
+      this.requireConcepts(
+        rules.flatMap((r) => r.source_concepts ?? []),
+        "Source concepts",
+      );
+      return {
+        ids: rules.map((input) => {
+          const added: QortexRule = {
+            id: input.id ?? `rule:${randomUUID()}`,
+            text: input.text,
+            domain: input.domain,
+            category: input.category ?? null,
+            confidence: input.confidence ?? 1,
+            relevance: 0,
+            derivation: input.derivation ?? "explicit",
+            source_concepts: input.source_concepts ?? [],
+            metadata: input.metadata ?? {},
+          };
+          replaceById(this.graph.rules, added);
+          return added.id;
+        }),
+      };
+    });
+
+    tool(
+      server,
+      "qortex_update_rule",
+      { id: z.string(), changes: rule.omit({ id: true }).partial() },
+      ({ id, changes }) => {
+        this.requireRules([id]);
+        this.requireConcepts(changes.source_concepts ?? [], "Source concepts");
+        const stored = this.graph.rules.find((r) => r.id === id)!;
+        return Object.assign(stored, defined(changes));
+      },
+    );
+
+    tool(
+      server,
+      "qortex_delete_rules",
+      { ids: z.array(z.string()) },
+      ({ ids }) => {
+        this.requireRules(ids);
+        const before = this.graph.rules.length;
+        this.graph.rules = this.graph.rules.filter((r) => !ids.includes(r.id));
+        return { deleted: before - this.graph.rules.length };
+      },
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private requireConcepts(ids: string[], what = "Concepts"): void {
+    const known = new Set(this.graph.nodes.map((n) => n.id));
+    missingReferences(
+      what,
+      ids.filter((id) => !known.has(id)),
+    );
+  }
+
+  private requireRules(ids: string[]): void {
+    const known = new Set(this.graph.rules.map((r) => r.id));
+    missingReferences(
+      "Rules",
+      ids.filter((id) => !known.has(id)),
+    );
+  }
+
+  private requireEdges(refs: QortexEdgeRef[]): void {
+    missingReferences(
+      "Edges",
+      refs
+        .filter((ref) => !this.graph.edges.some((e) => sameEdge(e, ref)))
+        .map(
+          (ref) => `${ref.source_id} -${ref.relation_type}-> ${ref.target_id}`,
+        ),
+    );
+  }
+
+  private domainNames(): string[] {
+    return [
+      ...new Set([
+        ...(this.graph.domains ?? []).map((d) => d.name),
+        ...this.graph.nodes.map((n) => n.domain),
+        ...this.graph.rules.map((r) => r.domain),
+      ]),
+    ];
+  }
+
+  private domain(name: string): string {
+    if (!this.domainNames().includes(name)) {
+      throw new ToolError(`Domain '${name}' not found`, "domain_not_found");
+    }
+    return name;
+  }
+
+  private domainInfo(name: string): QortexDomainInfo {
+    const concepts = new Set(
+      this.graph.nodes.filter((n) => n.domain === name).map((n) => n.id),
+    );
+    return {
+      name,
+      description:
+        this.graph.domains?.find((d) => d.name === name)?.description ?? null,
+      concept_count: concepts.size,
+      edge_count: this.graph.edges.filter((e) => concepts.has(e.source_id))
+        .length,
+      rule_count: this.graph.rules.filter((r) => r.domain === name).length,
+    };
+  }
+
+  private index(name: string): TestIndex {
+    const index = this.indexes.get(name);
+    if (!index) {
+      throw new ToolError(`Index '${name}' not found`, "index_not_found");
+    }
+    return index;
+  }
+
+  private vector(
+    indexName: string,
+    index: TestIndex,
+    id: string,
+  ): StoredVector {
+    const stored = index.vectors.get(id);
+    if (!stored) {
+      throw new ToolError(`Vector '${id}' not found in index '${indexName}'`);
+    }
+    return stored;
+  }
+
+  private neighbors(id: string): string[] {
+    return this.graph.edges.flatMap((e) =>
+      e.source_id === id
+        ? [e.target_id]
+        : e.target_id === id
+          ? [e.source_id]
+          : [],
+    );
+  }
+
+  /** One hop of score propagation along edges, weighted by edge confidence. */
+  private spread(scores: Map<string, number>): void {
+    const base = new Map(scores);
+    for (const edge of this.graph.edges) {
+      for (const [from, to] of [
+        [edge.source_id, edge.target_id],
+        [edge.target_id, edge.source_id],
+      ]) {
+        if (!scores.has(to)) continue;
+        const boost = (base.get(from) ?? 0) * edge.confidence * GRAPH_SPREAD;
+        scores.set(to, (scores.get(to) ?? 0) + boost);
+      }
+    }
+  }
+}
+
+/** Create an in-memory qortex server; see QortexTestServer. */
+export function createQortexTestServer(
+  options: QortexTestServerOptions = {},
+): QortexTestServer {
+  return new QortexTestServer(options);
+}
+
+/** Throw a missing_reference ToolError listing `missing`, if any. */
+function missingReferences(what: string, missing: string[]): void {
+  const unique = [...new Set(missing)];
+  if (unique.length > 0) {
+    throw new ToolError(
+      `${what} not found: ${unique.join(", ")}`,
+      "missing_reference",
+      { missing: unique },
+    );
+  }
+}
+
+function sameEdge(a: QortexEdgeRef, b: QortexEdgeRef): boolean {
+  return (
+    a.source_id === b.source_id &&
+    a.target_id === b.target_id &&
+    a.relation_type === b.relation_type
+  );
+}
+
+function replaceById<T extends { id: string }>(items: T[], item: T): void {
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index >= 0) items[index] = item;
+  else items.push(item);
+}
+
+/** Drop undefined fields so Object.assign leaves them untouched. */
+function defined<T extends object>(changes: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+/** Register a tool whose handler returns JSON or throws ToolError. */
+function tool<Shape extends z.ZodRawShape>(
+  server: McpServer,
+  name: string,
+  inputSchema: Shape,
+  handler: (args: z.objectOutputType<Shape, z.ZodTypeAny>) => unknown,
+): void {
+  const schema: z.ZodRawShape = inputSchema;
+  server.registerTool(name, { inputSchema: schema }, async (args) => {
+    let payload: unknown;
+    try {
+      payload = handler(args as z.objectOutputType<Shape, z.ZodTypeAny>);
+    } catch (err) {
+      if (!(err instanceof ToolError)) throw err;
+      payload = {
+        error: err.message,
+        ...(err.code ? { code: err.code } : {}),
+        ...err.extra,
+      };
+    }
+    return {
+      content: [{ type: "text", text: JSON.stringify(payload) }],
+    } satisfies CallToolResult;
+  });
+}
+
+function matches(
+  metadata: Record<string, unknown>,
+  filter: Record<string, unknown> | undefined,
+): boolean {
+  try {
+    return matchesFilter(metadata, filter);
+  } catch (err) {
+    throw new ToolError((err as Error).message, "invalid_filter");
+  }
+}
+
+function checkDimension(index: TestIndex, vector: number[]): void {
+  if (vector.length !== index.dimension) {
+    throw new ToolError(
+      `Vector dimension mismatch: expected ${index.dimension}, got ${vector.length}`,
+      "dimension_mismatch",
+    );
+  }
+}
+
+function similarity(metric: Metric, a: number[], b: number[]): number {
+  const dot = a.reduce((sum, x, i) => sum + x * b[i], 0);
+  if (metric === "dotproduct") return dot;
+  if (metric === "euclidean") {
+    const distance = Math.sqrt(
+      a.reduce((sum, x, i) => sum + (x - b[i]) ** 2, 0),
+    );
+    return 1 / (1 + distance);
+  }
+  const norm = Math.hypot(...a) * Math.hypot(...b);
+  return norm === 0 ? 0 : dot / norm;
+}
+
+/** Share of query terms found in the node's name and description. */
+function textScore(context: string, node: QortexNode): number {
+  const query = tokenize(context);
+  if (query.size === 0) return 0;
+  const text = tokenize(`${node.name} ${node.description}`);
+  let hits = 0;
+  for (const term of query) if (text.has(term)) hits++;
+  return hits / query.size;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]{2,}/g) ?? []);
+}
+
+function round(score: number): number {
+  return Math.round(score * 1e4) / 1e4;
+}
+
+/** Seed graph: a few security and infrastructure concepts with rules. */
+export const DEFAULT_TEST_GRAPH: QortexTestGraph = {
+  nodes: [
+    node(
+      "sec:oauth",
+      "OAuth2",
+      "Delegated authorization framework issuing access tokens",
+      "security",
+    ),
+    node(
+      "sec:jwt",
+      "JWT",
+      "Signed JSON web tokens carrying authentication claims",
+      "security",
+    ),
+    node(
+      "sec:api-keys",
+      "API keys",
+      "Static secrets identifying API clients",
+      "security",
+    ),
+    node(
+      "infra:rate-limiting",
+      "Rate limiting",
+      "Caps request rates per client to protect APIs",
+      "infra",
+    ),
+    node(
+      "infra:circuit-breaker",
+      "Circuit breaker",
+      "Stops calling failing downstream services",
+      "infra",
+    ),
+  ],
+  edges: [
+    edge("sec:oauth", "sec:jwt", "uses", 0.9),
+    edge("sec:api-keys", "sec:oauth", "alternative_to", 0.7),
+    edge("infra:rate-limiting", "sec:api-keys", "keyed_by", 0.6),
+    edge("infra:rate-limiting", "infra:circuit-breaker", "complements", 0.8),
+  ],
+  rules: [
+    rule(
+      "rule:jwt-verify",
+      "Always verify JWT signatures and expiry before trusting claims",
+      "security",
+      "security",
+      "explicit",
+      ["sec:jwt"],
+    ),
+    rule(
+      "rule:rotate-keys",
+      "Rotate API keys regularly and never commit them",
+      "security",
+      "security",
+      "explicit",
+      ["sec:api-keys"],
+    ),
+    rule(
+      "rule:prefer-oauth",
+      "Prefer OAuth2 access tokens over long-lived API keys",
+      "security",
+      "architecture",
+      "derived",
+      ["sec:oauth", "sec:api-keys"],
+    ),
+    rule(
+      "rule:breaker",
+      "Wrap downstream calls in a circuit breaker with a timeout",
+      "infra",
+      "reliability",
+      "explicit",
+      ["infra:circuit-breaker"],
+    ),
+  ],
+  domains: [
+    { name: "security", description: "Authentication and authorization" },
+    { name: "infra", description: "Reliability and traffic control" },
+  ],
+};
+
+function node(
+  id: string,
+  name: string,
+  description: string,
+  domain: string,
+): QortexNode {
+  return { id, name, description, domain, confidence: 1, properties: {} };
+}
+
+function edge(
+  source_id: string,
+  target_id: string,
+  relation_type: string,
+  confidence: number,
+): QortexEdge {
+  return { source_id, target_id, relation_type, confidence, properties: {} };
+}
+
+function rule(
+  id: string,
+  text: string,
+  domain: string,
+  category: string,
+  derivation: string,
+  source_concepts: string[],
+): QortexRule {
+  return {
+    id,
+    text,
+    domain,
+    category,
+    confidence: derivation === "explicit" ? 1 : 0.8,
+    relevance: 0,
+    derivation,
+    source_concepts,
+    metadata: {},
+  };
+}
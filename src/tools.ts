@@ -0,0 +1,400 @@
+/**
+ * Mastra agent tools over a QortexVector.
+ *
+ * Each factory returns a ready-made Mastra tool (createTool) with Zod
+ * input and output schemas, so agents can search, walk and learn from
+ * the knowledge graph without hand-written wrappers:
+ *
+ *   - createQortexQueryTool:    textQuery() — items plus linked rules
+ *   - createQortexExploreTool:  explore() — a node's neighborhood
+ *   - createQortexRulesTool:    getRules() — rules by domain, concept or category
+ *   - createQortexFeedbackTool: feedback() — report which items helped
+ *
+ * Results are condensed for the model's context window: long text is
+ * truncated, lists are capped, and fields the model cannot use are
+ * dropped. Options restrict domains and cap topK and depth.
+ *
+ * Usage:
+ *   const agent = new Agent({
+ *     tools: {
+ *       qortexQuery: createQortexQueryTool(qortex, { domains: ["security"] }),
+ *       qortexFeedback: createQortexFeedbackTool(qortex),
+ *     },
+ *   });
+ */
+
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import type { QortexFeedbackBuffer } from "./feedback.js";
+import { renderRules } from "./prompt.js";
+import type { QortexRetrievalSession } from "./session.js";
+import type { QortexNode, QortexRule } from "./types.js";
+import type { QortexVector } from "./vector.js";
+
+/** Options shared by every tool factory. */
+export interface QortexToolOptions {
+  /** Tool id (default: "qortex-query", "qortex-explore", ...) */
+  id?: string;
+  /** Description shown to the model (default: a generic one per tool) */
+  description?: string;
+  /**
+   * Domains the agent may see. Requests for other domains fail input
+   * validation, and results from them are left out (default, or when
+   * empty: all)
+   */
+  domains?: string[];
+  /** Characters kept from each content or description field (default: 500) */
+  maxContentChars?: number;
+}
+
+export interface QortexQueryToolOptions extends QortexToolOptions {
+  /** topK when the model does not pass one (default: 5) */
+  defaultTopK?: number;
+  /** Largest topK the model may ask for (default: 10) */
+  maxTopK?: number;
+  /** Retrieval mode (default: "auto") */
+  mode?: "vec" | "graph" | "auto";
+  /** Rules returned with the items; 0 omits them (default: 5) */
+  maxRules?: number;
+  /** Record every query on this session for later feedback */
+  session?: QortexRetrievalSession;
+}
+
+export interface QortexExploreToolOptions extends QortexToolOptions {
+  /** Largest depth the model may ask for (default: 2) */
+  maxDepth?: number;
+  /** Neighbors returned at most, highest confidence first (default: 20) */
+  maxNeighbors?: number;
+  /** Rules returned at most (default: 5) */
+  maxRules?: number;
+}
+
+export interface QortexRulesToolOptions extends QortexToolOptions {
+  /** Rules returned at most (default: 10) */
+  maxRules?: number;
+  /** Token budget for the returned rule texts (default: 1000) */
+  maxTokens?: number;
+}
+
+export interface QortexFeedbackToolOptions extends Omit<
+  QortexToolOptions,
+  "domains" | "maxContentChars"
+> {
+  /** Feedback source label (default: "mastra-agent") */
+  source?: string;
+  /** Queue feedback here instead of waiting for the server */
+  buffer?: QortexFeedbackBuffer;
+}
+
+const DEFAULT_CONTENT_CHARS = 500;
+
+const ruleOutput = z.object({
+  id: z.string(),
+  text: z.string(),
+  domain: z.string(),
+  category: z.string().nullable(),
+});
+
+const nodeOutput = z.object({
+  id: z.string(),
+  name: z.string(),
+  domain: z.string(),
+  description: z.string(),
+});
+
+const outcomeInput = z.enum(["accepted", "rejected", "partial"]);
+
+/** Search the knowledge graph by text: textQuery() with condensed results. */
+export function createQortexQueryTool(
+  qortex: Pick<QortexVector, "textQuery">,
+  options: QortexQueryToolOptions = {},
+) {
+  const maxTopK = options.maxTopK ?? 10;
+  const maxRules = options.maxRules ?? 5;
+  const chars = options.maxContentChars ?? DEFAULT_CONTENT_CHARS;
+
+  return createTool({
+    id: options.id ?? "qortex-query",
+    description:
+      options.description ??
+      "Search the knowledge graph for concepts relevant to a question. " +
+        "Returns ranked items with their node ids (usable with the explore " +
+        "tool), linked rules, and a queryId for reporting feedback.",
+    inputSchema: z.object({
+      query: z.string().min(1).describe("What to search for"),
+      topK: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxTopK)
+        .optional()
+        .describe(`Results to return (at most ${maxTopK})`),
+      domains: domainsInput(options.domains),
+    }),
+    outputSchema: z.object({
+      queryId: z.string(),
+      items: z.array(
+        z.object({
+          id: z.string(),
+          nodeId: z.string(),
+          domain: z.string(),
+          score: z.number(),
+          content: z.string(),
+        }),
+      ),
+      rules: z.array(ruleOutput),
+    }),
+    execute: async ({ query, topK, domains }, context) => {
+      const result = await qortex.textQuery(query, {
+        topK: topK ?? options.defaultTopK ?? Math.min(5, maxTopK),
+        domains: requestedDomains(domains, options.domains),
+        mode: options.mode,
+        signal: context?.abortSignal,
+      });
+      const items = result.items.filter((item) =>
+        inDomains(item.domain, options.domains),
+      );
+      // Only what the agent is shown can get feedback
+      options.session?.record({ ...result, items });
+      return {
+        queryId: result.query_id,
+        items: items.map((item) => ({
+          id: item.id,
+          nodeId: item.node_id,
+          domain: item.domain,
+          score: round(item.score),
+          content: truncate(item.content, chars),
+        })),
+        rules: condenseRules(
+          result.rules.filter((r) => inDomains(r.domain, options.domains)),
+          maxRules,
+        ),
+      };
+    },
+  });
+}
+
+/** Walk from a node to its neighbors: explore() with condensed results. */
+export function createQortexExploreTool(
+  qortex: Pick<QortexVector, "explore">,
+  options: QortexExploreToolOptions = {},
+) {
+  const maxDepth = options.maxDepth ?? 2;
+  const maxNeighbors = options.maxNeighbors ?? 20;
+  const chars = options.maxContentChars ?? DEFAULT_CONTENT_CHARS;
+  const node = (n: QortexNode) => ({
+    id: n.id,
+    name: n.name,
+    domain: n.domain,
+    description: truncate(n.description, chars),
+  });
+
+  return createTool({
+    id: options.id ?? "qortex-explore",
+    description:
+      options.description ??
+      "Explore the knowledge graph around a node id from the query tool. " +
+        "Returns the node, its neighbors, the typed relations between them " +
+        "and linked rules.",
+    inputSchema: z.object({
+      nodeId: z.string().min(1).describe("Node id to start from"),
+      depth: z
+        .number()
+        .int()
+        .min(1)
+        .max(maxDepth)
+        .optional()
+        .describe(`Hops to follow (1-${maxDepth}, default 1)`),
+    }),
+    outputSchema: z.object({
+      found: z.boolean(),
+      node: nodeOutput.nullable(),
+      neighbors: z.array(nodeOutput),
+      relations: z.array(
+        z.object({
+          source: z.string(),
+          relation: z.string(),
+          target: z.string(),
+          confidence: z.number(),
+        }),
+      ),
+      rules: z.array(ruleOutput),
+    }),
+    execute: async ({ nodeId, depth }, context) => {
+      const result = await qortex.explore(nodeId, depth ?? 1, {
+        signal: context?.abortSignal,
+      });
+      if (!result || !inDomains(result.node.domain, options.domains)) {
+        return {
+          found: false,
+          node: null,
+          neighbors: [],
+          relations: [],
+          rules: [],
+        };
+      }
+
+      const neighbors = result.neighbors
+        .filter((n) => inDomains(n.domain, options.domains))
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, maxNeighbors);
+      const kept = new Set([result.node.id, ...neighbors.map((n) => n.id)]);
+      return {
+        found: true,
+        node: node(result.node),
+        neighbors: neighbors.map(node),
+        relations: result.edges
+          .filter((e) => kept.has(e.source_id) && kept.has(e.target_id))
+          .map((e) => ({
+            source: e.source_id,
+            relation: e.relation_type,
+            target: e.target_id,
+            confidence: round(e.confidence),
+          })),
+        rules: condenseRules(
+          result.rules.filter((r) => inDomains(r.domain, options.domains)),
+          options.maxRules ?? 5,
+        ),
+      };
+    },
+  });
+}
+
+/**
+ * Look up rules: getRules() de-duplicated, best first and cut to a token
+ * budget (see renderRules).
+ */
+export function createQortexRulesTool(
+  qortex: Pick<QortexVector, "getRules">,
+  options: QortexRulesToolOptions = {},
+) {
+  return createTool({
+    id: options.id ?? "qortex-rules",
+    description:
+      options.description ??
+      "Look up rules (constraints, patterns and guidelines) from the " +
+        "knowledge graph by domain, concept id or category.",
+    inputSchema: z.object({
+      domains: domainsInput(options.domains),
+      conceptIds: z
+        .array(z.string())
+        .optional()
+        .describe("Only rules linked to these node ids"),
+      categories: z
+        .array(z.string())
+        .optional()
+        .describe('Only these categories, e.g. "security"'),
+      minConfidence: z.number().min(0).max(1).optional(),
+    }),
+    outputSchema: z.object({
+      rules: z.array(ruleOutput),
+      omitted: z.number().describe("Matching rules left out for space"),
+    }),
+    execute: async (
+      { domains, conceptIds, categories, minConfidence },
+      context,
+    ) => {
+      const result = await qortex.getRules({
+        domains: requestedDomains(domains, options.domains),
+        conceptIds,
+        categories,
+        minConfidence,
+        signal: context?.abortSignal,
+      });
+      const matching = result.rules.filter((r) =>
+        inDomains(r.domain, options.domains),
+      );
+      const rendered = renderRules(matching, {
+        groupBy: [],
+        maxTokens: options.maxTokens ?? 1000,
+      });
+      const rules = condenseRules(rendered.rules, options.maxRules ?? 10);
+      // Near-duplicates are not counted: nothing was lost by dropping them
+      const omitted =
+        rendered.omitted.length + (rendered.rules.length - rules.length);
+      return { rules, omitted };
+    },
+  });
+}
+
+/** Report which retrieved items helped: feedback(), or a buffer if given. */
+export function createQortexFeedbackTool(
+  qortex: Pick<QortexVector, "feedback">,
+  options: QortexFeedbackToolOptions = {},
+) {
+  const source = options.source ?? "mastra-agent";
+
+  return createTool({
+    id: options.id ?? "qortex-feedback",
+    description:
+      options.description ??
+      "Report which items from a qortex query were useful, so future " +
+        "searches improve. Use the queryId returned by the query tool.",
+    inputSchema: z.object({
+      queryId: z.string().min(1),
+      outcomes: z
+        .record(outcomeInput)
+        .describe('Item id → "accepted", "rejected" or "partial"'),
+    }),
+    outputSchema: z.object({
+      status: z.string(),
+      outcomeCount: z.number(),
+    }),
+    execute: async ({ queryId, outcomes }, context) => {
+      if (options.buffer) {
+        options.buffer.add(queryId, outcomes, source);
+        return { status: "queued", outcomeCount: Object.keys(outcomes).length };
+      }
+      const result = await qortex.feedback(queryId, outcomes, source, {
+        signal: context?.abortSignal,
+      });
+      return { status: result.status, outcomeCount: result.outcome_count };
+    },
+  });
+}
+
+/** Optional domain list, limited to `allowed` when set. */
+function domainsInput(allowed: string[] | undefined) {
+  const domain =
+    allowed && allowed.length > 0
+      ? z.enum(allowed as [string, ...string[]])
+      : z.string();
+  return z
+    .array(domain)
+    .optional()
+    .describe(
+      allowed?.length
+        ? `Domains to search (any of: ${allowed.join(", ")})`
+        : "Domains to search (default: all)",
+    );
+}
+
+/** Domains to send: the model's choice, else the allowed ones; empty means all. */
+function requestedDomains(
+  domains: string[] | undefined,
+  allowed: string[] | undefined,
+): string[] | undefined {
+  if (domains?.length) return domains;
+  return allowed?.length ? allowed : undefined;
+}
+
+function inDomains(domain: string, allowed: string[] | undefined): boolean {
+  return !allowed?.length || allowed.includes(domain);
+}
+
+function condenseRules(rules: QortexRule[], max: number) {
+  return rules.slice(0, max).map((rule) => ({
+    id: rule.id,
+    text: rule.text,
+    domain: rule.domain,
+    category: rule.category,
+  }));
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
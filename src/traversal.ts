@@ -0,0 +1,354 @@
+/**
+ * Multi-hop traversal over the qortex knowledge graph.
+ *
+ * explore(nodeId, depth) returns one neighborhood at a time. This module
+ * walks the graph hop by hop with depth-1 explore calls, so callers can
+ * follow paths ("how is OAuth related to session fixation?") and filter
+ * by relation type, edge confidence and direction along the way.
+ *
+ * Usage:
+ *   const graph = new QortexGraphTraversal(qortex);
+ *   for await (const step of graph.traverse("sec:oauth", { maxDepth: 2 })) { ... }
+ *   const path = await graph.shortestPath("sec:oauth", "sec:session-fixation");
+ *   const { nodes, edges } = await graph.subgraph(["sec:oauth", "sec:jwt"], 2);
+ *
+ * Neighborhoods are cached per instance; call clearCache() after graph
+ * writes.
+ */
+
+import { runConcurrently } from "./batch.js";
+import type { QortexCallOptions } from "./client.js";
+import type { ExploreResult, QortexEdge, QortexNode } from "./types.js";
+
+/** Anything with QortexVector's explore(); usually the QortexVector itself. */
+export interface QortexGraphSource {
+  explore(
+    nodeId: string,
+    depth?: number,
+    options?: QortexCallOptions,
+  ): Promise<ExploreResult | null>;
+}
+
+/** Which edges a traversal may follow. */
+export interface QortexTraversalFilter {
+  /** Only follow these relation types (default: all) */
+  relationTypes?: string[];
+  /** Skip edges below this confidence (default: 0) */
+  minConfidence?: number;
+  /** Follow edges from source to target ("out"), back ("in") or both (default) */
+  direction?: "out" | "in" | "both";
+}
+
+export interface QortexTraverseOptions
+  extends QortexTraversalFilter, QortexCallOptions {
+  /** Breadth-first (default) or depth-first order */
+  order?: "bfs" | "dfs";
+  /** Hops from the start node (default: 3) */
+  maxDepth?: number;
+}
+
+export interface QortexShortestPathOptions
+  extends QortexTraversalFilter, QortexCallOptions {
+  /** Longest path to look for, in edges (default: 3) */
+  maxDepth?: number;
+}
+
+export interface QortexSubgraphOptions
+  extends QortexTraversalFilter, QortexCallOptions {}
+
+/** One node reached by traverse(). */
+export interface QortexTraversalStep {
+  node: QortexNode;
+  /** Hops from the start node */
+  depth: number;
+  /** Node this one was reached from; null for the start node */
+  parentId: string | null;
+  /** Edge followed to get here; null for the start node */
+  via: QortexEdge | null;
+}
+
+/** A path from shortestPath(); `edges[i]` joins `nodes[i]` and `nodes[i + 1]`. */
+export interface QortexGraphPath {
+  nodes: QortexNode[];
+  edges: QortexEdge[];
+}
+
+/** Nodes and edges around a set of seeds, de-duplicated. */
+export interface QortexSubgraph {
+  nodes: QortexNode[];
+  edges: QortexEdge[];
+  /** Seed ids the graph does not contain */
+  missing: string[];
+}
+
+export interface QortexGraphTraversalConfig {
+  /** explore() calls in flight at once when expanding a level (default: 4) */
+  concurrency?: number;
+}
+
+const DEFAULT_MAX_DEPTH = 3;
+
+/** A neighbor reachable over one edge. */
+interface Adjacent {
+  node: QortexNode;
+  edge: QortexEdge;
+}
+
+export class QortexGraphTraversal {
+  private readonly concurrency: number;
+  private readonly cache = new Map<string, Promise<ExploreResult | null>>();
+
+  constructor(
+    private readonly source: QortexGraphSource,
+    config: QortexGraphTraversalConfig = {},
+  ) {
+    this.concurrency = config.concurrency ?? 4;
+  }
+
+  /**
+   * Visit nodes reachable from `startId`, each once, yielding the start
+   * node first. Neighborhoods are fetched lazily as the iterator advances,
+   * so breaking out early saves calls. Yields nothing if the start node
+   * does not exist.
+   */
+  async *traverse(
+    startId: string,
+    options: QortexTraverseOptions = {},
+  ): AsyncGenerator<QortexTraversalStep> {
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const start = await this.neighborhood(startId, options);
+    if (!start) return;
+
+    const visited = new Set([startId]);
+    const pending: QortexTraversalStep[] = [
+      { node: start.node, depth: 0, parentId: null, via: null },
+    ];
+    while (pending.length > 0) {
+      const step = options.order === "dfs" ? pending.pop()! : pending.shift()!;
+      yield step;
+      if (step.depth >= maxDepth) continue;
+
+      const next: QortexTraversalStep[] = [];
+      for (const { node, edge } of await this.adjacent(step.node.id, options)) {
+        if (visited.has(node.id)) continue;
+        visited.add(node.id);
+        next.push({
+          node,
+          depth: step.depth + 1,
+          parentId: step.node.id,
+          via: edge,
+        });
+      }
+      // Reverse for DFS so neighbors pop in their original order
+      pending.push(...(options.order === "dfs" ? next.reverse() : next));
+    }
+  }
+
+  /**
+   * Fewest-hop path between two nodes, or null when none exists within
+   * `maxDepth` edges (or either node is missing). Each level is expanded
+   * with bounded concurrency.
+   */
+  async shortestPath(
+    fromId: string,
+    toId: string,
+    options: QortexShortestPathOptions = {},
+  ): Promise<QortexGraphPath | null> {
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const start = await this.neighborhood(fromId, options);
+    if (!start) return null;
+    if (fromId === toId) return { nodes: [start.node], edges: [] };
+
+    const reachedBy = new Map<string, { parentId: string; hop: Adjacent }>();
+    const nodes = new Map([[fromId, start.node]]);
+    let frontier = [fromId];
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const levels = await this.expand(frontier, options);
+      const next: string[] = [];
+      for (const [i, parentId] of frontier.entries()) {
+        for (const hop of levels[i]) {
+          if (nodes.has(hop.node.id)) continue;
+          nodes.set(hop.node.id, hop.node);
+          reachedBy.set(hop.node.id, { parentId, hop });
+          if (hop.node.id === toId) return unwind(toId, start.node, reachedBy);
+          next.push(hop.node.id);
+        }
+      }
+      frontier = next;
+    }
+    return null;
+  }
+
+  /**
+   * Nodes within `depth` hops of any seed, and the edges among them,
+   * merged and de-duplicated across explore() calls. A node reachable
+   * from several seeds is fetched once.
+   */
+  async subgraph(
+    seedIds: string[],
+    depth: number = 1,
+    options: QortexSubgraphOptions = {},
+  ): Promise<QortexSubgraph> {
+    const seeds = [...new Set(seedIds)];
+    const roots = await this.expandRaw(seeds, options);
+
+    const nodes = new Map<string, QortexNode>();
+    const edges = new Map<string, QortexEdge>();
+    const missing: string[] = [];
+    for (const [i, root] of roots.entries()) {
+      if (root) {
+        nodes.set(root.node.id, root.node);
+      } else {
+        missing.push(seeds[i]);
+      }
+    }
+
+    let frontier = [...nodes.keys()];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const levels = await this.expand(frontier, options);
+      const next: string[] = [];
+      for (const { node } of levels.flat()) {
+        if (nodes.has(node.id)) continue;
+        nodes.set(node.id, node);
+        next.push(node.id);
+      }
+      frontier = next;
+    }
+
+    // Edges come from the fetched neighborhoods; an edge between two
+    // outermost nodes shows up only if one neighborhood contains both
+    for (const id of nodes.keys()) {
+      const result = await this.cache.get(id);
+      for (const edge of result?.edges ?? []) {
+        if (
+          nodes.has(edge.source_id) &&
+          nodes.has(edge.target_id) &&
+          allowed(edge, options)
+        ) {
+          edges.set(edgeKey(edge), edge);
+        }
+      }
+    }
+
+    return { nodes: [...nodes.values()], edges: [...edges.values()], missing };
+  }
+
+  /** Forget cached neighborhoods, e.g. after writing to the graph. */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * explore(id, 1), cached; failed calls are not cached. The shared fetch
+   * runs without any caller's signal, so one caller aborting only stops
+   * its own wait.
+   */
+  private neighborhood(
+    id: string,
+    options: QortexCallOptions,
+  ): Promise<ExploreResult | null> {
+    options.signal?.throwIfAborted();
+    let result = this.cache.get(id);
+    if (!result) {
+      result = this.source.explore(id, 1, { timeoutMs: options.timeoutMs });
+      this.cache.set(id, result);
+      result.catch(() => this.cache.delete(id));
+    }
+    return untilAborted(result, options.signal);
+  }
+
+  /** Neighbors of `id` over edges the filter allows, in edge order. */
+  private async adjacent(
+    id: string,
+    options: QortexTraversalFilter & QortexCallOptions,
+  ): Promise<Adjacent[]> {
+    const result = await this.neighborhood(id, options);
+    if (!result) return [];
+    const byId = new Map(result.neighbors.map((n) => [n.id, n]));
+
+    const adjacent: Adjacent[] = [];
+    for (const edge of result.edges) {
+      if (!follows(edge, id, options)) continue;
+      const otherId = edge.source_id === id ? edge.target_id : edge.source_id;
+      const node = byId.get(otherId);
+      if (node) adjacent.push({ node, edge });
+    }
+    return adjacent;
+  }
+
+  /** adjacent() for every id, with bounded concurrency. */
+  private async expand(
+    ids: string[],
+    options: QortexTraversalFilter & QortexCallOptions,
+  ): Promise<Adjacent[][]> {
+    await this.expandRaw(ids, options);
+    return Promise.all(ids.map((id) => this.adjacent(id, options)));
+  }
+
+  /** Fetch neighborhoods for every id, at most `concurrency` at a time. */
+  private async expandRaw(
+    ids: string[],
+    options: QortexCallOptions,
+  ): Promise<Array<ExploreResult | null>> {
+    const outcomes = await runConcurrently(ids, this.concurrency, (id) =>
+      this.neighborhood(id, options),
+    );
+    const failed = outcomes.find((o) => o?.status === "rejected");
+    if (failed?.status === "rejected") throw failed.reason;
+    return outcomes.map((o) => (o?.status === "fulfilled" ? o.value : null));
+  }
+}
+
+/** Whether a traversal standing on `fromId` may cross `edge`. */
+function follows(
+  edge: QortexEdge,
+  fromId: string,
+  filter: QortexTraversalFilter,
+): boolean {
+  const direction = filter.direction ?? "both";
+  const incident =
+    (direction !== "in" && edge.source_id === fromId) ||
+    (direction !== "out" && edge.target_id === fromId);
+  return incident && allowed(edge, filter);
+}
+
+/** Relation type and confidence checks, regardless of direction. */
+function allowed(edge: QortexEdge, filter: QortexTraversalFilter): boolean {
+  return (
+    edge.confidence >= (filter.minConfidence ?? 0) &&
+    (!filter.relationTypes || filter.relationTypes.includes(edge.relation_type))
+  );
+}
+
+/** Walk parent links back from `toId` and return the path in order. */
+function unwind(
+  toId: string,
+  start: QortexNode,
+  reachedBy: Map<string, { parentId: string; hop: Adjacent }>,
+): QortexGraphPath {
+  const nodes: QortexNode[] = [];
+  const edges: QortexEdge[] = [];
+  for (let id = toId; reachedBy.has(id);) {
+    const { parentId, hop } = reachedBy.get(id)!;
+    nodes.unshift(hop.node);
+    edges.unshift(hop.edge);
+    id = parentId;
+  }
+  return { nodes: [start, ...nodes], edges };
+}
+
+function edgeKey(edge: QortexEdge): string {
+  return `${edge.source_id}\u0000${edge.relation_type}\u0000${edge.target_id}`;
+}
+
+/** Settle with `promise`, or reject with the signal's reason once it aborts. */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
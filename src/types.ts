@@ -88,3 +88,58 @@ export interface QortexDomainInfo {
   edge_count: number;
   rule_count: number;
 }
+
+/** A concept to add; omitted fields get server defaults. */
+export interface QortexConceptInput {
+  /** Omit to let the server mint one */
+  id?: string;
+  name: string;
+  description?: string;
+  domain: string;
+  /** 0–1 (default: 1) */
+  confidence?: number;
+  properties?: Record<string, unknown>;
+}
+
+/** An edge to add. Both endpoints must already exist. */
+export interface QortexEdgeInput {
+  source_id: string;
+  target_id: string;
+  relation_type: string;
+  /** 0–1 (default: 1) */
+  confidence?: number;
+  properties?: Record<string, unknown>;
+}
+
+/** Edges have no id of their own; source, relation and target identify one. */
+export type QortexEdgeRef = Pick<
+  QortexEdge,
+  "source_id" | "target_id" | "relation_type"
+>;
+
+/** A rule to add. Every source concept must already exist. */
+export interface QortexRuleInput {
+  /** Omit to let the server mint one */
+  id?: string;
+  text: string;
+  domain: string;
+  category?: string | null;
+  /** 0–1 (default: 1) */
+  confidence?: number;
+  /** How the rule was obtained (default: "explicit") */
+  derivation?: string;
+  source_concepts?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+/** Fields of a concept that can be changed after creation. */
+export type QortexConceptUpdate = Partial<Omit<QortexConceptInput, "id">>;
+
+/** Fields of an edge that can be changed after creation. */
+export type QortexEdgeUpdate = Pick<
+  QortexEdgeInput,
+  "confidence" | "properties"
+>;
+
+/** Fields of a rule that can be changed after creation. */
+export type QortexRuleUpdate = Partial<Omit<QortexRuleInput, "id">>;
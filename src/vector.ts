@@ -12,11 +12,24 @@
  *   const results = await qortex.query({ indexName: "docs", queryVector: [...] });
  *
  * Graph extras:
+ *   const hybrid = await qortex.hybridQuery({ indexName: "docs", queryVector: [...], text: "..." });
  *   const explored = await qortex.explore(results[0].id);
  *   const rules = await qortex.getRules({ domains: ["security"] });
+ *   const domains = await qortex.listDomains();
+ *
+ * Graph writes:
+ *   const [oauth, jwt] = await qortex.addConcepts([{ name: "OAuth2", domain: "security" }, ...]);
+ *   await qortex.addEdge({ source_id: oauth, target_id: jwt, relation_type: "uses" });
  *   await qortex.feedback(queryId, { [itemId]: "accepted" });
+ *
+ * Text-first, with `embedder` configured:
+ *   await qortex.upsertText({ indexName: "docs", texts: ["..."], metadata: [...] });
+ *   const matches = await qortex.queryText({ indexName: "docs", text: "..." });
+ *
+ * Every method accepts `signal` and `timeoutMs` (QortexCallOptions).
  */
 
+import { randomUUID } from "node:crypto";
 import { MastraVector } from "@mastra/core/vector";
 import type {
   QueryResult,
@@ -31,26 +44,248 @@ import type {
   DeleteVectorsParams,
 } from "@mastra/core/vector";
 import type { VectorFilter } from "@mastra/core/vector";
-import { QortexMcpClient, type QortexMcpClientConfig } from "./client.js";
+import {
+  QortexMcpClient,
+  type QortexCallOptions,
+  type QortexMcpClientConfig,
+} from "./client.js";
+import type { z } from "zod";
+import type { QortexMiddleware } from "./middleware.js";
+import { QortexTelemetry, type QortexTelemetryConfig } from "./telemetry.js";
+import {
+  matchesFilter,
+  QortexFilterTranslator,
+  type QortexFilterMode,
+} from "./filter.js";
+import {
+  fuseResults,
+  type QortexFusionOptions,
+  type QortexHybridResult,
+} from "./hybrid.js";
+import {
+  DEFAULT_BATCH_CONFIG,
+  planBatches,
+  runConcurrently,
+  type QortexBatchConfig,
+  type QortexBatchRange,
+  type QortexUpsertProgress,
+} from "./batch.js";
+import {
+  embedTexts,
+  embedderId,
+  QortexMemoryEmbeddingCache,
+  toEmbedFn,
+  type QortexEmbedder,
+  type QortexEmbedFn,
+  type QortexEmbeddingCache,
+} from "./embed.js";
+import {
+  QortexDimensionMismatchError,
+  QortexEmbedderMissingError,
+  QortexIntegrityError,
+  QortexPartialUpsertError,
+  QortexValidationError,
+  type QortexBatchFailure,
+} from "./errors.js";
+import {
+  AddedEdgesResponseSchema,
+  AddedIdsResponseSchema,
+  DeletedCountResponseSchema,
+  ExploreResultSchema,
+  FeedbackResultSchema,
+  IndexStatsSchema,
+  ListDomainsResponseSchema,
+  ListIndexesResponseSchema,
+  QortexDomainInfoSchema,
+  QortexEdgeSchema,
+  QortexNodeSchema,
+  QortexQueryResultSchema,
+  QortexRuleSchema,
+  QueryResponseSchema,
+  RulesResultSchema,
+  UpsertResponseSchema,
+  describeIssues,
+  type QortexValidationMode,
+} from "./schemas.js";
+import {
+  QORTEX_VECTOR_TOOLS,
+  type QortexCapabilities,
+} from "./capabilities.js";
 import type {
   ExploreResult,
   RulesResult,
   FeedbackOutcome,
   FeedbackResult,
+  QortexConceptInput,
+  QortexConceptUpdate,
+  QortexDomainInfo,
+  QortexEdge,
+  QortexEdgeInput,
+  QortexEdgeRef,
+  QortexEdgeUpdate,
+  QortexNode,
   QortexQueryResult,
+  QortexRule,
+  QortexRuleInput,
+  QortexRuleUpdate,
 } from "./types.js";
 
+/** explore() probes in flight at once when checkReferences is on. */
+const REFERENCE_CHECK_CONCURRENCY = 8;
+
 export interface QortexVectorConfig extends QortexMcpClientConfig {
   /** Unique identifier for this vector store instance. */
   id: string;
+  /**
+   * Response validation (default: "warn"). "strict" throws
+   * QortexValidationError, "warn" logs, "off" trusts the server.
+   */
+  validation?: QortexValidationMode;
+  /**
+   * OpenTelemetry tracer and meter (default: the global providers,
+   * which are no-ops until an SDK is registered).
+   */
+  telemetry?: QortexTelemetryConfig;
+  /** Default batch limits for upsert() */
+  batch?: QortexBatchConfig;
+  /**
+   * Filter handling (default: "strict"). "strict" rejects operators the
+   * server lacks, "post-filter" applies them to query results locally,
+   * "off" sends filters untouched.
+   */
+  filterMode?: QortexFilterMode;
+  /** Post-filter mode fetches topK × this many results (default: 4) */
+  postFilterOverfetch?: number;
+  /**
+   * Embeds texts for upsertText() and queryText(): a function or an AI
+   * SDK embedding model
+   */
+  embedder?: QortexEmbedder;
+  /**
+   * Names the embedder in embedding cache keys. Defaults to
+   * "provider:modelId" for AI SDK models; function embedders get an id
+   * unique to this instance, so set it to share a cache across instances.
+   */
+  embedderId?: string;
+  /**
+   * Cache for embeddings by embedder id and content hash, or false to
+   * disable (default: in memory, 10000 entries)
+   */
+  embeddingCache?: QortexEmbeddingCache | false;
+  /**
+   * Check that the concepts addEdges() and addRules() reference exist
+   * before writing, at one qortex_explore call per distinct concept
+   * (default: false). The server checks again on write either way and
+   * reports missing references as QortexIntegrityError.
+   */
+  checkReferences?: boolean;
+}
+
+/** Parameters for QortexVector.hybridQuery. */
+export interface QortexHybridQueryParams
+  extends QueryVectorParams,
+    Omit<QortexFusionOptions, "topK">,
+    QortexCallOptions {
+  /** Text for the graph side (qortex embeds it itself) */
+  text: string;
+  /** Restrict the graph side to these domains */
+  domains?: string[];
+  /** Minimum concept confidence on the graph side */
+  minConfidence?: number;
+  /** Graph retrieval mode (default: "auto") */
+  mode?: "vec" | "graph" | "auto";
+}
+
+/** Extra options accepted by QortexVector.upsert. */
+export interface QortexUpsertOptions {
+  /** Override the store's batch limits for this upsert */
+  batch?: QortexBatchConfig;
+  /** Called after each batch lands */
+  onProgress?: (progress: QortexUpsertProgress) => void;
+}
+
+/** Parameters for QortexVector.upsertText. */
+export interface QortexUpsertTextParams
+  extends QortexUpsertOptions,
+    QortexCallOptions {
+  indexName: string;
+  /** Texts to embed with the configured embedder */
+  texts: string[];
+  metadata?: Record<string, unknown>[];
+  ids?: string[];
+}
+
+/** Parameters for QortexVector.queryText. */
+export interface QortexQueryTextParams
+  extends Omit<QueryVectorParams, "queryVector" | "sparseVector">,
+    QortexCallOptions {
+  /** Query text to embed with the configured embedder */
+  text: string;
 }
 
 export class QortexVector extends MastraVector {
   private mcp: QortexMcpClient;
+  private validation: QortexValidationMode;
+  private telemetry: QortexTelemetry;
+  private batch: QortexBatchConfig;
+  private filterMode: QortexFilterMode;
+  private postFilterOverfetch: number;
+  private filters = new QortexFilterTranslator();
+  private embed: QortexEmbedFn | undefined;
+  private embeddingCache: QortexEmbeddingCache | undefined;
+  /** Namespace of this store's embedding cache keys */
+  private embedderId: string;
+  /** Index dimensions seen by upsertText() and queryText() */
+  private dimensions = new Map<string, number>();
+  private checkReferences: boolean;
 
   constructor(config: QortexVectorConfig) {
     super({ id: config.id });
-    this.mcp = new QortexMcpClient(config);
+    this.validation = config.validation ?? "warn";
+    this.telemetry = new QortexTelemetry(config.telemetry);
+    this.batch = config.batch ?? {};
+    this.filterMode = config.filterMode ?? "strict";
+    this.postFilterOverfetch = config.postFilterOverfetch ?? 4;
+    this.checkReferences = config.checkReferences ?? false;
+    this.embed = config.embedder && toEmbedFn(config.embedder);
+    this.embedderId =
+      config.embedderId ??
+      (config.embedder && embedderId(config.embedder)) ??
+      `anonymous-${randomUUID()}`;
+    this.embeddingCache =
+      config.embeddingCache === false
+        ? undefined
+        : (config.embeddingCache ?? new QortexMemoryEmbeddingCache());
+    this.mcp = new QortexMcpClient({
+      requiredTools: QORTEX_VECTOR_TOOLS,
+      ...config,
+    });
+    this.mcp.use(this.telemetry.middleware());
+  }
+
+  /**
+   * The underlying MCP client.
+   *
+   * Subscribe to its lifecycle events (`crashed`, `restarting`,
+   * `reconnected`, `gaveUp`) to observe server restarts.
+   */
+  get client(): QortexMcpClient {
+    return this.mcp;
+  }
+
+  /**
+   * Add a middleware around every qortex call this store makes.
+   *
+   * @example
+   *   qortex.use(loggerMiddleware(console));
+   *   qortex.use(async (ctx, next) => {
+   *     ctx.args = { ...ctx.args, tenant: "acme" };
+   *     return next();
+   *   });
+   */
+  use(middleware: QortexMiddleware): this {
+    this.mcp.use(middleware);
+    return this;
   }
 
   /** Ensure the MCP connection is established. */
@@ -63,6 +298,71 @@ export class QortexVector extends MastraVector {
     await this.mcp.disconnect();
   }
 
+  /**
+   * Report what the connected qortex server supports.
+   *
+   * `methods` maps each QortexVector method to whether it can be called;
+   * in degraded mode, methods whose tool is missing or incompatible throw
+   * instead of reaching the server.
+   */
+  async capabilities(): Promise<QortexCapabilities> {
+    await this.mcp.connect();
+    return this.mcp.capabilities ?? this.mcp.negotiate();
+  }
+
+  /**
+   * Validate and normalize a filter for the server.
+   *
+   * Updates and deletes always use this, since a post-filter cannot
+   * narrow a write; only query() splits filters in post-filter mode.
+   */
+  private translateFilter(filter: VectorFilter): VectorFilter {
+    if (this.filterMode === "off") return filter ?? undefined;
+    return this.filters.translate(filter);
+  }
+
+  /**
+   * Call a qortex tool and check the response against `schema`. Server
+   * `{ error }` payloads are raised as typed QortexErrors by the client.
+   */
+  private async call<T = unknown>(
+    tool: string,
+    args: Record<string, unknown>,
+    options: QortexCallOptions,
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>,
+  ): Promise<T> {
+    const result = await this.mcp.callTool(tool, args, options);
+    return schema ? this.validate(tool, args, schema, result) : (result as T);
+  }
+
+  /** Check a response against its schema according to `validation`. */
+  private validate<T>(
+    tool: string,
+    args: Record<string, unknown>,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    result: unknown,
+  ): T {
+    if (this.validation === "off") return result as T;
+
+    const parsed = schema.safeParse(result);
+    if (parsed.success) return parsed.data;
+
+    const issues = describeIssues(parsed.error);
+    const message = `Invalid response from ${tool}: ${issues
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join("; ")}`;
+    if (this.validation === "strict") {
+      throw new QortexValidationError(message, {
+        tool,
+        args,
+        payload: result,
+        issues,
+      });
+    }
+    this.logger.warn(message);
+    return result as T;
+  }
+
   // ---------------------------------------------------------------------------
   // MastraVector abstract methods (9 required)
   // ---------------------------------------------------------------------------
@@ -71,73 +371,180 @@ export class QortexVector extends MastraVector {
     indexName,
     dimension,
     metric = "cosine",
-  }: CreateIndexParams): Promise<void> {
-    const result = (await this.mcp.callTool("qortex_vector_create_index", {
-      index_name: indexName,
-      dimension,
-      metric,
-    })) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
-    }
+    signal,
+    timeoutMs,
+  }: CreateIndexParams & QortexCallOptions): Promise<void> {
+    const attributes = {
+      "qortex.index_name": indexName,
+      "qortex.dimension": dimension,
+    };
+    this.dimensions.delete(indexName);
+    await this.telemetry.span("create_index", attributes, () =>
+      this.call(
+        "qortex_vector_create_index",
+        {
+          index_name: indexName,
+          dimension,
+          metric,
+        },
+        { signal, timeoutMs },
+      ),
+    );
   }
 
-  async listIndexes(): Promise<string[]> {
-    const result = (await this.mcp.callTool(
-      "qortex_vector_list_indexes",
-      {},
-    )) as { indexes: string[] };
-    return result.indexes;
+  async listIndexes(options: QortexCallOptions = {}): Promise<string[]> {
+    return this.telemetry.span("list_indexes", {}, async (span) => {
+      const result = await this.call(
+        "qortex_vector_list_indexes",
+        {},
+        options,
+        ListIndexesResponseSchema,
+      );
+      span.setAttribute("qortex.result_count", result.indexes.length);
+      return result.indexes;
+    });
   }
 
-  async describeIndex({ indexName }: DescribeIndexParams): Promise<IndexStats> {
-    const result = (await this.mcp.callTool(
-      "qortex_vector_describe_index",
-      {
-        index_name: indexName,
-      },
-    )) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
-    }
+  async describeIndex({
+    indexName,
+    signal,
+    timeoutMs,
+  }: DescribeIndexParams & QortexCallOptions): Promise<IndexStats> {
+    const attributes = { "qortex.index_name": indexName };
+    return this.telemetry.span("describe_index", attributes, async () => {
+      const result = await this.call(
+        "qortex_vector_describe_index",
+        {
+          index_name: indexName,
+        },
+        { signal, timeoutMs },
+        IndexStatsSchema,
+      );
 
-    return {
-      dimension: result.dimension as number,
-      count: result.count as number,
-      metric: result.metric as "cosine" | "euclidean" | "dotproduct",
-    };
+      return {
+        dimension: result.dimension,
+        count: result.count,
+        metric: result.metric,
+      };
+    });
   }
 
-  async deleteIndex({ indexName }: DeleteIndexParams): Promise<void> {
-    const result = (await this.mcp.callTool("qortex_vector_delete_index", {
-      index_name: indexName,
-    })) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
-    }
+  async deleteIndex({
+    indexName,
+    signal,
+    timeoutMs,
+  }: DeleteIndexParams & QortexCallOptions): Promise<void> {
+    const attributes = { "qortex.index_name": indexName };
+    this.dimensions.delete(indexName);
+    await this.telemetry.span("delete_index", attributes, () =>
+      this.call(
+        "qortex_vector_delete_index",
+        {
+          index_name: indexName,
+        },
+        { signal, timeoutMs },
+      ),
+    );
   }
 
+  /**
+   * Upsert vectors, split into batches by count and serialized size.
+   *
+   * Batches run with bounded concurrency; `onProgress` fires as each one
+   * lands. If a batch fails after others landed, the upsert stops and
+   * throws QortexPartialUpsertError listing the ids that were written.
+   * Returns all ids in input order.
+   */
   async upsert({
     indexName,
     vectors,
     metadata,
     ids,
-  }: UpsertVectorParams): Promise<string[]> {
-    const result = (await this.mcp.callTool("qortex_vector_upsert", {
-      index_name: indexName,
-      vectors,
-      metadata: metadata ?? undefined,
-      ids: ids ?? undefined,
-    })) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
-    }
+    signal,
+    timeoutMs,
+    batch,
+    onProgress,
+  }: UpsertVectorParams & QortexCallOptions & QortexUpsertOptions): Promise<
+    string[]
+  > {
+    const limits = { ...this.batch, ...batch };
+    const ranges = planBatches(
+      vectors.length,
+      (i) => itemBytes(vectors[i], metadata?.[i], ids?.[i]),
+      limits,
+    );
+    const attributes = {
+      "qortex.index_name": indexName,
+      "qortex.vector_count": vectors.length,
+      "qortex.batch_count": ranges.length,
+    };
+    return this.telemetry.span("upsert", attributes, async (span) => {
+      let upserted = 0;
+      const outcomes = await runConcurrently(
+        ranges,
+        limits.concurrency ?? DEFAULT_BATCH_CONFIG.concurrency,
+        async ({ start, end }, index) => {
+          const result = await this.call(
+            "qortex_vector_upsert",
+            {
+              index_name: indexName,
+              vectors: vectors.slice(start, end),
+              metadata: metadata?.slice(start, end),
+              ids: ids?.slice(start, end),
+            },
+            { signal, timeoutMs },
+            UpsertResponseSchema,
+          );
+          upserted += end - start;
+          onProgress?.({
+            batch: index,
+            batches: ranges.length,
+            upserted,
+            total: vectors.length,
+            ids: result.ids,
+          });
+          return result.ids;
+        },
+      );
+
+      const failures: QortexBatchFailure[] = [];
+      const pending: QortexBatchRange[] = [];
+      const landed: string[] = [];
+      outcomes.forEach((outcome, index) => {
+        if (outcome?.status === "fulfilled") {
+          landed.push(...outcome.value);
+          return;
+        }
+        pending.push(ranges[index]);
+        if (outcome) {
+          failures.push({
+            batch: index,
+            ...ranges[index],
+            error: outcome.reason,
+          });
+        }
+      });
+
+      if (failures.length > 0) {
+        const first = failures[0].error;
+        if (landed.length === 0) throw first;
+        const reason = first instanceof Error ? first.message : String(first);
+        throw new QortexPartialUpsertError(
+          `Upsert to ${indexName} stopped after ${landed.length} of ` +
+            `${vectors.length} vectors: ${reason}`,
+          {
+            tool: "qortex_vector_upsert",
+            cause: first,
+            upsertedIds: landed,
+            failures,
+            pending,
+          },
+        );
+      }
 
-    return result.ids as string[];
+      span.setAttribute("qortex.result_count", landed.length);
+      return landed;
+    });
   }
 
   async query({
@@ -146,20 +553,41 @@ export class QortexVector extends MastraVector {
     topK = 10,
     filter,
     includeVector = false,
-  }: QueryVectorParams): Promise<QueryResult[]> {
-    const result = (await this.mcp.callTool("qortex_vector_query", {
-      index_name: indexName,
-      query_vector: queryVector,
-      top_k: topK,
-      filter: filter ?? undefined,
-      include_vector: includeVector,
-    })) as { results?: QueryResult[]; error?: string };
-
-    if (result.error) {
-      throw new Error(result.error);
-    }
+    signal,
+    timeoutMs,
+  }: QueryVectorParams & QortexCallOptions): Promise<QueryResult[]> {
+    const attributes = {
+      "qortex.index_name": indexName,
+      "qortex.top_k": topK,
+    };
+    return this.telemetry.span("query", attributes, async (span) => {
+      // In post-filter mode, over-fetch so topK survive the local filter
+      const { server, client } =
+        this.filterMode === "post-filter"
+          ? this.filters.split(filter)
+          : { server: this.translateFilter(filter), client: undefined };
+      const result = await this.call(
+        "qortex_vector_query",
+        {
+          index_name: indexName,
+          query_vector: queryVector,
+          top_k: client ? topK * this.postFilterOverfetch : topK,
+          filter: server,
+          include_vector: includeVector,
+        },
+        { signal, timeoutMs },
+        QueryResponseSchema,
+      );
 
-    return result.results ?? [];
+      let results = result.results ?? [];
+      if (client) {
+        results = results
+          .filter((r) => matchesFilter(r.metadata, client))
+          .slice(0, topK);
+      }
+      span.setAttribute("qortex.result_count", results.length);
+      return results;
+    });
   }
 
   async updateVector({
@@ -167,45 +595,164 @@ export class QortexVector extends MastraVector {
     id,
     filter,
     update,
-  }: UpdateVectorParams): Promise<void> {
-    const result = (await this.mcp.callTool("qortex_vector_update", {
-      index_name: indexName,
-      id: id ?? undefined,
-      filter: filter ?? undefined,
-      vector: update.vector ?? undefined,
-      metadata: update.metadata ?? undefined,
-    })) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
-    }
+    signal,
+    timeoutMs,
+  }: UpdateVectorParams & QortexCallOptions): Promise<void> {
+    const attributes = { "qortex.index_name": indexName };
+    await this.telemetry.span("update_vector", attributes, () =>
+      this.call(
+        "qortex_vector_update",
+        {
+          index_name: indexName,
+          id: id ?? undefined,
+          filter: this.translateFilter(filter),
+          vector: update.vector ?? undefined,
+          metadata: update.metadata ?? undefined,
+        },
+        { signal, timeoutMs },
+      ),
+    );
   }
 
-  async deleteVector({ indexName, id }: DeleteVectorParams): Promise<void> {
-    const result = (await this.mcp.callTool("qortex_vector_delete", {
-      index_name: indexName,
-      id,
-    })) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
-    }
+  async deleteVector({
+    indexName,
+    id,
+    signal,
+    timeoutMs,
+  }: DeleteVectorParams & QortexCallOptions): Promise<void> {
+    const attributes = { "qortex.index_name": indexName };
+    await this.telemetry.span("delete_vector", attributes, () =>
+      this.call(
+        "qortex_vector_delete",
+        {
+          index_name: indexName,
+          id,
+        },
+        { signal, timeoutMs },
+      ),
+    );
   }
 
   async deleteVectors({
     indexName,
     ids,
     filter,
-  }: DeleteVectorsParams): Promise<void> {
-    const result = (await this.mcp.callTool("qortex_vector_delete_many", {
-      index_name: indexName,
-      ids: ids ?? undefined,
-      filter: filter ?? undefined,
-    })) as Record<string, unknown>;
-
-    if (result.error) {
-      throw new Error(result.error as string);
+    signal,
+    timeoutMs,
+  }: DeleteVectorsParams & QortexCallOptions): Promise<void> {
+    const attributes = {
+      "qortex.index_name": indexName,
+      "qortex.vector_count": ids?.length,
+    };
+    await this.telemetry.span("delete_vectors", attributes, () =>
+      this.call(
+        "qortex_vector_delete_many",
+        {
+          index_name: indexName,
+          ids: ids ?? undefined,
+          filter: this.translateFilter(filter),
+        },
+        { signal, timeoutMs },
+      ),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Text-first vectors — client-side embeddings
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Embed texts with the configured embedder and upsert them.
+   *
+   * Embeddings are checked against the index dimension before anything
+   * is written. Otherwise behaves like upsert(); returns ids in input
+   * order.
+   */
+  async upsertText({
+    texts,
+    signal,
+    timeoutMs,
+    ...params
+  }: QortexUpsertTextParams): Promise<string[]> {
+    const call = { signal, timeoutMs };
+    const vectors = await this.embedFor(
+      "qortex_vector_upsert",
+      params.indexName,
+      texts,
+      call,
+    );
+    return this.upsert({ ...params, vectors, ...call });
+  }
+
+  /**
+   * Embed `text` with the configured embedder and query() with it.
+   *
+   * Use this rather than textQuery() to search vectors written by
+   * upsertText(): textQuery() embeds with qortex's server-side model,
+   * whose embedding space may differ.
+   */
+  async queryText({
+    text,
+    signal,
+    timeoutMs,
+    ...params
+  }: QortexQueryTextParams): Promise<QueryResult[]> {
+    const call = { signal, timeoutMs };
+    const [queryVector] = await this.embedFor(
+      "qortex_vector_query",
+      params.indexName,
+      [text],
+      call,
+    );
+    return this.query({ ...params, queryVector, ...call });
+  }
+
+  /**
+   * Embed texts for an index, checking the dimension via describeIndex().
+   * `tool` is the call the vectors are for, reported on errors.
+   */
+  private async embedFor(
+    tool: string,
+    indexName: string,
+    texts: string[],
+    options: QortexCallOptions,
+  ): Promise<number[][]> {
+    const args = { index_name: indexName, texts };
+    const embed = this.embed;
+    if (!embed) {
+      throw new QortexEmbedderMissingError(
+        "qortex upsertText() and queryText() need an embedder in QortexVectorConfig",
+        { tool, args },
+      );
     }
+    let dimension = this.dimensions.get(indexName);
+    if (dimension === undefined) {
+      ({ dimension } = await this.describeIndex({ indexName, ...options }));
+      this.dimensions.set(indexName, dimension);
+    }
+
+    const attributes = {
+      "qortex.index_name": indexName,
+      "qortex.text_count": texts.length,
+    };
+    return this.telemetry.span("embed", attributes, async (span) => {
+      const { vectors, cacheHits } = await embedTexts(
+        embed,
+        texts,
+        this.embeddingCache,
+        { ...options, namespace: this.embedderId },
+      );
+      span.setAttribute("qortex.cache_hits", cacheHits);
+      const wrong = vectors.find((vector) => vector.length !== dimension);
+      if (wrong) {
+        throw new QortexDimensionMismatchError(
+          `Embedder returned ${wrong.length}-dimensional vectors, but index ` +
+            `${indexName} has dimension ${dimension}`,
+          { tool, args },
+        );
+      }
+      return vectors;
+    });
   }
 
   // ---------------------------------------------------------------------------
@@ -226,17 +773,101 @@ export class QortexVector extends MastraVector {
       topK?: number;
       minConfidence?: number;
       mode?: "vec" | "graph" | "auto";
-    } = {},
+    } & QortexCallOptions = {},
   ): Promise<QortexQueryResult> {
-    const result = (await this.mcp.callTool("qortex_query", {
-      context,
-      domains: options.domains ?? undefined,
-      top_k: options.topK ?? 20,
-      min_confidence: options.minConfidence ?? 0.0,
-      mode: options.mode ?? "auto",
-    })) as QortexQueryResult;
+    const topK = options.topK ?? 20;
+    const mode = options.mode ?? "auto";
+    const attributes = {
+      "qortex.top_k": topK,
+      "qortex.domains": options.domains,
+      "qortex.mode": mode,
+    };
+    return this.telemetry.span("text_query", attributes, async (span) => {
+      const result = await this.call(
+        "qortex_query",
+        {
+          context,
+          domains: options.domains ?? undefined,
+          top_k: topK,
+          min_confidence: options.minConfidence ?? 0.0,
+          mode,
+        },
+        { signal: options.signal, timeoutMs: options.timeoutMs },
+        QortexQueryResultSchema,
+      );
 
-    return result;
+      span.setAttribute("qortex.result_count", result.items?.length ?? 0);
+      if (result.query_id) {
+        span.setAttribute("qortex.query_id", result.query_id);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Hybrid retrieval: run query() with the caller's embedding and
+   * textQuery() with qortex's embedder + PPR in parallel, then fuse and
+   * de-duplicate the two result lists (see hybrid.ts).
+   *
+   * Each retriever fetches `topK` candidates; the fused list is cut back
+   * to `topK`. Every result lists the retrievers that found it, and the
+   * graph side's `query_id` and rules are passed through for feedback().
+   */
+  async hybridQuery({
+    indexName,
+    queryVector,
+    text,
+    domains,
+    topK = 10,
+    filter,
+    includeVector = false,
+    minConfidence,
+    mode,
+    fusion = "rrf",
+    weights,
+    rrfK,
+    signal,
+    timeoutMs,
+  }: QortexHybridQueryParams): Promise<QortexHybridResult> {
+    const attributes = {
+      "qortex.index_name": indexName,
+      "qortex.top_k": topK,
+      "qortex.domains": domains,
+      "qortex.fusion": fusion,
+    };
+    return this.telemetry.span("hybrid_query", attributes, async (span) => {
+      const [vectorResults, graph] = await Promise.all([
+        this.query({
+          indexName,
+          queryVector,
+          topK,
+          filter,
+          includeVector,
+          signal,
+          timeoutMs,
+        }),
+        this.textQuery(text, {
+          domains,
+          topK,
+          minConfidence,
+          mode,
+          signal,
+          timeoutMs,
+        }),
+      ]);
+
+      const results = fuseResults(vectorResults, graph.items ?? [], {
+        fusion,
+        weights,
+        rrfK,
+        topK,
+      });
+      span.setAttribute("qortex.result_count", results.length);
+      if (graph.query_id) {
+        span.setAttribute("qortex.query_id", graph.query_id);
+      }
+      return { results, query_id: graph.query_id, rules: graph.rules ?? [] };
+    });
   }
 
   /**
@@ -248,17 +879,32 @@ export class QortexVector extends MastraVector {
   async explore(
     nodeId: string,
     depth: number = 1,
+    options: QortexCallOptions = {},
   ): Promise<ExploreResult | null> {
-    const result = (await this.mcp.callTool("qortex_explore", {
-      node_id: nodeId,
-      depth,
-    })) as ExploreResult & { node: unknown };
+    const attributes = { "qortex.node_id": nodeId, "qortex.depth": depth };
+    return this.telemetry.span("explore", attributes, async (span) => {
+      const args = {
+        node_id: nodeId,
+        depth,
+      };
+      const result = (await this.call("qortex_explore", args, options)) as {
+        node?: unknown;
+      };
 
-    if (result.node === null) {
-      return null;
-    }
+      if (result.node === null) {
+        span.setAttribute("qortex.result_count", 0);
+        return null;
+      }
 
-    return result;
+      const explored = this.validate(
+        "qortex_explore",
+        args,
+        ExploreResultSchema,
+        result,
+      );
+      span.setAttribute("qortex.result_count", explored.neighbors?.length ?? 0);
+      return explored;
+    });
   }
 
   /**
@@ -274,16 +920,353 @@ export class QortexVector extends MastraVector {
     categories?: string[];
     includeDerived?: boolean;
     minConfidence?: number;
-  } = {}): Promise<RulesResult> {
-    const result = (await this.mcp.callTool("qortex_rules", {
-      domains: options.domains ?? undefined,
-      concept_ids: options.conceptIds ?? undefined,
-      categories: options.categories ?? undefined,
-      include_derived: options.includeDerived ?? true,
-      min_confidence: options.minConfidence ?? 0.0,
-    })) as RulesResult;
+  } & QortexCallOptions = {}): Promise<RulesResult> {
+    const attributes = { "qortex.domains": options.domains };
+    return this.telemetry.span("rules", attributes, async (span) => {
+      const result = await this.call(
+        "qortex_rules",
+        {
+          domains: options.domains ?? undefined,
+          concept_ids: options.conceptIds ?? undefined,
+          categories: options.categories ?? undefined,
+          include_derived: options.includeDerived ?? true,
+          min_confidence: options.minConfidence ?? 0.0,
+        },
+        { signal: options.signal, timeoutMs: options.timeoutMs },
+        RulesResultSchema,
+      );
+
+      span.setAttribute("qortex.result_count", result.rules?.length ?? 0);
+      return result;
+    });
+  }
+
+  /**
+   * List the knowledge domains on the server with their sizes.
+   *
+   * Use the names to scope `domains` in textQuery(), hybridQuery() and
+   * getRules().
+   */
+  async listDomains(
+    options: QortexCallOptions = {},
+  ): Promise<QortexDomainInfo[]> {
+    return this.telemetry.span("list_domains", {}, async (span) => {
+      const result = await this.call(
+        "qortex_domains",
+        {},
+        options,
+        ListDomainsResponseSchema,
+      );
+      span.setAttribute("qortex.result_count", result.domains.length);
+      return result.domains;
+    });
+  }
+
+  /**
+   * Describe one knowledge domain.
+   *
+   * @throws QortexDomainNotFoundError if the domain does not exist
+   */
+  async describeDomain(
+    name: string,
+    options: QortexCallOptions = {},
+  ): Promise<QortexDomainInfo> {
+    const attributes = { "qortex.domain": name };
+    return this.telemetry.span("describe_domain", attributes, () =>
+      this.call(
+        "qortex_describe_domain",
+        { domain: name },
+        options,
+        QortexDomainInfoSchema,
+      ),
+    );
+  }
+
+  /**
+   * Create an empty knowledge domain. Creating a domain that already
+   * exists is a no-op apart from updating its description.
+   */
+  async createDomain(
+    name: string,
+    options: { description?: string } & QortexCallOptions = {},
+  ): Promise<QortexDomainInfo> {
+    const attributes = { "qortex.domain": name };
+    return this.telemetry.span("create_domain", attributes, () =>
+      this.call(
+        "qortex_create_domain",
+        { domain: name, description: options.description ?? undefined },
+        { signal: options.signal, timeoutMs: options.timeoutMs },
+        QortexDomainInfoSchema,
+      ),
+    );
+  }
+
+  /**
+   * Delete a knowledge domain with its concepts, edges and rules.
+   *
+   * @throws QortexDomainNotFoundError if the domain does not exist
+   */
+  async deleteDomain(
+    name: string,
+    options: QortexCallOptions = {},
+  ): Promise<void> {
+    const attributes = { "qortex.domain": name };
+    await this.telemetry.span("delete_domain", attributes, () =>
+      this.call("qortex_delete_domain", { domain: name }, options),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Graph writes — concepts, edges and rules
+  //
+  // Adds replace existing items with the same id (edges: same endpoints
+  // and relation). The server rejects the whole batch with `{ error, code:
+  // "missing_reference", missing }`, raised as QortexIntegrityError, when
+  // an edge endpoint, a rule's source concept or an item to update/delete
+  // does not exist. With checkReferences on, addEdges() and addRules()
+  // also look up the concepts they reference before writing.
+  // ---------------------------------------------------------------------------
+
+  /** Add concepts in one call; returns their ids in input order. */
+  async addConcepts(
+    concepts: QortexConceptInput[],
+    options: QortexCallOptions = {},
+  ): Promise<string[]> {
+    if (concepts.length === 0) return [];
+    const attributes = { "qortex.item_count": concepts.length };
+    return this.telemetry.span("add_concepts", attributes, async () => {
+      const result = await this.call(
+        "qortex_add_concepts",
+        { concepts },
+        options,
+        AddedIdsResponseSchema,
+      );
+      return result.ids;
+    });
+  }
+
+  async addConcept(
+    concept: QortexConceptInput,
+    options: QortexCallOptions = {},
+  ): Promise<string> {
+    const [id] = await this.addConcepts([concept], options);
+    return id;
+  }
 
-    return result;
+  /** Change fields of a concept; returns the updated concept. */
+  async updateConcept(
+    id: string,
+    changes: QortexConceptUpdate,
+    options: QortexCallOptions = {},
+  ): Promise<QortexNode> {
+    const attributes = { "qortex.node_id": id };
+    return this.telemetry.span("update_concept", attributes, () =>
+      this.call(
+        "qortex_update_concept",
+        { id, changes },
+        options,
+        QortexNodeSchema,
+      ),
+    );
+  }
+
+  /**
+   * Delete concepts with their edges. Rules keep their other source
+   * concepts. Returns how many concepts were deleted.
+   */
+  async deleteConcepts(
+    ids: string[],
+    options: QortexCallOptions = {},
+  ): Promise<number> {
+    return this.deleteGraphItems("qortex_delete_concepts", "ids", ids, options);
+  }
+
+  async deleteConcept(
+    id: string,
+    options: QortexCallOptions = {},
+  ): Promise<void> {
+    await this.deleteConcepts([id], options);
+  }
+
+  /** Add edges in one call; returns their refs in input order. */
+  async addEdges(
+    edges: QortexEdgeInput[],
+    options: QortexCallOptions = {},
+  ): Promise<QortexEdgeRef[]> {
+    if (edges.length === 0) return [];
+    const attributes = { "qortex.item_count": edges.length };
+    return this.telemetry.span("add_edges", attributes, async () => {
+      await this.requireConcepts(
+        "qortex_add_edges",
+        "Edge endpoints",
+        edges.flatMap((edge) => [edge.source_id, edge.target_id]),
+        options,
+      );
+      const result = await this.call(
+        "qortex_add_edges",
+        { edges },
+        options,
+        AddedEdgesResponseSchema,
+      );
+      return result.edges;
+    });
+  }
+
+  async addEdge(
+    edge: QortexEdgeInput,
+    options: QortexCallOptions = {},
+  ): Promise<QortexEdgeRef> {
+    const [ref] = await this.addEdges([edge], options);
+    return ref;
+  }
+
+  /** Change the confidence or properties of an edge; returns the updated edge. */
+  async updateEdge(
+    edge: QortexEdgeRef,
+    changes: QortexEdgeUpdate,
+    options: QortexCallOptions = {},
+  ): Promise<QortexEdge> {
+    const attributes = { "qortex.relation_type": edge.relation_type };
+    return this.telemetry.span("update_edge", attributes, () =>
+      this.call(
+        "qortex_update_edge",
+        { edge: edgeRef(edge), changes },
+        options,
+        QortexEdgeSchema,
+      ),
+    );
+  }
+
+  /** Delete edges; returns how many were deleted. */
+  async deleteEdges(
+    edges: QortexEdgeRef[],
+    options: QortexCallOptions = {},
+  ): Promise<number> {
+    return this.deleteGraphItems(
+      "qortex_delete_edges",
+      "edges",
+      edges.map(edgeRef),
+      options,
+    );
+  }
+
+  async deleteEdge(
+    edge: QortexEdgeRef,
+    options: QortexCallOptions = {},
+  ): Promise<void> {
+    await this.deleteEdges([edge], options);
+  }
+
+  /** Add rules in one call; returns their ids in input order. */
+  async addRules(
+    rules: QortexRuleInput[],
+    options: QortexCallOptions = {},
+  ): Promise<string[]> {
+    if (rules.length === 0) return [];
+    const attributes = { "qortex.item_count": rules.length };
+    return this.telemetry.span("add_rules", attributes, async () => {
+      await this.requireConcepts(
+        "qortex_add_rules",
+        "Source concepts",
+        rules.flatMap((rule) => rule.source_concepts ?? []),
+        options,
+      );
+      const result = await this.call(
+        "qortex_add_rules",
+        { rules },
+        options,
+        AddedIdsResponseSchema,
+      );
+      return result.ids;
+    });
+  }
+
+  async addRule(
+    rule: QortexRuleInput,
+    options: QortexCallOptions = {},
+  ): Promise<string> {
+    const [id] = await this.addRules([rule], options);
+    return id;
+  }
+
+  /** Change fields of a rule; returns the updated rule. */
+  async updateRule(
+    id: string,
+    changes: QortexRuleUpdate,
+    options: QortexCallOptions = {},
+  ): Promise<QortexRule> {
+    const attributes = { "qortex.rule_id": id };
+    return this.telemetry.span("update_rule", attributes, () =>
+      this.call(
+        "qortex_update_rule",
+        { id, changes },
+        options,
+        QortexRuleSchema,
+      ),
+    );
+  }
+
+  /** Delete rules; returns how many were deleted. */
+  async deleteRules(
+    ids: string[],
+    options: QortexCallOptions = {},
+  ): Promise<number> {
+    return this.deleteGraphItems("qortex_delete_rules", "ids", ids, options);
+  }
+
+  async deleteRule(id: string, options: QortexCallOptions = {}): Promise<void> {
+    await this.deleteRules([id], options);
+  }
+
+  /**
+   * Throw QortexIntegrityError, naming `tool`, if any of `ids` is not a
+   * concept on the server. Each distinct id is probed with a depth-0
+   * explore(), a few at a time.
+   */
+  private async requireConcepts(
+    tool: string,
+    what: string,
+    ids: string[],
+    options: QortexCallOptions,
+  ): Promise<void> {
+    if (!this.checkReferences) return;
+    const unique = [...new Set(ids)];
+    const outcomes = await runConcurrently(
+      unique,
+      REFERENCE_CHECK_CONCURRENCY,
+      (id) => this.explore(id, 0, options),
+    );
+    const failed = outcomes.find((o) => o?.status === "rejected");
+    if (failed?.status === "rejected") throw failed.reason;
+    const missing = unique.filter(
+      (_, i) => outcomes[i]?.status === "fulfilled" && outcomes[i].value === null,
+    );
+    if (missing.length > 0) {
+      throw new QortexIntegrityError(
+        `${what} not found: ${missing.join(", ")}`,
+        { tool, missing },
+      );
+    }
+  }
+
+  private async deleteGraphItems(
+    tool: string,
+    key: "ids" | "edges",
+    items: unknown[],
+    options: QortexCallOptions,
+  ): Promise<number> {
+    if (items.length === 0) return 0;
+    const attributes = { "qortex.item_count": items.length };
+    const operation = tool.replace("qortex_", "");
+    return this.telemetry.span(operation, attributes, async () => {
+      const result = await this.call(
+        tool,
+        { [key]: items },
+        options,
+        DeletedCountResponseSchema,
+      );
+      return result.deleted;
+    });
   }
 
   /**
@@ -296,13 +1279,43 @@ export class QortexVector extends MastraVector {
     queryId: string,
     outcomes: Record<string, FeedbackOutcome>,
     source: string = "mastra",
+    options: QortexCallOptions = {},
   ): Promise<FeedbackResult> {
-    const result = (await this.mcp.callTool("qortex_feedback", {
-      query_id: queryId,
-      outcomes,
-      source,
-    })) as FeedbackResult;
-
-    return result;
+    const attributes = {
+      "qortex.query_id": queryId,
+      "qortex.outcome_count": Object.keys(outcomes).length,
+    };
+    return this.telemetry.span("feedback", attributes, () =>
+      this.call(
+        "qortex_feedback",
+        {
+          query_id: queryId,
+          outcomes,
+          source,
+        },
+        options,
+        FeedbackResultSchema,
+      ),
+    );
   }
 }
+
+/** Strip an edge down to the fields that identify it. */
+function edgeRef({
+  source_id,
+  target_id,
+  relation_type,
+}: QortexEdgeRef): QortexEdgeRef {
+  return { source_id, target_id, relation_type };
+}
+
+/** Approximate JSON size of one upsert item. */
+function itemBytes(
+  vector: number[],
+  metadata: Record<string, unknown> | undefined,
+  id: string | undefined,
+): number {
+  return Buffer.byteLength(
+    JSON.stringify([vector, metadata ?? null, id ?? null]),
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * XML escaping shared by the rule renderer and the graph exporters.
+ */
+
+/** Escape text for XML element content and double-quoted attributes. */
+export function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
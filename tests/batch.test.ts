@@ -0,0 +1,203 @@
+/**
+ * Tests for batched upserts: batch planning, bounded concurrency,
+ * progress reporting and partial-failure reporting.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { planBatches, runConcurrently } from "../src/batch.js";
+import { QortexVector } from "../src/vector.js";
+import {
+  QortexDimensionMismatchError,
+  QortexPartialUpsertError,
+} from "../src/errors.js";
+
+function mockResponse(data: unknown) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data) }],
+  };
+}
+
+describe("planBatches", () => {
+  it("splits by count", () => {
+    expect(planBatches(5, () => 1, { maxBatchSize: 2 })).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 4 },
+      { start: 4, end: 5 },
+    ]);
+  });
+
+  it("splits by bytes", () => {
+    const sizes = [40, 40, 40, 90, 10];
+    expect(
+      planBatches(sizes.length, (i) => sizes[i], { maxBatchBytes: 100 }),
+    ).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 3 },
+      { start: 3, end: 5 },
+    ]);
+  });
+
+  it("gives oversized items a batch of their own", () => {
+    const sizes = [10, 500, 10];
+    expect(
+      planBatches(sizes.length, (i) => sizes[i], { maxBatchBytes: 100 }),
+    ).toEqual([
+      { start: 0, end: 1 },
+      { start: 1, end: 2 },
+      { start: 2, end: 3 },
+    ]);
+  });
+
+  it("returns no batches for no items", () => {
+    expect(planBatches(0, () => 1)).toEqual([]);
+  });
+});
+
+describe("runConcurrently", () => {
+  it("never exceeds the concurrency limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await runConcurrently([1, 2, 3, 4, 5, 6], 2, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+    expect(peak).toBe(2);
+  });
+
+  it("stops starting tasks after a failure", async () => {
+    const started: number[] = [];
+    const outcomes = await runConcurrently([0, 1, 2, 3], 1, async (n) => {
+      started.push(n);
+      if (n === 1) throw new Error("boom");
+      return n;
+    });
+    expect(started).toEqual([0, 1]);
+    expect(outcomes.map((o) => o?.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      undefined,
+      undefined,
+    ]);
+  });
+});
+
+describe("QortexVector batched upsert", () => {
+  let callTool: ReturnType<typeof vi.fn>;
+  let qortex: QortexVector;
+
+  const vectors = Array.from({ length: 5 }, (_, i) => [i, i]);
+  const ids = vectors.map((_, i) => `v-${i}`);
+
+  beforeEach(() => {
+    callTool = vi.fn(async ({ arguments: args }) =>
+      mockResponse({ ids: args.ids ?? args.vectors.map(() => "minted") }),
+    );
+    qortex = new QortexVector({
+      id: "batched",
+      mcpClient: { callTool } as unknown as Client,
+      batch: { maxBatchSize: 2, concurrency: 2 },
+      retry: false,
+    });
+  });
+
+  it("sends one call per batch and returns ids in input order", async () => {
+    // Finish later batches first to check ordering
+    const landed: string[] = [];
+    callTool.mockImplementation(async ({ arguments: args }) => {
+      const first = Number(args.ids[0].slice(2));
+      await new Promise((resolve) => setTimeout(resolve, 20 - first * 4));
+      landed.push(args.ids[0]);
+      return mockResponse({ ids: args.ids });
+    });
+
+    const result = await qortex.upsert({ indexName: "docs", vectors, ids });
+
+    expect(landed[0]).toBe("v-2");
+    expect(result).toEqual(ids);
+    expect(callTool).toHaveBeenCalledTimes(3);
+    expect(callTool.mock.calls.map(([req]) => req.arguments.ids)).toEqual([
+      ["v-0", "v-1"],
+      ["v-2", "v-3"],
+      ["v-4"],
+    ]);
+  });
+
+  it("slices metadata alongside vectors", async () => {
+    const metadata = vectors.map((_, i) => ({ n: i }));
+
+    await qortex.upsert({ indexName: "docs", vectors, metadata });
+
+    expect(callTool.mock.calls[2][0].arguments.metadata).toEqual([{ n: 4 }]);
+  });
+
+  it("reports progress per batch", async () => {
+    const onProgress = vi.fn();
+
+    await qortex.upsert({
+      indexName: "docs",
+      vectors,
+      ids,
+      onProgress,
+      batch: { concurrency: 1 },
+    });
+
+    expect(onProgress.mock.calls.map(([p]) => p)).toEqual([
+      { batch: 0, batches: 3, upserted: 2, total: 5, ids: ["v-0", "v-1"] },
+      { batch: 1, batches: 3, upserted: 4, total: 5, ids: ["v-2", "v-3"] },
+      { batch: 2, batches: 3, upserted: 5, total: 5, ids: ["v-4"] },
+    ]);
+  });
+
+  it("honors per-call batch limits", async () => {
+    await qortex.upsert({
+      indexName: "docs",
+      vectors,
+      ids,
+      batch: { maxBatchSize: 10 },
+    });
+    expect(callTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports which ids landed when a batch fails", async () => {
+    callTool.mockImplementation(async ({ arguments: args }) =>
+      args.ids.includes("v-2")
+        ? mockResponse({ error: "Vector dimension mismatch" })
+        : mockResponse({ ids: args.ids }),
+    );
+
+    const error = await qortex
+      .upsert({ indexName: "docs", vectors, ids, batch: { concurrency: 1 } })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(QortexPartialUpsertError);
+    const partial = error as QortexPartialUpsertError;
+    expect(partial.upsertedIds).toEqual(["v-0", "v-1"]);
+    expect(partial.failures).toHaveLength(1);
+    expect(partial.failures[0]).toMatchObject({ batch: 1, start: 2, end: 4 });
+    expect(partial.failures[0].error).toBeInstanceOf(
+      QortexDimensionMismatchError,
+    );
+    expect(partial.pending).toEqual([
+      { start: 2, end: 4 },
+      { start: 4, end: 5 },
+    ]);
+    expect(callTool).toHaveBeenCalledTimes(2);
+  });
+
+  it("rethrows the original error when nothing landed", async () => {
+    callTool.mockResolvedValue(
+      mockResponse({ error: "Vector dimension mismatch" }),
+    );
+
+    await expect(
+      qortex.upsert({
+        indexName: "docs",
+        vectors,
+        ids,
+        batch: { concurrency: 1 },
+      }),
+    ).rejects.toBeInstanceOf(QortexDimensionMismatchError);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for tool capability negotiation.
+ *
+ * Covers the pure negotiation logic, degraded mode over an in-memory
+ * MCP server, and strict mode against the stdio stand-in fixture.
+ */
+
+import { describe, it, expect } from "vitest";
+import { fileURLToPath } from "node:url";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  QORTEX_VECTOR_TOOLS,
+  compareVersions,
+  formatCapabilityReport,
+  negotiateCapabilities,
+} from "../src/capabilities.js";
+import { QortexVector } from "../src/vector.js";
+import { QortexToolMissingError } from "../src/errors.js";
+
+function tool(name: string, properties: string[], required: string[] = []): Tool {
+  return {
+    name,
+    inputSchema: {
+      type: "object",
+      properties: Object.fromEntries(properties.map((p) => [p, {}])),
+      required,
+    },
+  };
+}
+
+function allTools(): Tool[] {
+  return QORTEX_VECTOR_TOOLS.map((r) => tool(r.tool, r.arguments));
+}
+
+describe("negotiateCapabilities", () => {
+  it("marks every method available when all tools match", () => {
+    const caps = negotiateCapabilities(
+      allTools(),
+      { name: "qortex", version: "0.3.1" },
+      QORTEX_VECTOR_TOOLS,
+      "0.2.0",
+    );
+
+    expect(caps.compatible).toBe(true);
+    expect(caps.server).toEqual({ name: "qortex", version: "0.3.1" });
+    expect(Object.values(caps.methods).every(Boolean)).toBe(true);
+  });
+
+  it("disables only methods whose tool is missing", () => {
+    const tools = allTools().filter((t) => t.name !== "qortex_vector_update");
+    const caps = negotiateCapabilities(tools, undefined, QORTEX_VECTOR_TOOLS);
+
+    expect(caps.compatible).toBe(false);
+    expect(caps.methods.updateVector).toBe(false);
+    expect(caps.methods.query).toBe(true);
+    expect(caps.tools.qortex_vector_update.available).toBe(false);
+  });
+
+  it("stays compatible when only optional tools are missing", () => {
+    const tools = allTools().filter(
+      (t) => !["qortex_add_edges", "qortex_domains"].includes(t.name),
+    );
+    const caps = negotiateCapabilities(tools, undefined, QORTEX_VECTOR_TOOLS);
+
+    expect(caps.compatible).toBe(true);
+    expect(caps.methods.addEdges).toBe(false);
+    expect(caps.methods.listDomains).toBe(false);
+    expect(caps.methods.query).toBe(true);
+    expect(formatCapabilityReport(caps)).toContain(
+      "qortex_add_edges (optional): missing",
+    );
+  });
+
+  it("flags schema mismatches in both directions", () => {
+    const tools = allTools().map((t) =>
+      t.name === "qortex_explore"
+        ? tool("qortex_explore", ["node_id", "max_hops"], ["max_hops"])
+        : t,
+    );
+    const caps = negotiateCapabilities(tools, undefined, QORTEX_VECTOR_TOOLS);
+
+    expect(caps.tools.qortex_explore).toMatchObject({
+      available: true,
+      unknownArguments: ["depth"],
+      missingRequired: ["max_hops"],
+      compatible: false,
+    });
+    expect(caps.methods.explore).toBe(false);
+  });
+
+  it("rejects servers older than the minimum version", () => {
+    const caps = negotiateCapabilities(
+      allTools(),
+      { name: "qortex", version: "0.1.9" },
+      QORTEX_VECTOR_TOOLS,
+      "0.2.0",
+    );
+
+    expect(caps.versionSupported).toBe(false);
+    expect(caps.compatible).toBe(false);
+  });
+
+  it("formats a report naming every problem", () => {
+    const tools = allTools().filter((t) => t.name !== "qortex_feedback");
+    const caps = negotiateCapabilities(
+      tools,
+      { name: "qortex", version: "0.1.0" },
+      QORTEX_VECTOR_TOOLS,
+      "0.2.0",
+    );
+
+    const report = formatCapabilityReport(caps, "0.2.0");
+    expect(report).toContain("qortex server: qortex 0.1.0");
+    expect(report).toContain("older than required 0.2.0");
+    expect(report).toContain("qortex_feedback: missing");
+  });
+});
+
+describe("compareVersions", () => {
+  it("compares numerically, not lexically", () => {
+    expect(compareVersions("0.2.10", "0.2.9")).toBe(1);
+    expect(compareVersions("v1.0", "1.0.0")).toBe(0);
+    expect(compareVersions("0.2.0-rc.1", "0.3.0")).toBe(-1);
+  });
+});
+
+describe("QortexVector capabilities", () => {
+  async function connectDegradedServer(): Promise<QortexVector> {
+    const server = new McpServer({ name: "qortex", version: "0.1.5" });
+    // An older release: vector tools but no qortex_vector_update
+    server.registerTool(
+      "qortex_vector_list_indexes",
+      { inputSchema: {} },
+      async () => ({
+        content: [{ type: "text", text: JSON.stringify({ indexes: ["docs"] }) }],
+      }),
+    );
+    server.registerTool(
+      "qortex_vector_delete",
+      { inputSchema: { index_name: z.string(), id: z.string() } },
+      async () => ({
+        content: [{ type: "text", text: JSON.stringify({ status: "deleted" }) }],
+      }),
+    );
+
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverSide);
+    const mcpClient = new Client({ name: "test", version: "0.0.0" });
+    await mcpClient.connect(clientSide);
+    return new QortexVector({ id: "degraded", mcpClient });
+  }
+
+  it("reports available methods and server version", async () => {
+    const qortex = await connectDegradedServer();
+
+    const caps = await qortex.capabilities();
+
+    expect(caps.server).toEqual({ name: "qortex", version: "0.1.5" });
+    expect(caps.methods.listIndexes).toBe(true);
+    expect(caps.methods.deleteVector).toBe(true);
+    expect(caps.methods.updateVector).toBe(false);
+  });
+
+  it("disables missing methods but keeps the rest working", async () => {
+    const qortex = await connectDegradedServer();
+    await qortex.capabilities();
+
+    expect(await qortex.listIndexes()).toEqual(["docs"]);
+    await expect(
+      qortex.updateVector({
+        indexName: "docs",
+        id: "v1",
+        update: { metadata: { reviewed: true } },
+      }),
+    ).rejects.toThrow(QortexToolMissingError);
+  });
+
+  it("fails connect() with a report in strict mode", async () => {
+    const qortex = new QortexVector({
+      id: "strict",
+      serverCommand: process.execPath,
+      serverArgs: [
+        fileURLToPath(new URL("./fixtures/stdio-server.mjs", import.meta.url)),
+      ],
+      capabilityCheck: "strict",
+    });
+
+    const error = await qortex.connect().catch((err: Error) => err);
+
+    expect(error).toBeInstanceOf(QortexToolMissingError);
+    expect((error as Error).message).toContain(
+      "qortex server is missing required capabilities",
+    );
+    expect((error as Error).message).toContain("qortex_vector_update: missing");
+    expect(qortex.client.connected).toBe(false);
+  });
+});
@@ -0,0 +1,487 @@
+/**
+ * Unit tests for QortexMcpClient transports.
+ *
+ * Runs a local HTTP MCP stand-in (Streamable HTTP or legacy SSE) so the
+ * HTTP transport can be exercised without a real qortex server, and a
+ * stdio stand-in subprocess (tests/fixtures/stdio-server.mjs) for
+ * supervision and restart behavior. Cancellation runs over an in-memory
+ * transport.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomUUID } from "node:crypto";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  QortexMcpClient,
+  type QortexClientEvents,
+  type QortexMcpClientConfig,
+} from "../src/client.js";
+import { QortexTimeoutError, QortexTransportError } from "../src/errors.js";
+
+// ---------------------------------------------------------------------------
+// Local HTTP MCP stand-in
+// ---------------------------------------------------------------------------
+
+function createStandIn(): McpServer {
+  const server = new McpServer({ name: "qortex-stand-in", version: "0.0.0" });
+  server.registerTool("qortex_vector_list_indexes", {}, async () => ({
+    content: [{ type: "text", text: JSON.stringify({ indexes: ["docs"] }) }],
+  }));
+  return server;
+}
+
+interface HttpStandIn {
+  url: string;
+  close: () => Promise<void>;
+}
+
+async function startHttpStandIn(options: {
+  protocol: "streamable-http" | "sse";
+  token?: string;
+}): Promise<HttpStandIn> {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  const http: Server = createServer(async (req, res) => {
+    if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+      res.writeHead(403).end();
+      return;
+    }
+
+    if (options.protocol === "streamable-http") {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? sessions.get(sessionId) : undefined;
+      if (!transport) {
+        if (sessionId) {
+          res.writeHead(404).end();
+          return;
+        }
+        const created = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, created);
+          },
+        });
+        await createStandIn().connect(created);
+        transport = created;
+      }
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    // Legacy HTTP+SSE: GET opens the stream, POST /messages carries requests
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method === "GET" && url.pathname === "/mcp") {
+      const transport = new SSEServerTransport("/messages", res);
+      sseSessions.set(transport.sessionId, transport);
+      await createStandIn().connect(transport);
+      return;
+    }
+    const transport = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+    if (req.method === "POST" && url.pathname === "/messages" && transport) {
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+    res.writeHead(405).end();
+  });
+
+  await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+  const { port } = http.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        http.closeAllConnections();
+        http.close(() => resolve());
+      }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("QortexMcpClient HTTP transport", () => {
+  let standIn: HttpStandIn | null = null;
+  const clients: QortexMcpClient[] = [];
+
+  function track(client: QortexMcpClient): QortexMcpClient {
+    clients.push(client);
+    return client;
+  }
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.disconnect();
+    }
+    await standIn?.close();
+    standIn = null;
+  });
+
+  it("connects over Streamable HTTP and calls tools", async () => {
+    standIn = await startHttpStandIn({ protocol: "streamable-http" });
+    const client = track(
+      new QortexMcpClient({ transport: { type: "http", url: standIn.url } }),
+    );
+
+    await client.connect();
+
+    expect(client.connected).toBe(true);
+    expect(client.sessionId).toBeDefined();
+    expect(await client.callTool("qortex_vector_list_indexes", {})).toEqual({
+      indexes: ["docs"],
+    });
+  });
+
+  it("sends configured auth headers", async () => {
+    standIn = await startHttpStandIn({
+      protocol: "streamable-http",
+      token: "secret",
+    });
+
+    const anonymous = track(
+      new QortexMcpClient({ transport: { type: "http", url: standIn.url } }),
+    );
+    await expect(anonymous.connect()).rejects.toThrow(
+      /Unable to reach qortex MCP server/,
+    );
+
+    const authed = track(
+      new QortexMcpClient({
+        transport: {
+          type: "http",
+          url: standIn.url,
+          headers: { Authorization: "Bearer secret" },
+        },
+      }),
+    );
+    await authed.connect();
+    expect(await authed.callTool("qortex_vector_list_indexes", {})).toEqual({
+      indexes: ["docs"],
+    });
+  });
+
+  it("resumes an existing session by id", async () => {
+    standIn = await startHttpStandIn({ protocol: "streamable-http" });
+    const first = track(
+      new QortexMcpClient({ transport: { type: "http", url: standIn.url } }),
+    );
+    await first.connect();
+    const sessionId = first.sessionId;
+
+    const resumed = track(
+      new QortexMcpClient({
+        transport: { type: "http", url: standIn.url, sessionId },
+      }),
+    );
+    await resumed.connect();
+
+    expect(resumed.sessionId).toBe(sessionId);
+    expect(await resumed.callTool("qortex_vector_list_indexes", {})).toEqual({
+      indexes: ["docs"],
+    });
+  });
+
+  it("reports an expired session instead of falling back to SSE", async () => {
+    standIn = await startHttpStandIn({ protocol: "streamable-http" });
+    const client = track(
+      new QortexMcpClient({
+        transport: { type: "http", url: standIn.url, sessionId: "gone" },
+      }),
+    );
+
+    const error = await client.connect().catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(QortexTransportError);
+    expect((error as QortexTransportError).retryable).toBe(false);
+    expect((error as Error).message).toMatch(/session expired or unknown/);
+    expect(client.connected).toBe(false);
+  });
+
+  it("falls back to SSE when Streamable HTTP is rejected", async () => {
+    standIn = await startHttpStandIn({ protocol: "sse" });
+    const client = track(
+      new QortexMcpClient({ transport: { type: "http", url: standIn.url } }),
+    );
+
+    await client.connect();
+
+    expect(await client.callTool("qortex_vector_list_indexes", {})).toEqual({
+      indexes: ["docs"],
+    });
+  });
+
+  it("does not fall back when the protocol is pinned", async () => {
+    standIn = await startHttpStandIn({ protocol: "sse" });
+    const client = track(
+      new QortexMcpClient({
+        transport: { type: "http", url: standIn.url, protocol: "streamable-http" },
+      }),
+    );
+
+    await expect(client.connect()).rejects.toThrow(
+      /Unable to reach qortex MCP server/,
+    );
+    expect(client.connected).toBe(false);
+  });
+
+  it("reports an unreachable URL clearly", async () => {
+    standIn = await startHttpStandIn({ protocol: "streamable-http" });
+    const url = standIn.url;
+    await standIn.close();
+    standIn = null;
+
+    const client = track(
+      new QortexMcpClient({ transport: { type: "http", url } }),
+    );
+
+    const error = await client.connect().catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(QortexTransportError);
+    expect((error as Error).message).toContain(
+      `Unable to reach qortex MCP server at ${url}`,
+    );
+    expect(client.connected).toBe(false);
+  });
+});
+
+describe("QortexMcpClient supervision", () => {
+  const standInScript = fileURLToPath(
+    new URL("./fixtures/stdio-server.mjs", import.meta.url),
+  );
+  let client: QortexMcpClient;
+  let events: string[];
+  let tmp: string;
+
+  function createClient(config: QortexMcpClientConfig = {}): QortexMcpClient {
+    client = new QortexMcpClient({
+      serverCommand: process.execPath,
+      serverArgs: [standInScript],
+      supervisor: { initialDelayMs: 10, maxRestarts: 3 },
+      ...config,
+    });
+    for (const name of [
+      "crashed",
+      "restarting",
+      "reconnected",
+      "gaveUp",
+    ] as Array<keyof QortexClientEvents>) {
+      client.on(name, () => events.push(name));
+    }
+    return client;
+  }
+
+  function once<K extends keyof QortexClientEvents>(
+    name: K,
+  ): Promise<QortexClientEvents[K][0]> {
+    return new Promise((resolve) => {
+      client.once(name, ((event: QortexClientEvents[K][0]) =>
+        resolve(event)) as never);
+    });
+  }
+
+  async function pidOf(c: QortexMcpClient): Promise<number> {
+    return ((await c.callTool("qortex_vector_list_indexes", {})) as {
+      pid: number;
+    }).pid;
+  }
+
+  beforeEach(() => {
+    events = [];
+    tmp = mkdtempSync(join(tmpdir(), "qortex-supervisor-"));
+  });
+
+  afterEach(async () => {
+    await client.disconnect();
+    rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it("respawns the server after it crashes", async () => {
+    createClient();
+    const firstPid = await pidOf(client);
+
+    const reconnected = once("reconnected");
+    await client.callTool("crash", {});
+    await reconnected;
+
+    expect(client.connected).toBe(true);
+    expect(events).toEqual(["crashed", "restarting", "reconnected"]);
+    expect(await pidOf(client)).not.toBe(firstPid);
+  });
+
+  it("waits for an in-flight restart on the next call", async () => {
+    createClient();
+    await client.connect();
+
+    const crashed = once("crashed");
+    await client.callTool("crash", {});
+    await crashed;
+    expect(client.connected).toBe(false);
+
+    // The next call rides the restart instead of failing
+    expect(await pidOf(client)).toBeGreaterThan(0);
+    expect(events).toContain("reconnected");
+  });
+
+  it("gives up after the restart budget is spent", async () => {
+    createClient({
+      serverEnv: { STANDIN_CRASHED_MARKER: join(tmp, "crashed") },
+    });
+    await client.connect();
+
+    const gaveUp = once("gaveUp");
+    await client.callTool("crash", {});
+    const event = await gaveUp;
+
+    expect(event.attempts).toBe(3);
+    expect(client.connected).toBe(false);
+    expect(events).toEqual([
+      "crashed",
+      "restarting",
+      "restarting",
+      "restarting",
+      "gaveUp",
+    ]);
+  });
+
+  it("keeps restarting when negotiation fails on a restart", async () => {
+    createClient({
+      serverEnv: { STANDIN_BROKEN_MARKER: join(tmp, "crashed") },
+    });
+    await client.connect();
+
+    const gaveUp = once("gaveUp");
+    await client.callTool("crash", {});
+    const event = await gaveUp;
+
+    expect(event.attempts).toBe(3);
+    expect(event.error?.message).toMatch(/tool registry unavailable/);
+    expect(client.connected).toBe(false);
+    expect(events).toEqual([
+      "crashed",
+      "restarting",
+      "restarting",
+      "restarting",
+      "gaveUp",
+    ]);
+  });
+
+  it("does not restart after an explicit disconnect", async () => {
+    createClient();
+    await client.connect();
+    await client.disconnect();
+
+    expect(client.connected).toBe(false);
+    expect(events).toEqual([]);
+  });
+
+  it("drops a restarted connection when disconnect() ran mid-restart", async () => {
+    const opened: InMemoryTransport[] = [];
+    let restartClosed!: () => void;
+    const closed = new Promise<void>((resolve) => {
+      restartClosed = resolve;
+    });
+    createClient({
+      capabilityCheck: "off",
+      transport: {
+        type: "in-memory",
+        createTransport: async () => {
+          const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+          await createStandIn().connect(serverSide);
+          if (opened.length > 0) {
+            // The caller closes the client while the restart is connecting
+            await client.disconnect();
+            serverSide.onclose = () => restartClosed();
+          }
+          opened.push(clientSide);
+          return clientSide;
+        },
+      },
+    });
+    await client.connect();
+
+    const crashed = once("crashed");
+    await opened[0].close();
+    await crashed;
+    await closed;
+
+    expect(opened).toHaveLength(2);
+    expect(client.connected).toBe(false);
+    expect(events).toEqual(["crashed", "restarting"]);
+  });
+
+  it("does not restart when supervision is disabled", async () => {
+    createClient({ supervisor: false });
+    await client.connect();
+
+    const crashed = once("crashed");
+    await client.callTool("crash", {});
+    await crashed;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(events).toEqual(["crashed"]);
+    expect(client.connected).toBe(false);
+  });
+});
+
+describe("QortexMcpClient cancellation", () => {
+  let started: Promise<void>;
+  let cancelled: Promise<void>;
+  let client: QortexMcpClient;
+
+  beforeEach(async () => {
+    const server = new McpServer({ name: "qortex-stand-in", version: "0.0.0" });
+    let markStarted!: () => void;
+    let markCancelled!: () => void;
+    started = new Promise((resolve) => {
+      markStarted = resolve;
+    });
+    cancelled = new Promise((resolve) => {
+      markCancelled = resolve;
+    });
+    // A PPR query that never finishes unless the client cancels it
+    server.registerTool("qortex_query", {}, async (extra) => {
+      markStarted();
+      await new Promise<void>((resolve) => {
+        extra.signal.addEventListener("abort", () => resolve());
+      });
+      markCancelled();
+      return { content: [] };
+    });
+
+    const [clientSide, serverSide] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverSide);
+    const mcpClient = new Client({ name: "test", version: "0.0.0" });
+    await mcpClient.connect(clientSide);
+    client = new QortexMcpClient({ mcpClient });
+  });
+
+  it("sends a cancellation notification on abort", async () => {
+    const controller = new AbortController();
+    const call = client.callTool("qortex_query", {}, {
+      signal: controller.signal,
+    });
+
+    await started;
+    controller.abort(new Error("user navigated away"));
+
+    await expect(call).rejects.toThrow("user navigated away");
+    await cancelled;
+  });
+
+  it("cancels on the server when the call times out", async () => {
+    await expect(
+      client.callTool("qortex_query", {}, { timeoutMs: 20 }),
+    ).rejects.toBeInstanceOf(QortexTimeoutError);
+    await cancelled;
+  });
+});
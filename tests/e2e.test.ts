@@ -1,35 +1,45 @@
 /**
- * Real E2E integration test for @peleke/mastra-qortex.
+ * E2E integration test for @peleke/mastra-qortex.
  *
- * This test spawns the actual qortex MCP server (from PyPI, via uvx)
- * as a subprocess, connects over stdio, and runs the full MastraVector
- * lifecycle through real MCP transport. No mocks.
+ * Runs the full MastraVector lifecycle through real MCP transport. By
+ * default the server is the in-memory stand-in (createQortexTestServer),
+ * so the suite runs offline. Set QORTEX_E2E=uvx to spawn the actual
+ * qortex MCP server from PyPI over stdio instead.
  *
- * Prerequisites:
+ * Prerequisites for QORTEX_E2E=uvx:
  *   - uvx installed (pip install uv)
  *   - qortex >= 0.2.0 on PyPI (has qortex_vector_* tools)
  *
  * Run:
  *   npx vitest run tests/e2e.test.ts
+ *   QORTEX_E2E=uvx npx vitest run tests/e2e.test.ts
  */
 
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+
+const REAL_SERVER = process.env.QORTEX_E2E === "uvx";
 
 // Timeout for the whole suite — server spawn + tool calls
 const E2E_TIMEOUT = 60_000;
 
-describe("Real E2E: QortexVector over stdio MCP", () => {
+describe(`E2E: QortexVector over ${REAL_SERVER ? "stdio" : "in-memory"} MCP`, () => {
   let qortex: QortexVector;
 
   beforeAll(async () => {
-    qortex = new QortexVector({
-      id: "e2e-test",
-      serverCommand: "uvx",
-      serverArgs: ["qortex", "mcp-serve"],
-    });
-
-    // Actually connect — spawns the qortex server subprocess
+    qortex = REAL_SERVER
+      ? new QortexVector({
+          id: "e2e-test",
+          serverCommand: "uvx",
+          serverArgs: ["qortex", "mcp-serve"],
+        })
+      : new QortexVector({
+          id: "e2e-test",
+          transport: createQortexTestServer().transport,
+        });
+
+    // Actually connect — spawns the qortex server subprocess (or opens the stand-in)
     await qortex.connect();
   }, E2E_TIMEOUT);
 
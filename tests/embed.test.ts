@@ -0,0 +1,214 @@
+/**
+ * Tests for client-side embeddings: embedder adapters, the cache, and
+ * QortexVector.upsertText / queryText against the in-memory stand-in.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  embedderId,
+  embedTexts,
+  QortexMemoryEmbeddingCache,
+  toEmbedFn,
+  type QortexEmbedFn,
+  type QortexEmbeddingModel,
+} from "../src/embed.js";
+import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+import {
+  QortexDimensionMismatchError,
+  QortexEmbedderMissingError,
+  QortexValidationError,
+} from "../src/errors.js";
+
+/** Deterministic 2-d embedding: [length, vowel count]. */
+function fakeEmbedding(text: string): number[] {
+  return [text.length, (text.match(/[aeiou]/g) ?? []).length];
+}
+
+describe("embedding helpers", () => {
+  it("calls AI SDK models in chunks of maxEmbeddingsPerCall", async () => {
+    const model: QortexEmbeddingModel = {
+      maxEmbeddingsPerCall: Promise.resolve(2),
+      doEmbed: vi.fn(async ({ values }) => ({
+        embeddings: values.map(fakeEmbedding),
+      })),
+    };
+    const signal = new AbortController().signal;
+
+    const vectors = await toEmbedFn(model)(["a", "bb", "ccc"], { signal });
+
+    expect(vectors).toEqual([
+      [1, 1],
+      [2, 0],
+      [3, 0],
+    ]);
+    expect(model.doEmbed).toHaveBeenCalledTimes(2);
+    expect(model.doEmbed).toHaveBeenLastCalledWith({
+      values: ["ccc"],
+      abortSignal: signal,
+    });
+  });
+
+  it("embeds each distinct uncached text once", async () => {
+    const embed = vi.fn<QortexEmbedFn>(async (texts) =>
+      texts.map(fakeEmbedding),
+    );
+    const cache = new QortexMemoryEmbeddingCache(2);
+
+    const first = await embedTexts(embed, ["x", "yy", "x"], cache);
+    expect(first).toEqual({
+      vectors: [
+        [1, 0],
+        [2, 0],
+        [1, 0],
+      ],
+      cacheHits: 0,
+    });
+    expect(embed).toHaveBeenLastCalledWith(["x", "yy"], {});
+
+    const second = await embedTexts(embed, ["yy", "zzz"], cache);
+    expect(second.cacheHits).toBe(1);
+    expect(embed).toHaveBeenLastCalledWith(["zzz"], {});
+    // "x" was least recently used and got evicted
+    expect(cache.size).toBe(2);
+    expect((await embedTexts(embed, ["x"], cache)).cacheHits).toBe(0);
+
+    embed.mockResolvedValueOnce([]);
+    await expect(embedTexts(embed, ["new"], cache)).rejects.toThrow(
+      /returned 0 vectors for 1 texts/,
+    );
+    embed.mockResolvedValueOnce([]);
+    await expect(embedTexts(embed, ["new"], cache)).rejects.toBeInstanceOf(
+      QortexValidationError,
+    );
+  });
+
+  it("keeps each embedder's cached embeddings apart", async () => {
+    const embed = vi.fn<QortexEmbedFn>(async (texts) =>
+      texts.map(fakeEmbedding),
+    );
+    const cache = new QortexMemoryEmbeddingCache();
+
+    await embedTexts(embed, ["x"], cache, { namespace: "a" });
+    const other = await embedTexts(embed, ["x"], cache, { namespace: "b" });
+    const same = await embedTexts(embed, ["x"], cache, { namespace: "a" });
+
+    expect(other.cacheHits).toBe(0);
+    expect(same.cacheHits).toBe(1);
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(
+      embedderId({
+        provider: "openai",
+        modelId: "small",
+        doEmbed: embed,
+      } as QortexEmbeddingModel),
+    ).toBe("openai:small");
+    expect(embedderId(embed)).toBeUndefined();
+  });
+});
+
+describe("QortexVector text-first methods", () => {
+  const server = createQortexTestServer();
+  let embed: ReturnType<typeof vi.fn<QortexEmbedFn>>;
+  let qortex: QortexVector;
+
+  beforeEach(async () => {
+    embed = vi.fn<QortexEmbedFn>(async (texts) => texts.map(fakeEmbedding));
+    qortex = new QortexVector({
+      id: "embed",
+      transport: server.transport,
+      embedder: embed,
+    });
+    await qortex.createIndex({ indexName: "notes", dimension: 2 });
+  });
+
+  afterEach(async () => {
+    await qortex.deleteIndex({ indexName: "notes" });
+    await qortex.disconnect();
+  });
+
+  it("upserts and queries by text with the configured embedder", async () => {
+    const describeIndex = vi.spyOn(qortex, "describeIndex");
+
+    const ids = await qortex.upsertText({
+      indexName: "notes",
+      texts: ["rotate keys", "verify jwt audience"],
+      metadata: [{ topic: "keys" }, { topic: "jwt" }],
+      ids: ["n1", "n2"],
+    });
+    expect(ids).toEqual(["n1", "n2"]);
+    expect(server.indexes.get("notes")!.vectors.get("n2")).toEqual({
+      vector: fakeEmbedding("verify jwt audience"),
+      metadata: { topic: "jwt" },
+    });
+
+    const results = await qortex.queryText({
+      indexName: "notes",
+      text: "rotate keys",
+      topK: 1,
+      filter: { topic: "keys" },
+    });
+    expect(results.map((r) => r.id)).toEqual(["n1"]);
+
+    // The query text was embedded during upsert, and the dimension is known
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(describeIndex).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects embeddings that do not fit the index", async () => {
+    await qortex.deleteIndex({ indexName: "notes" });
+    await qortex.createIndex({ indexName: "notes", dimension: 3 });
+
+    const error = await qortex
+      .upsertText({ indexName: "notes", texts: ["too short"] })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(QortexDimensionMismatchError);
+    expect(error).toMatchObject({
+      tool: "qortex_vector_upsert",
+      argsSummary: { index_name: "notes" },
+    });
+    expect(server.indexes.get("notes")!.vectors.size).toBe(0);
+  });
+
+  it("requires an embedder", async () => {
+    const plain = new QortexVector({
+      id: "plain",
+      transport: server.transport,
+    });
+
+    const error = await plain
+      .queryText({ indexName: "notes", text: "keys" })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(QortexEmbedderMissingError);
+    expect(error).toMatchObject({
+      message: expect.stringMatching(/need an embedder/),
+      tool: "qortex_vector_query",
+    });
+    await plain.disconnect();
+  });
+
+  it("does not share cached embeddings between embedders", async () => {
+    const cache = new QortexMemoryEmbeddingCache();
+    const other = vi.fn<QortexEmbedFn>(async (texts) =>
+      texts.map(() => [0, 0]),
+    );
+    const stores = [embed, other, embed].map(
+      (embedder) =>
+        new QortexVector({
+          id: "shared",
+          transport: server.transport,
+          embedder,
+          embeddingCache: cache,
+          embedderId: embedder === embed ? "fake" : "other",
+        }),
+    );
+
+    for (const store of stores) {
+      await store.queryText({ indexName: "notes", text: "keys" });
+    }
+
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(other).toHaveBeenCalledTimes(1);
+    await Promise.all(stores.map((store) => store.disconnect()));
+  });
+});
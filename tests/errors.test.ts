@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the qortex error hierarchy and classification.
+ */
+
+import { describe, it, expect } from "vitest";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  QortexError,
+  QortexIndexNotFoundError,
+  QortexDomainNotFoundError,
+  QortexIntegrityError,
+  QortexDimensionMismatchError,
+  QortexInvalidFilterError,
+  QortexTransportError,
+  QortexTimeoutError,
+  QortexToolMissingError,
+  classifyServerError,
+  toQortexError,
+} from "../src/errors.js";
+
+describe("classifyServerError", () => {
+  it.each([
+    ["Index 'docs' not found", QortexIndexNotFoundError],
+    ["No such index: docs", QortexIndexNotFoundError],
+    ["Domain 'security' not found", QortexDomainNotFoundError],
+    ["Edge endpoints not found: sec:x", QortexIntegrityError],
+    ["Vector dimension 2 does not match index dimension 4", QortexDimensionMismatchError],
+    ["Unsupported filter operator: $regex", QortexInvalidFilterError],
+    ["Unknown tool: qortex_vector_update", QortexToolMissingError],
+    ["Something else broke", QortexError],
+    ["Failed to load filter config: permission denied", QortexError],
+    ["Reduced dimensionality cache unavailable", QortexError],
+    ["Rule engine crashed: config file not found", QortexError],
+    ["Index rebuild failed: disk full", QortexError],
+  ])("classifies %j", (message, ErrorClass) => {
+    const error = classifyServerError(message);
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.constructor).toBe(ErrorClass);
+    expect(error.message).toBe(message);
+  });
+
+  it("reads missing references from the payload", () => {
+    const error = classifyServerError("bad write", {
+      payload: { code: "missing_reference", missing: ["sec:x", "sec:y"] },
+    });
+    expect(error).toBeInstanceOf(QortexIntegrityError);
+    expect((error as QortexIntegrityError).missing).toEqual(["sec:x", "sec:y"]);
+  });
+
+  it("prefers a structured code over the message", () => {
+    const error = classifyServerError("lookup failed", {
+      payload: { error: "lookup failed", code: "index_not_found" },
+    });
+    expect(error).toBeInstanceOf(QortexIndexNotFoundError);
+  });
+
+  it("carries tool, argument summary and payload", () => {
+    const payload = { error: "Index 'docs' not found" };
+    const error = classifyServerError(payload.error, {
+      tool: "qortex_vector_upsert",
+      args: {
+        index_name: "docs",
+        vectors: [[1, 0], [0, 1]],
+        ids: ["a", "b"],
+        metadata: undefined,
+      },
+      payload,
+    });
+
+    expect(error.name).toBe("QortexIndexNotFoundError");
+    expect(error.tool).toBe("qortex_vector_upsert");
+    expect(error.argsSummary).toEqual({
+      index_name: "docs",
+      vectors: "[2 items]",
+      ids: ["a", "b"],
+    });
+    expect(error.payload).toBe(payload);
+    expect(error.retryable).toBe(false);
+  });
+});
+
+describe("toQortexError", () => {
+  it("maps SDK timeouts to QortexTimeoutError", () => {
+    const error = toQortexError(
+      new McpError(ErrorCode.RequestTimeout, "Request timed out"),
+      { tool: "qortex_query" },
+    );
+    expect(error).toBeInstanceOf(QortexTimeoutError);
+    expect(error.retryable).toBe(true);
+    expect(error.tool).toBe("qortex_query");
+  });
+
+  it("maps closed connections and pipe errors to QortexTransportError", () => {
+    expect(
+      toQortexError(new McpError(ErrorCode.ConnectionClosed, "Connection closed")),
+    ).toBeInstanceOf(QortexTransportError);
+    const pipe = toQortexError(new Error("write EPIPE"));
+    expect(pipe).toBeInstanceOf(QortexTransportError);
+    expect(pipe.retryable).toBe(true);
+    expect(pipe.cause).toBeInstanceOf(Error);
+  });
+
+  it("maps unknown methods to QortexToolMissingError", () => {
+    expect(
+      toQortexError(new McpError(ErrorCode.MethodNotFound, "Method not found")),
+    ).toBeInstanceOf(QortexToolMissingError);
+  });
+
+  it("passes QortexErrors through", () => {
+    const original = new QortexInvalidFilterError("bad filter");
+    expect(toQortexError(original)).toBe(original);
+  });
+});
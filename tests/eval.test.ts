@@ -0,0 +1,182 @@
+/**
+ * Tests for the retrieval evaluation harness: metric math and runs
+ * against the in-memory stand-in.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  compareEvalReports,
+  evaluateRetrieval,
+  formatEvalReport,
+  scoreRanking,
+  type QortexEvalDataset,
+} from "../src/eval.js";
+import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+import { QortexConfigError } from "../src/errors.js";
+
+describe("scoreRanking", () => {
+  it("computes recall, precision, MRR and nDCG at k", () => {
+    const metrics = scoreRanking(["x", "a", "y", "b"], ["a", "b", "c"], 4);
+
+    expect(metrics.recall).toBeCloseTo(2 / 3);
+    expect(metrics.precision).toBeCloseTo(2 / 4);
+    expect(metrics.mrr).toBeCloseTo(1 / 2);
+    const dcg = 1 / Math.log2(3) + 1 / Math.log2(5);
+    const ideal = 1 + 1 / Math.log2(3) + 1 / Math.log2(4);
+    expect(metrics.ndcg).toBeCloseTo(dcg / ideal);
+  });
+
+  it("ignores hits past k and repeated ids", () => {
+    expect(scoreRanking(["a", "a", "b"], ["a", "b"], 2)).toEqual({
+      recall: 0.5,
+      precision: 0.5,
+      mrr: 1,
+      ndcg: 1 / (1 + 1 / Math.log2(3)),
+    });
+    expect(scoreRanking([], ["a"], 5)).toEqual({
+      recall: 0,
+      precision: 0,
+      mrr: 0,
+      ndcg: 0,
+    });
+  });
+});
+
+describe("evaluateRetrieval", () => {
+  const server = createQortexTestServer();
+  let qortex: QortexVector;
+
+  const dataset: QortexEvalDataset = {
+    name: "auth",
+    cases: [
+      {
+        id: "jwt",
+        query: "JWT token signatures",
+        vector: [1, 0],
+        relevant: ["sec:jwt"],
+        domain: "security",
+      },
+      {
+        id: "breaker",
+        query: "circuit breaker for downstream failures",
+        relevant: ["infra:circuit-breaker"],
+        domain: "infra",
+      },
+    ],
+  };
+
+  beforeAll(async () => {
+    qortex = new QortexVector({ id: "eval", transport: server.transport });
+    await qortex.createIndex({ indexName: "docs", dimension: 2 });
+    await qortex.upsert({
+      indexName: "docs",
+      vectors: [
+        [0.9, 0.1],
+        [1, 0],
+      ],
+      ids: ["notes:1", "sec:jwt"],
+    });
+  });
+
+  afterAll(async () => {
+    await qortex.disconnect();
+  });
+
+  it("scores every mode overall and per domain", async () => {
+    const report = await evaluateRetrieval(qortex, dataset, {
+      k: 3,
+      indexName: "docs",
+    });
+
+    expect(report).toMatchObject({ dataset: "auth", k: 3 });
+    expect(Object.keys(report.modes)).toEqual([
+      "vec",
+      "graph",
+      "auto",
+      "vector",
+    ]);
+    const vec = report.modes.vec!;
+    expect(vec.cases.map((c) => c.caseId)).toEqual(["jwt", "breaker"]);
+    expect(vec.cases[0].retrieved[0]).toBe("sec:jwt");
+    expect(vec.overall).toMatchObject({ recall: 1, mrr: 1, cases: 2 });
+    expect(Object.keys(vec.byDomain)).toEqual(["security", "infra"]);
+
+    // Only cases with an embedding run in the "vector" mode
+    expect(report.modes.vector?.cases).toEqual([
+      {
+        caseId: "jwt",
+        domain: "security",
+        retrieved: ["sec:jwt", "notes:1"],
+        metrics: expect.objectContaining({ recall: 1, mrr: 1 }),
+      },
+    ]);
+    // Reports round-trip through JSON
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+
+  it("requires an index for the vector mode", async () => {
+    const run = evaluateRetrieval(qortex, dataset, { modes: ["vector"] });
+    await expect(run).rejects.toBeInstanceOf(QortexConfigError);
+    await expect(run).rejects.toThrow(/requires indexName/);
+  });
+
+  it("compares runs before and after feedback", async () => {
+    const labeled: QortexEvalDataset = {
+      name: "keys",
+      cases: [
+        {
+          query: "API keys and tokens",
+          relevant: ["sec:jwt"],
+          domain: "security",
+        },
+      ],
+    };
+    const before = await evaluateRetrieval(qortex, labeled, {
+      k: 3,
+      modes: ["vec"],
+    });
+
+    const { query_id } = await qortex.textQuery("API keys and tokens", {
+      mode: "vec",
+    });
+    await qortex.feedback(query_id, {
+      "sec:jwt": "accepted",
+      "sec:api-keys": "rejected",
+    });
+    const after = await evaluateRetrieval(qortex, labeled, {
+      k: 3,
+      modes: ["vec"],
+    });
+
+    const comparison = compareEvalReports(before, after);
+    expect(comparison.modes.vec?.byDomain.security.mrr).toEqual({
+      before: expect.closeTo(1 / 3),
+      after: 0.5,
+      delta: expect.closeTo(1 / 6),
+    });
+  });
+
+  it("formats a markdown report with changes since a baseline", async () => {
+    const before = await evaluateRetrieval(qortex, dataset, {
+      k: 3,
+      modes: ["vec", "graph"],
+    });
+    const after = structuredClone(before);
+    after.modes.vec!.overall.recall = 0.25;
+    after.modes.vec!.byDomain.infra.recall = 0;
+
+    const markdown = formatEvalReport(after, before);
+
+    expect(markdown).toContain("# Retrieval evaluation: auth");
+    expect(markdown).toContain(
+      "| Mode | Recall@3 | Precision@3 | MRR | nDCG@3 | Cases |",
+    );
+    expect(markdown).toMatch(
+      /\| vec \| 0\.250 \(-0\.750\) \| [\d.]+ \(\+0\.000\) \|/,
+    );
+    expect(markdown).toContain("### infra");
+    expect(markdown).toContain("### security");
+    expect(formatEvalReport(before)).not.toContain("(+");
+  });
+});
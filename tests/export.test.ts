@@ -0,0 +1,189 @@
+/**
+ * Tests for the DOT, Mermaid, GraphML and JSON-LD graph exporters.
+ */
+
+import { describe, it, expect } from "vitest";
+import { toDot, toGraphML, toJsonLd, toMermaid } from "../src/export.js";
+import type { ExploreResult } from "../src/types.js";
+
+const explored: ExploreResult = {
+  node: {
+    id: "sec:oauth",
+    name: "OAuth2",
+    description: "Delegated authorization",
+    domain: "security",
+    confidence: 1,
+    properties: {},
+  },
+  neighbors: [
+    {
+      id: "sec:jwt",
+      name: 'JWT "tokens"',
+      description: "Signed <claims> & more",
+      domain: "security",
+      confidence: 0.9,
+      properties: {},
+    },
+    {
+      id: "infra:gateway",
+      name: "API gateway",
+      description: "Edge proxy",
+      domain: "infra",
+      confidence: 1,
+      properties: {},
+    },
+  ],
+  edges: [
+    {
+      source_id: "sec:oauth",
+      target_id: "sec:jwt",
+      relation_type: "uses",
+      confidence: 0.9,
+      properties: {},
+    },
+    {
+      source_id: "infra:gateway",
+      target_id: "sec:oauth",
+      relation_type: "enforces",
+      confidence: 0.75,
+      properties: {},
+    },
+    {
+      source_id: "sec:oauth",
+      target_id: "sec:outside",
+      relation_type: "uses",
+      confidence: 1,
+      properties: {},
+    },
+  ],
+  rules: [
+    {
+      id: "rule:verify",
+      text: "Verify JWT signatures",
+      domain: "security",
+      category: "security",
+      confidence: 1,
+      relevance: 0,
+      derivation: "explicit",
+      source_concepts: ["sec:jwt", "sec:oauth"],
+      metadata: {},
+    },
+    {
+      id: "rule:elsewhere",
+      text: "Not linked to this neighborhood",
+      domain: "security",
+      category: null,
+      confidence: 1,
+      relevance: 0,
+      derivation: "explicit",
+      source_concepts: ["sec:other"],
+      metadata: {},
+    },
+  ],
+};
+
+describe("toMermaid", () => {
+  it("groups nodes by domain and labels edges", () => {
+    expect(toMermaid(explored)).toBe(
+      [
+        "flowchart LR",
+        '  subgraph d0["security"]',
+        '    n0["OAuth2"]',
+        '    n1["JWT #quot;tokens#quot;"]',
+        "  end",
+        '  subgraph d1["infra"]',
+        '    n2["API gateway"]',
+        "  end",
+        '  n0 -->|"uses (0.90)"| n1',
+        '  n2 -->|"enforces (0.75)"| n0',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("annotates with linked rules on request", () => {
+    const mermaid = toMermaid(explored, { includeRules: true });
+    expect(mermaid).toContain(
+      '  r0>"Verify JWT signatures"]\n  r0 -.- n1\n  r0 -.- n0',
+    );
+    expect(mermaid).not.toContain("Not linked");
+  });
+});
+
+describe("toDot", () => {
+  it("emits one cluster per domain with labelled edges", () => {
+    const dot = toDot(explored, { name: "oauth", includeRules: true });
+
+    expect(dot).toMatch(/^digraph "oauth" \{/);
+    expect(dot).toContain(
+      '  subgraph cluster_0 {\n    label="security";\n    n0 [label="OAuth2"];\n    n1 [label="JWT \\"tokens\\""];\n  }',
+    );
+    expect(dot).toContain('  n2 -> n0 [label="enforces (0.75)"];');
+    expect(dot).toContain('  r0 [shape=note, label="Verify JWT signatures"];');
+    expect(dot).toContain("  r0 -> n1 [style=dashed, arrowhead=none];");
+    // Edges to nodes outside the export are dropped
+    expect(dot).not.toContain("sec:outside");
+    expect(dot.match(/ -> n/g)).toHaveLength(4);
+  });
+});
+
+describe("toGraphML", () => {
+  it("nests concepts in domain groups and escapes XML", () => {
+    const graphml = toGraphML(explored, { includeRules: true });
+
+    expect(graphml).toContain('<node id="domain:infra">');
+    expect(graphml).toContain(
+      '<node id="sec:jwt"><data key="kind">concept</data><data key="name">JWT &quot;tokens&quot;</data><data key="description">Signed &lt;claims&gt; &amp; more</data>',
+    );
+    expect(graphml).toContain(
+      '<edge source="sec:oauth" target="sec:jwt"><data key="relation_type">uses</data><data key="confidence">0.9</data></edge>',
+    );
+    expect(graphml).toContain('<data key="kind">rule</data>');
+    expect(graphml).toContain(
+      '<edge source="rule:verify" target="sec:oauth"><data key="relation_type">annotates</data></edge>',
+    );
+    expect(graphml.match(/<node /g)).toHaveLength(6);
+    expect(graphml.trim().endsWith("</graphml>")).toBe(true);
+  });
+});
+
+describe("toJsonLd", () => {
+  it("describes domains, concepts, relations and rules", () => {
+    const doc = toJsonLd(
+      {
+        nodes: [explored.node, ...explored.neighbors],
+        edges: explored.edges,
+        rules: explored.rules,
+      },
+      { includeRules: true },
+    );
+    const graph = doc["@graph"] as Array<Record<string, unknown>>;
+
+    expect(doc["@context"]).toHaveProperty("@vocab");
+    expect(graph.filter((r) => r["@type"] === "Domain")).toHaveLength(2);
+    expect(graph.find((r) => r["@id"] === "sec:jwt")).toMatchObject({
+      "@type": "Concept",
+      domain: "domain:security",
+      confidence: 0.9,
+    });
+    expect(graph.filter((r) => r["@type"] === "Relation")).toEqual([
+      expect.objectContaining({ source: "sec:oauth", relationType: "uses" }),
+      expect.objectContaining({ source: "infra:gateway", confidence: 0.75 }),
+    ]);
+    expect(graph.find((r) => r["@type"] === "Rule")).toEqual({
+      "@id": "rule:verify",
+      "@type": "Rule",
+      text: "Verify JWT signatures",
+      category: "security",
+      confidence: 1,
+      annotates: ["sec:jwt", "sec:oauth"],
+    });
+  });
+
+  it("leaves rules out unless requested", () => {
+    const graph = toJsonLd(explored)["@graph"] as Array<
+      Record<string, unknown>
+    >;
+    expect(graph.some((r) => r["@type"] === "Rule")).toBe(false);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Tests for the buffered, file-backed feedback queue.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  QortexFeedbackBuffer,
+  type QortexFeedbackSink,
+} from "../src/feedback.js";
+import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+import { QortexTransportError, QortexValidationError } from "../src/errors.js";
+
+const NO_DELAY = { initialDelayMs: 0, jitter: 0 };
+
+describe("QortexFeedbackBuffer", () => {
+  let tmp: string;
+  let sink: ReturnType<typeof vi.fn<QortexFeedbackSink["feedback"]>>;
+
+  beforeEach(() => {
+    tmp = mkdtempSync(join(tmpdir(), "qortex-feedback-"));
+    sink = vi.fn<QortexFeedbackSink["feedback"]>(
+      async (queryId, outcomes, source = "mastra") => ({
+        status: "recorded",
+        query_id: queryId,
+        outcome_count: Object.keys(outcomes).length,
+        source,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(tmp, { recursive: true, force: true });
+  });
+
+  function lines(path: string): Array<Record<string, unknown>> {
+    return readFileSync(path, "utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  }
+
+  it("coalesces outcomes per query and sends them in one call", async () => {
+    const buffer = new QortexFeedbackBuffer({ feedback: sink });
+
+    buffer.add("q1", { a: "accepted", b: "rejected" });
+    buffer.add("q1", { b: "accepted" });
+    buffer.add("q2", { c: "partial" }, "eval");
+    expect(buffer.stats).toMatchObject({ pending: 2, sent: 0 });
+    expect(sink).not.toHaveBeenCalled();
+
+    expect(await buffer.flush()).toEqual({ sent: 2, failed: 0, pending: 0 });
+    expect(sink.mock.calls.map((c) => c.slice(0, 3))).toEqual([
+      ["q1", { a: "accepted", b: "accepted" }, "mastra"],
+      ["q2", { c: "partial" }, "eval"],
+    ]);
+    expect(buffer.stats).toMatchObject({ pending: 0, sent: 2 });
+    expect(buffer.stats.lastFlushAt).not.toBeNull();
+  });
+
+  it("flushes early once flushAt entries are pending", async () => {
+    const buffer = new QortexFeedbackBuffer({ feedback: sink }, { flushAt: 2 });
+    const flushed = new Promise((resolve) => buffer.once("flushed", resolve));
+
+    buffer.add("q1", { a: "accepted" });
+    expect(sink).not.toHaveBeenCalled();
+    buffer.add("q2", { b: "accepted" });
+
+    expect(await flushed).toEqual({ sent: 2, failed: 0, pending: 0 });
+  });
+
+  it("persists pending entries across restarts", async () => {
+    const path = join(tmp, "nested", "feedback.jsonl");
+    const offline = vi
+      .fn<QortexFeedbackSink["feedback"]>()
+      .mockRejectedValue(new QortexTransportError("server down"));
+
+    const first = new QortexFeedbackBuffer(
+      { feedback: offline },
+      { path, flushIntervalMs: 0, retry: NO_DELAY },
+    );
+    await first.start();
+    first.add("q1", { a: "accepted" });
+    first.add("q1", { b: "rejected" });
+    await first.close();
+    expect(offline).toHaveBeenCalledTimes(1);
+    expect(lines(path)).toEqual([
+      expect.objectContaining({
+        queryId: "q1",
+        outcomes: { a: "accepted", b: "rejected" },
+        attempts: 1,
+        lastError: "server down",
+        state: "pending",
+      }),
+    ]);
+
+    // A crash mid-append leaves a torn line; it is skipped on load
+    writeFileSync(path, readFileSync(path, "utf8") + '{"queryId":"q2","ou');
+
+    const second = new QortexFeedbackBuffer(
+      { feedback: sink },
+      { path, flushIntervalMs: 0 },
+    );
+    await second.start();
+    expect(second.stats.pending).toBe(1);
+    await second.flush();
+    await second.close();
+
+    expect(sink).toHaveBeenCalledWith(
+      "q1",
+      { a: "accepted", b: "rejected" },
+      "mastra",
+      undefined,
+    );
+    expect(readFileSync(path, "utf8")).toBe("");
+  });
+
+  it("retries transient failures and gives up on permanent ones", async () => {
+    const path = join(tmp, "feedback.jsonl");
+    const flaky = vi
+      .fn<QortexFeedbackSink["feedback"]>()
+      .mockRejectedValueOnce(new QortexTransportError("pipe closed"))
+      .mockRejectedValueOnce(new QortexValidationError("bad response"))
+      .mockImplementation(sink);
+    const buffer = new QortexFeedbackBuffer(
+      { feedback: flaky },
+      { path, flushIntervalMs: 0, concurrency: 1, retry: NO_DELAY },
+    );
+    const failed = vi.fn();
+    buffer.on("failed", failed);
+    await buffer.start();
+
+    buffer.add("q1", { a: "accepted" });
+    buffer.add("q2", { b: "rejected" });
+    expect(await buffer.flush()).toEqual({ sent: 0, failed: 1, pending: 1 });
+    expect(failed).toHaveBeenCalledWith({
+      entry: expect.objectContaining({ queryId: "q2", attempts: 1 }),
+      error: expect.any(QortexValidationError),
+    });
+    expect(buffer.stats).toMatchObject({ pending: 1, failed: 1 });
+    expect(buffer.stats.lastError).toBeInstanceOf(QortexValidationError);
+
+    expect(await buffer.flush()).toEqual({ sent: 1, failed: 0, pending: 0 });
+    expect(buffer.failedEntries()).toEqual([
+      expect.objectContaining({ queryId: "q2", lastError: "bad response" }),
+    ]);
+    await buffer.close();
+    expect(lines(path)).toEqual([
+      expect.objectContaining({ queryId: "q2", state: "failed" }),
+    ]);
+
+    // Failed entries survive a restart and can be sent again on request
+    const restarted = new QortexFeedbackBuffer(
+      { feedback: sink },
+      { path, flushIntervalMs: 0 },
+    );
+    await restarted.start();
+    expect(restarted.stats).toMatchObject({ pending: 0, failed: 1 });
+    expect(restarted.retryFailed()).toBe(1);
+    expect(await restarted.flush()).toMatchObject({ sent: 1 });
+    await restarted.close();
+  });
+
+  it("moves entries to the failed list after maxAttempts", async () => {
+    const down = vi
+      .fn<QortexFeedbackSink["feedback"]>()
+      .mockRejectedValue(new QortexTransportError("server down"));
+    const buffer = new QortexFeedbackBuffer(
+      { feedback: down },
+      { retry: { ...NO_DELAY, maxAttempts: 2 } },
+    );
+
+    buffer.add("q1", { a: "accepted" });
+    expect(await buffer.flush()).toEqual({ sent: 0, failed: 0, pending: 1 });
+    expect(await buffer.flush()).toEqual({ sent: 0, failed: 1, pending: 0 });
+    expect(down).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits out the backoff before retrying", async () => {
+    const down = vi
+      .fn<QortexFeedbackSink["feedback"]>()
+      .mockRejectedValue(new QortexTransportError("server down"));
+    const buffer = new QortexFeedbackBuffer(
+      { feedback: down },
+      { retry: { initialDelayMs: 60_000, jitter: 0 } },
+    );
+
+    buffer.add("q1", { a: "accepted" });
+    await buffer.flush();
+    expect(await buffer.flush()).toEqual({ sent: 0, failed: 0, pending: 1 });
+    expect(down).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps outcomes added while an entry was in flight", async () => {
+    let fail!: (error: Error) => void;
+    const slow = vi
+      .fn<QortexFeedbackSink["feedback"]>()
+      .mockImplementationOnce(() => new Promise((_, reject) => (fail = reject)))
+      .mockImplementation(sink);
+    const buffer = new QortexFeedbackBuffer(
+      { feedback: slow },
+      { retry: NO_DELAY },
+    );
+
+    buffer.add("q1", { a: "accepted", b: "accepted" });
+    const flushing = buffer.flush();
+    expect(buffer.stats).toMatchObject({ pending: 1, inFlight: 1 });
+    buffer.add("q1", { b: "rejected" });
+    fail(new QortexTransportError("pipe closed"));
+    await flushing;
+
+    await buffer.flush();
+    expect(slow).toHaveBeenLastCalledWith(
+      "q1",
+      { a: "accepted", b: "rejected" },
+      "mastra",
+      undefined,
+    );
+  });
+
+  it("drops the oldest entries beyond maxPending", () => {
+    const buffer = new QortexFeedbackBuffer(
+      { feedback: sink },
+      { maxPending: 2 },
+    );
+    const dropped = vi.fn();
+    buffer.on("dropped", dropped);
+
+    buffer.add("q1", { a: "accepted" });
+    buffer.add("q2", { b: "accepted" });
+    buffer.add("q3", { c: "accepted" });
+
+    expect(buffer.stats).toMatchObject({ pending: 2, dropped: 1 });
+    expect(dropped).toHaveBeenCalledWith({
+      entry: expect.objectContaining({ queryId: "q1" }),
+    });
+  });
+
+  it("keeps newer pending outcomes over a failed line for the same query", async () => {
+    const path = join(tmp, "feedback.jsonl");
+    const entry = { queryId: "q1", source: "mastra", attempts: 0, addedAt: 1 };
+    writeFileSync(
+      path,
+      [
+        { ...entry, outcomes: { b: "rejected" }, state: "pending" },
+        { ...entry, outcomes: { a: "accepted", b: "accepted" }, state: "failed" },
+      ]
+        .map((line) => JSON.stringify(line) + "\n")
+        .join(""),
+    );
+
+    const buffer = new QortexFeedbackBuffer(
+      { feedback: sink },
+      { path, flushIntervalMs: 0 },
+    );
+    await buffer.start();
+    expect(buffer.stats).toMatchObject({ pending: 1, failed: 0 });
+    await buffer.flush();
+    await buffer.close();
+    expect(sink).toHaveBeenCalledWith(
+      "q1",
+      { a: "accepted", b: "rejected" },
+      "mastra",
+      undefined,
+    );
+  });
+
+  it("removes dropped entries from the file", async () => {
+    const path = join(tmp, "feedback.jsonl");
+    const first = new QortexFeedbackBuffer(
+      { feedback: sink },
+      { path, flushIntervalMs: 0, maxPending: 2 },
+    );
+    await first.start();
+    first.add("q1", { a: "accepted" });
+    first.add("q2", { b: "accepted" });
+    first.add("q3", { c: "accepted" });
+    // Never flushed or closed, as after a crash
+    await vi.waitFor(() =>
+      expect(lines(path).map((line) => line.queryId)).toEqual(["q2", "q3"]),
+    );
+
+    const second = new QortexFeedbackBuffer(
+      { feedback: sink },
+      { path, flushIntervalMs: 0, maxPending: 10 },
+    );
+    await second.start();
+    expect(second.stats).toMatchObject({ pending: 2, dropped: 0 });
+    await second.close();
+  });
+
+  it("delivers to a QortexVector", async () => {
+    const server = createQortexTestServer();
+    const qortex = new QortexVector({
+      id: "feedback-buffer",
+      transport: server.transport,
+    });
+    await qortex.connect();
+    const buffer = new QortexFeedbackBuffer(qortex);
+
+    const { query_id, items } = await qortex.textQuery("jwt");
+    buffer.add(query_id, { [items[0].id]: "accepted" });
+    await buffer.close();
+
+    expect(server.feedback).toEqual([
+      {
+        queryId: query_id,
+        outcomes: { [items[0].id]: "accepted" },
+        source: "mastra",
+      },
+    ]);
+    await qortex.disconnect();
+  });
+});
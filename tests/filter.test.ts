@@ -0,0 +1,220 @@
+/**
+ * Unit tests for Mongo-style metadata filter evaluation and for
+ * translating filters to the qortex server's operator set.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { matchesFilter, QortexFilterTranslator } from "../src/filter.js";
+import { QortexVector } from "../src/vector.js";
+import { QortexInvalidFilterError } from "../src/errors.js";
+
+const doc = {
+  category: "auth",
+  views: 42,
+  tags: ["oauth", "jwt"],
+  published: "2025-03-01",
+  author: { name: "Ada", team: "platform" },
+  reviews: [
+    { score: 4, by: "bob" },
+    { score: 2, by: "eve" },
+  ],
+};
+
+describe("matchesFilter", () => {
+  it.each([
+    [{}, true],
+    [{ category: "auth" }, true],
+    [{ category: "infra" }, false],
+    [{ tags: "jwt" }, true],
+    [{ "author.team": "platform" }, true],
+    [{ views: { $gt: 40, $lte: 42 } }, true],
+    [{ views: { $lt: 10 } }, false],
+    [{ published: { $gte: "2025-01-01" } }, true],
+    [{ views: { $gt: "10" } }, false],
+    [{ category: { $ne: "infra" } }, true],
+    [{ category: { $in: ["auth", "infra"] } }, true],
+    [{ tags: { $nin: ["saml"] } }, true],
+    [{ tags: { $all: ["jwt", "oauth"] } }, true],
+    [{ tags: { $all: ["jwt", "saml"] } }, false],
+    [{ reviews: { $elemMatch: { score: { $gte: 4 }, by: "bob" } } }, true],
+    [{ reviews: { $elemMatch: { score: 5 } } }, false],
+    [{ missing: { $exists: false } }, true],
+    [{ category: { $exists: true } }, true],
+    [{ "author.name": { $regex: "^ad", $options: "i" } }, true],
+    [{ views: { $not: { $gt: 100 } } }, true],
+    [{ $and: [{ category: "auth" }, { views: 42 }] }, true],
+    [{ $or: [{ category: "infra" }, { views: 42 }] }, true],
+    [{ $nor: [{ category: "infra" }, { views: 1 }] }, true],
+    [{ $not: { category: "auth" } }, false],
+  ])("%j → %s", (filter, expected) => {
+    expect(matchesFilter(doc, filter)).toBe(expected);
+  });
+
+  it("treats a missing filter as match-all", () => {
+    expect(matchesFilter(doc, undefined)).toBe(true);
+    expect(matchesFilter(undefined, { category: "auth" })).toBe(false);
+  });
+
+  it("rejects unknown operators and malformed operands", () => {
+    expect(() => matchesFilter(doc, { views: { $near: 1 } })).toThrow(
+      QortexInvalidFilterError,
+    );
+    expect(() => matchesFilter(doc, { $or: { category: "auth" } })).toThrow(
+      /\$or expects an array/,
+    );
+    expect(() => matchesFilter(doc, { tags: { $in: "jwt" } })).toThrow(
+      QortexInvalidFilterError,
+    );
+  });
+});
+
+describe("QortexFilterTranslator", () => {
+  const translator = new QortexFilterTranslator();
+
+  it("normalizes shorthand, dates and multi-field conditions", () => {
+    expect(
+      translator.translate({
+        category: "auth",
+        published: new Date("2025-03-01T00:00:00Z"),
+      }),
+    ).toEqual({
+      $and: [
+        { category: { $eq: "auth" } },
+        { published: { $eq: "2025-03-01T00:00:00.000Z" } },
+      ],
+    });
+    expect(translator.translate({ views: { $gt: 1 } })).toEqual({
+      views: { $gt: 1 },
+    });
+    expect(translator.translate({})).toBeUndefined();
+    expect(translator.translate(undefined)).toBeUndefined();
+  });
+
+  it("rejects operators the server lacks with their path", () => {
+    const error = (() => {
+      try {
+        translator.translate({
+          category: "auth",
+          $or: [{ tags: "jwt" }, { views: { $gte: 10 } }],
+        });
+      } catch (err) {
+        return err;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(QortexInvalidFilterError);
+    expect((error as QortexInvalidFilterError).path).toBe(
+      "$or.1.views.$gte",
+    );
+    expect((error as Error).message).toMatch(
+      /Unsupported filter operator \$gte/,
+    );
+  });
+
+  it("reports paths in the filter as written", () => {
+    const pathOf = (filter: Record<string, unknown>) => {
+      try {
+        translator.translate(filter);
+      } catch (err) {
+        return (err as QortexInvalidFilterError).path;
+      }
+    };
+
+    expect(
+      pathOf({ $or: [{ tags: "jwt", views: { $lte: 3 } }, { a: 1 }] }),
+    ).toBe("$or.0.views.$lte");
+    expect(pathOf({ category: "auth", tags: /^j/ })).toBe("tags");
+    expect(() => translator.translate({ tags: /^j/ })).toThrow(
+      /Unsupported filter operator \$regex at tags/,
+    );
+  });
+
+  it("rejects unknown operators before checking server support", () => {
+    expect(() => translator.translate({ views: { $near: 1 } })).toThrow(
+      /Unknown filter operator \$near \(at views.\$near\)/,
+    );
+  });
+
+  it("splits unsupported conditions off for post-filtering", () => {
+    expect(
+      translator.split({ category: "auth", views: { $gte: 10 }, tags: /^j/ }),
+    ).toEqual({
+      server: { category: { $eq: "auth" } },
+      client: {
+        $and: [{ views: { $gte: 10 } }, { tags: { $regex: "^j" } }],
+      },
+    });
+    expect(translator.split({ category: "auth" }).client).toBeUndefined();
+  });
+});
+
+describe("QortexVector filter modes", () => {
+  const results = [
+    { id: "a", score: 0.9, metadata: { views: 5 } },
+    { id: "b", score: 0.8, metadata: { views: 50 } },
+    { id: "c", score: 0.7, metadata: { views: 500 } },
+  ];
+
+  function store(filterMode: "strict" | "post-filter" | "off") {
+    const callTool = vi.fn(async () => ({
+      content: [{ type: "text", text: JSON.stringify({ results }) }],
+    }));
+    const qortex = new QortexVector({
+      id: "filters",
+      mcpClient: { callTool } as unknown as Client,
+      filterMode,
+    });
+    return { qortex, callTool };
+  }
+
+  it("rejects unsupported operators in strict mode without calling the server", async () => {
+    const { qortex, callTool } = store("strict");
+    await expect(
+      qortex.query({
+        indexName: "docs",
+        queryVector: [1, 0],
+        filter: { views: { $gte: 10 } },
+      }),
+    ).rejects.toBeInstanceOf(QortexInvalidFilterError);
+    expect(callTool).not.toHaveBeenCalled();
+  });
+
+  it("over-fetches and filters results locally in post-filter mode", async () => {
+    const { qortex, callTool } = store("post-filter");
+
+    const found = await qortex.query({
+      indexName: "docs",
+      queryVector: [1, 0],
+      topK: 1,
+      filter: { kind: "doc", views: { $gte: 10 } },
+    });
+
+    expect(found.map((r) => r.id)).toEqual(["b"]);
+    expect(callTool.mock.calls[0][0]).toMatchObject({
+      arguments: { top_k: 4, filter: { kind: { $eq: "doc" } } },
+    });
+  });
+
+  it("keeps updates strict in post-filter mode", async () => {
+    const { qortex } = store("post-filter");
+    await expect(
+      qortex.deleteVectors({
+        indexName: "docs",
+        filter: { views: { $gte: 10 } },
+      }),
+    ).rejects.toThrow(/\$gte at views.\$gte/);
+  });
+
+  it("sends filters untouched when off", async () => {
+    const { qortex, callTool } = store("off");
+    await qortex.query({
+      indexName: "docs",
+      queryVector: [1, 0],
+      filter: { views: { $gte: 10 } },
+    });
+    expect(callTool.mock.calls[0][0]).toMatchObject({
+      arguments: { filter: { views: { $gte: 10 } } },
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Minimal qortex stand-in served over stdio, used to exercise
+ * subprocess supervision. The `crash` tool kills the process.
+ *
+ * If STANDIN_CRASHED_MARKER is set, the process writes that file when it
+ * crashes and refuses to start while it exists (simulates a server that
+ * cannot come back up). STANDIN_BROKEN_MARKER works the same way, except
+ * the restarted process starts but fails tools/list.
+ */
+
+import { existsSync, writeFileSync } from "node:fs";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+
+const marker = process.env.STANDIN_CRASHED_MARKER;
+if (marker && existsSync(marker)) {
+  process.exit(1);
+}
+
+const server = new McpServer({ name: "qortex-stand-in", version: "0.0.0" });
+
+server.registerTool("qortex_vector_list_indexes", {}, async () => ({
+  content: [
+    { type: "text", text: JSON.stringify({ indexes: [], pid: process.pid }) },
+  ],
+}));
+
+const broken = process.env.STANDIN_BROKEN_MARKER;
+
+server.registerTool("crash", {}, async () => {
+  if (marker) writeFileSync(marker, "crashed");
+  if (broken) writeFileSync(broken, "crashed");
+  setTimeout(() => process.exit(1), 10);
+  return { content: [{ type: "text", text: "{}" }] };
+});
+
+if (broken && existsSync(broken)) {
+  server.server.setRequestHandler(ListToolsRequestSchema, () => {
+    throw new Error("tool registry unavailable");
+  });
+}
+
+await server.connect(new StdioServerTransport());
@@ -0,0 +1,150 @@
+/**
+ * Tests for hybrid retrieval: rank fusion and QortexVector.hybridQuery
+ * against the in-memory stand-in.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { fuseResults } from "../src/hybrid.js";
+import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+import type { QortexQueryItem } from "../src/types.js";
+
+function graphItem(id: string, score: number): QortexQueryItem {
+  return {
+    id,
+    content: `${id} content`,
+    score,
+    domain: "security",
+    node_id: id,
+    metadata: { from: "graph", node: id },
+  };
+}
+
+describe("fuseResults", () => {
+  const vector = [
+    { id: "a", score: 0.9, metadata: { from: "vector" } },
+    { id: "b", score: 0.5 },
+    { id: "c", score: 0.1 },
+  ];
+  const graph = [graphItem("b", 3), graphItem("d", 2), graphItem("a", 1)];
+
+  it("ranks hits found by both retrievers first under RRF", () => {
+    const fused = fuseResults(vector, graph);
+
+    expect(fused.map((r) => r.id)).toEqual(["b", "a", "d", "c"]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[0]).toMatchObject({
+      sources: ["vector", "graph"],
+      scores: { vector: 0.5, graph: 3 },
+      item_id: "b",
+      node_id: "b",
+      content: "b content",
+      domain: "security",
+    });
+    expect(fused.find((r) => r.id === "d")?.sources).toEqual(["graph"]);
+    expect(fused.find((r) => r.id === "c")?.sources).toEqual(["vector"]);
+  });
+
+  it("overlays vector metadata on graph metadata", () => {
+    const [, a] = fuseResults(vector, graph);
+    expect(a.metadata).toEqual({ from: "vector", node: "a" });
+  });
+
+  it("normalizes scores per retriever under weighted fusion", () => {
+    const fused = fuseResults(vector, graph, {
+      fusion: "weighted",
+      weights: { vector: 1, graph: 0.5 },
+    });
+
+    // a: 1 + 0.5 * 0, b: 0.5 + 0.5 * 1, d: 0.5 * 0.5, c: 0
+    expect(fused.map((r) => [r.id, r.score])).toEqual([
+      ["a", 1],
+      ["b", 1],
+      ["d", 0.25],
+      ["c", 0],
+    ]);
+  });
+
+  it("matches graph items by id when node_id differs", () => {
+    const fused = fuseResults(
+      [{ id: "chunk-1", score: 1 }],
+      [{ ...graphItem("chunk-1", 1), node_id: "concept:x" }],
+    );
+    expect(fused).toHaveLength(1);
+    expect(fused[0]).toMatchObject({
+      id: "chunk-1",
+      item_id: "chunk-1",
+      node_id: "concept:x",
+      sources: ["vector", "graph"],
+    });
+  });
+
+  it("keeps the graph item id and node_id apart on graph-only hits", () => {
+    const [hit] = fuseResults(
+      [],
+      [{ ...graphItem("chunk:7", 1), node_id: "sec:jwt" }],
+    );
+    expect(hit).toMatchObject({
+      id: "sec:jwt",
+      item_id: "chunk:7",
+      node_id: "sec:jwt",
+    });
+  });
+
+  it("keeps the best-ranked copy of duplicates and honors topK", () => {
+    const fused = fuseResults(
+      [
+        { id: "a", score: 0.9 },
+        { id: "a", score: 0.2 },
+      ],
+      [graphItem("a", 1), graphItem("a", 0.5), graphItem("b", 0.4)],
+      { topK: 1 },
+    );
+    expect(fused).toHaveLength(1);
+    expect(fused[0].scores).toEqual({ vector: 0.9, graph: 1 });
+  });
+});
+
+describe("QortexVector.hybridQuery", () => {
+  const server = createQortexTestServer();
+  let qortex: QortexVector;
+
+  beforeAll(async () => {
+    qortex = new QortexVector({ id: "hybrid", transport: server.transport });
+    await qortex.createIndex({ indexName: "docs", dimension: 2 });
+    await qortex.upsert({
+      indexName: "docs",
+      vectors: [
+        [1, 0],
+        [0, 1],
+      ],
+      ids: ["sec:jwt", "notes:1"],
+      metadata: [{ source: "handbook" }, { source: "notes" }],
+    });
+  });
+
+  afterAll(async () => {
+    await qortex.disconnect();
+  });
+
+  it("fuses both retrievers and passes graph rules and query_id through", async () => {
+    const result = await qortex.hybridQuery({
+      indexName: "docs",
+      queryVector: [1, 0],
+      text: "JWT token validation",
+      topK: 5,
+    });
+
+    const jwt = result.results.find((r) => r.id === "sec:jwt");
+    expect(jwt?.sources).toEqual(["vector", "graph"]);
+    expect(jwt?.metadata.source).toBe("handbook");
+    expect(result.results[0].id).toBe("sec:jwt");
+    expect(result.results.some((r) => r.sources.join() === "vector")).toBe(
+      true,
+    );
+    expect(result.rules.map((r) => r.id)).toContain("rule:jwt-verify");
+
+    await qortex.feedback(result.query_id, { "sec:jwt": "accepted" });
+    expect(server.feedback.at(-1)?.queryId).toBe(result.query_id);
+  });
+});
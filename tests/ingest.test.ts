@@ -0,0 +1,313 @@
+/**
+ * Tests for chunking and incremental ingestion against the in-memory
+ * stand-in.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  chunkText,
+  QortexIngestor,
+  type QortexMDocumentLike,
+} from "../src/ingest.js";
+import type { QortexEmbedFn } from "../src/embed.js";
+import { QortexConfigError, QortexValidationError } from "../src/errors.js";
+import { QortexVector } from "../src/vector.js";
+import {
+  createQortexTestServer,
+  type QortexTestServer,
+} from "../src/testing.js";
+
+describe("chunkText", () => {
+  const text = [
+    "First paragraph about tokens.",
+    "Second paragraph. It has two sentences.",
+    "Third.",
+  ].join("\n\n");
+
+  it("packs paragraphs up to the size with overlap", () => {
+    expect(chunkText(text, { size: 50, overlap: 0 })).toEqual([
+      "First paragraph about tokens.",
+      "Second paragraph. It has two sentences.\n\nThird.",
+    ]);
+    const overlapping = chunkText(text, { size: 50, overlap: 40 });
+    expect(overlapping[1]).toMatch(/^Second paragraph\./);
+    expect(chunkText("a".repeat(25), { size: 10, overlap: 0 })).toEqual([
+      "a".repeat(10),
+      "a".repeat(10),
+      "a".repeat(5),
+    ]);
+    expect(
+      chunkText("abcdefgh", { strategy: "character", size: 4, overlap: 1 }),
+    ).toEqual(["abcd", "defg", "gh"]);
+    expect(chunkText("  whole  ", { strategy: "none" })).toEqual(["whole"]);
+  });
+
+  it("splits markdown at headings outside code fences", () => {
+    const markdown = [
+      "# Auth",
+      "Use JWT.",
+      "```",
+      "# not a heading",
+      "```",
+      "## Keys",
+      "Rotate them.",
+    ].join("\n");
+
+    expect(chunkText(markdown, { strategy: "markdown" })).toEqual([
+      "# Auth\nUse JWT.\n```\n# not a heading\n```",
+      "## Keys\nRotate them.",
+    ]);
+  });
+});
+
+describe("QortexIngestor", () => {
+  let server: QortexTestServer;
+  let qortex: QortexVector;
+  let tmp: string;
+  let embed: ReturnType<typeof vi.fn<QortexEmbedFn>>;
+
+  beforeEach(async () => {
+    server = createQortexTestServer();
+    qortex = new QortexVector({ id: "ingest", transport: server.transport });
+    await qortex.createIndex({ indexName: "docs", dimension: 2 });
+    tmp = mkdtempSync(join(tmpdir(), "qortex-ingest-"));
+    embed = vi.fn<QortexEmbedFn>(async (texts) =>
+      texts.map((t) => [t.length, 1]),
+    );
+  });
+
+  afterEach(async () => {
+    await qortex.disconnect();
+    rmSync(tmp, { recursive: true, force: true });
+  });
+
+  function stored() {
+    return server.indexes.get("docs")!.vectors;
+  }
+
+  function ingestor(overrides = {}) {
+    return new QortexIngestor(qortex, {
+      indexName: "docs",
+      embed,
+      chunk: { size: 40, overlap: 0 },
+      manifestPath: join(tmp, "manifest.json"),
+      root: tmp,
+      ...overrides,
+    });
+  }
+
+  it("upserts chunks with stable ids and provenance metadata", async () => {
+    const result = await ingestor().ingest([
+      {
+        source: "notes/auth.md",
+        text: "Verify JWT signatures.\n\nRotate API keys often.",
+        metadata: { team: "security" },
+      },
+    ]);
+
+    expect(result).toMatchObject({ added: 2, updated: 0, deleted: 0 });
+    expect(embed).toHaveBeenCalledTimes(1);
+    const vectors = [...stored().values()];
+    expect(vectors.map((v) => v.metadata)).toEqual([
+      {
+        team: "security",
+        source: "notes/auth.md",
+        chunkIndex: 0,
+        chunkCount: 2,
+        contentHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        text: "Verify JWT signatures.",
+      },
+      expect.objectContaining({
+        chunkIndex: 1,
+        text: "Rotate API keys often.",
+      }),
+    ]);
+    expect(vectors[0].vector).toEqual([22, 1]);
+
+    // Same content from the same source gets the same id
+    const again = new QortexIngestor(qortex, { indexName: "docs", embed });
+    await again.ingest([
+      { source: "notes/auth.md", text: "Verify JWT signatures." },
+    ]);
+    expect(stored().size).toBe(2);
+  });
+
+  it("re-ingests only what changed", async () => {
+    const chunk = { size: 6, overlap: 0 };
+    await ingestor({ chunk }).ingest([
+      { source: "a.md", text: "One.\n\nTwo.\n\nThree." },
+      { source: "b.md", text: "Bee." },
+    ]);
+    embed.mockClear();
+    const updateVector = vi.spyOn(qortex, "updateVector");
+
+    // A new ingestor reads the manifest written by the first
+    const result = await ingestor({ chunk }).ingest([
+      { source: "a.md", text: "Zero.\n\nOne.\n\nThree." },
+      { source: "b.md", text: "Bee.", metadata: { team: "ops" } },
+    ]);
+
+    expect(result.sources).toEqual([
+      {
+        source: "a.md",
+        chunks: 3,
+        added: 1,
+        updated: 1,
+        unchanged: 1,
+        deleted: 1,
+      },
+      {
+        source: "b.md",
+        chunks: 1,
+        added: 0,
+        updated: 1,
+        unchanged: 0,
+        deleted: 0,
+      },
+    ]);
+    expect(embed).toHaveBeenCalledWith(["Zero."], expect.anything());
+    // "One." moved from position 0 to 1; "b.md" got new metadata
+    expect(updateVector).toHaveBeenCalledTimes(2);
+    const texts = [...stored().values()]
+      .filter((v) => v.metadata.source === "a.md")
+      .map((v) => v.metadata.text)
+      .sort();
+    expect(texts).toEqual(["One.", "Three.", "Zero."]);
+    expect(
+      [...stored().values()].find((v) => v.metadata.source === "b.md")
+        ?.metadata.team,
+    ).toBe("ops");
+
+    const unchanged = await ingestor({ chunk }).ingest([
+      { source: "b.md", text: "Bee.", metadata: { team: "ops" } },
+    ]);
+    expect(unchanged).toMatchObject({ added: 0, updated: 0, unchanged: 1 });
+    updateVector.mockRestore();
+  });
+
+  it("embeds only an inserted chunk and updates the positions after it", async () => {
+    const chunk = { size: 6, overlap: 0 };
+    await ingestor({ chunk }).ingest([
+      { source: "a.md", text: "One.\n\nTwo.\n\nThree." },
+    ]);
+    const upsert = vi.spyOn(qortex, "upsert");
+    const updateVector = vi.spyOn(qortex, "updateVector");
+    const deleteVectors = vi.spyOn(qortex, "deleteVectors");
+
+    const result = await ingestor({ chunk }).ingest([
+      { source: "a.md", text: "Zero.\n\nOne.\n\nTwo.\n\nThree." },
+    ]);
+
+    expect(result).toMatchObject({ added: 1, updated: 3, unchanged: 0 });
+    expect(embed).toHaveBeenLastCalledWith(["Zero."], expect.anything());
+    expect(upsert).toHaveBeenCalledTimes(1);
+    expect(updateVector).toHaveBeenCalledTimes(3);
+    expect(deleteVectors).not.toHaveBeenCalled();
+    expect(
+      [...stored().values()]
+        .map((v) => [
+          v.metadata.chunkIndex,
+          v.metadata.chunkCount,
+          v.metadata.text,
+        ])
+        .sort(),
+    ).toEqual([
+      [0, 4, "Zero."],
+      [1, 4, "One."],
+      [2, 4, "Two."],
+      [3, 4, "Three."],
+    ]);
+    vi.restoreAllMocks();
+  });
+
+  it("ingests files from directories and prunes removed ones", async () => {
+    mkdirSync(join(tmp, "docs", "guides"), { recursive: true });
+    writeFileSync(join(tmp, "docs", "intro.md"), "# Intro\nHello.");
+    writeFileSync(join(tmp, "docs", "guides", "keys.txt"), "Rotate keys.");
+    writeFileSync(join(tmp, "docs", "logo.png"), "binary");
+
+    const first = await ingestor().ingestFiles(["docs"]);
+    expect(first.sources.map((s) => s.source)).toEqual([
+      "docs/guides/keys.txt",
+      "docs/intro.md",
+    ]);
+
+    rmSync(join(tmp, "docs", "intro.md"));
+    const second = await ingestor().ingestFiles(["docs"], { prune: true });
+    expect(second).toMatchObject({
+      removed: ["docs/intro.md"],
+      unchanged: 1,
+      deleted: 1,
+    });
+    expect(await ingestor().sources()).toEqual(["docs/guides/keys.txt"]);
+    expect(stored().size).toBe(1);
+
+    const removed = await ingestor().remove(["docs/guides/keys.txt", "nope"]);
+    expect(removed).toMatchObject({ removed: ["docs/guides/keys.txt"] });
+    expect(stored().size).toBe(0);
+  });
+
+  it("accepts MDocument-like inputs", async () => {
+    const doc: QortexMDocumentLike = {
+      getDocs: () => [
+        { text: "Part one.", metadata: { source: "guide.md", part: 1 } },
+        { text: "Part two.", metadata: { source: "guide.md", part: 2 } },
+      ],
+    };
+
+    const result = await ingestor().ingest([doc]);
+
+    expect(result.sources[0]).toMatchObject({ source: "guide.md", added: 2 });
+    expect([...stored().values()].map((v) => v.metadata.part)).toEqual([1, 2]);
+    await expect(
+      ingestor().ingest([{ getDocs: () => [{ text: "x", metadata: {} }] }]),
+    ).rejects.toThrow(/metadata\.source/);
+    await expect(
+      ingestor().ingest([{ getDocs: () => [{ text: "x", metadata: {} }] }]),
+    ).rejects.toBeInstanceOf(QortexConfigError);
+    await expect(
+      ingestor().ingest([
+        { source: "a.md", text: "x" },
+        { source: "a.md", text: "y" },
+      ]),
+    ).rejects.toBeInstanceOf(QortexConfigError);
+  });
+
+  it("keeps the manifest unchanged when a write fails", async () => {
+    const chunk = { size: 12, overlap: 0 };
+    const document = { source: "a.md", text: "Alpha one.\n\nBravo two." };
+    embed.mockResolvedValueOnce([[1, 1]]);
+    const error = await ingestor({ chunk })
+      .ingest([document])
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(QortexValidationError);
+    expect((error as Error).message).toMatch(/returned 1 vectors for 2 texts/);
+    expect(await ingestor().sources()).toEqual([]);
+
+    const retry = await ingestor({ chunk }).ingest([document]);
+    expect(retry.added).toBe(2);
+    const other = new QortexIngestor(qortex, {
+      indexName: "other",
+      embed,
+      manifestPath: join(tmp, "manifest.json"),
+    });
+    await expect(other.sources()).rejects.toThrow(/belongs to index "docs"/);
+    await expect(other.sources()).rejects.toBeInstanceOf(QortexConfigError);
+  });
+
+  it("reads the manifest again after a failed read", async () => {
+    const manifestPath = join(tmp, "manifest.json");
+    writeFileSync(manifestPath, "{ not json");
+    const ingest = ingestor();
+
+    await expect(ingest.sources()).rejects.toThrow(SyntaxError);
+    rmSync(manifestPath);
+
+    const result = await ingest.ingest([{ source: "a.md", text: "Alpha." }]);
+    expect(result.added).toBe(1);
+    expect(await ingest.sources()).toEqual(["a.md"]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for the middleware pipeline and built-in middlewares.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { QortexMcpClient } from "../src/client.js";
+import {
+  QortexIndexNotFoundError,
+  QortexTransportError,
+} from "../src/errors.js";
+import {
+  loggerMiddleware,
+  timingMiddleware,
+  type QortexCallContext,
+  type QortexCallTiming,
+} from "../src/middleware.js";
+
+function mockResponse(data: unknown) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data) }],
+  };
+}
+
+describe("QortexMcpClient middleware", () => {
+  let sdkCallTool: ReturnType<typeof vi.fn>;
+  let client: QortexMcpClient;
+
+  beforeEach(() => {
+    sdkCallTool = vi.fn();
+    client = new QortexMcpClient({
+      mcpClient: { callTool: sdkCallTool } as unknown as Client,
+      retry: { maxAttempts: 2, initialDelayMs: 1, jitter: 0 },
+    });
+  });
+
+  it("runs middlewares in registration order", async () => {
+    sdkCallTool.mockResolvedValue(mockResponse({ indexes: [] }));
+    const order: string[] = [];
+    client
+      .use(async (_ctx, next) => {
+        order.push("outer:before");
+        const result = await next();
+        order.push("outer:after");
+        return result;
+      })
+      .use(async (_ctx, next) => {
+        order.push("inner:before");
+        const result = await next();
+        order.push("inner:after");
+        return result;
+      });
+
+    await client.callTool("qortex_vector_list_indexes", {});
+
+    expect(order).toEqual([
+      "outer:before",
+      "inner:before",
+      "inner:after",
+      "outer:after",
+    ]);
+  });
+
+  it("exposes the parsed result and duration after next()", async () => {
+    sdkCallTool.mockResolvedValue(mockResponse({ indexes: ["docs"] }));
+    let seen: QortexCallContext | undefined;
+    client.use(async (ctx, next) => {
+      const result = await next();
+      seen = ctx;
+      return result;
+    });
+
+    await client.callTool("qortex_vector_list_indexes", {});
+
+    expect(seen?.tool).toBe("qortex_vector_list_indexes");
+    expect(seen?.result).toEqual({ indexes: ["docs"] });
+    expect(seen?.durationMs).toBeGreaterThanOrEqual(0);
+    expect(seen?.error).toBeUndefined();
+  });
+
+  it("sends arguments rewritten by a middleware", async () => {
+    sdkCallTool.mockResolvedValue(mockResponse({ ids: ["a"] }));
+    client.use(async (ctx, next) => {
+      ctx.args = { ...ctx.args, metadata: [{ tenant: "acme" }] };
+      return next();
+    });
+
+    await client.callTool("qortex_vector_upsert", { ids: ["a"] });
+
+    expect(sdkCallTool.mock.calls[0][0]).toEqual({
+      name: "qortex_vector_upsert",
+      arguments: { ids: ["a"], metadata: [{ tenant: "acme" }] },
+    });
+  });
+
+  it("lets a middleware replace the result", async () => {
+    sdkCallTool.mockResolvedValue(mockResponse({ indexes: ["docs"] }));
+    client.use(async () => ({ indexes: ["cached"] }));
+
+    const result = await client.callTool("qortex_vector_list_indexes", {});
+
+    expect(result).toEqual({ indexes: ["cached"] });
+    expect(sdkCallTool).not.toHaveBeenCalled();
+  });
+
+  it("runs once per attempt when a call is retried", async () => {
+    sdkCallTool
+      .mockRejectedValueOnce(new Error("write EPIPE"))
+      .mockResolvedValueOnce(mockResponse({ results: [] }));
+    const attempts: Array<{ attempt: number; error: unknown }> = [];
+    client.use(async (ctx, next) => {
+      try {
+        return await next();
+      } finally {
+        attempts.push({ attempt: ctx.attempt, error: ctx.error });
+      }
+    });
+
+    await client.callTool("qortex_vector_query", {});
+
+    expect(attempts).toHaveLength(2);
+    expect(attempts[0].error).toBeInstanceOf(QortexTransportError);
+    expect(attempts[1]).toEqual({ attempt: 2, error: undefined });
+  });
+
+  it("retries errors injected by a middleware", async () => {
+    sdkCallTool.mockResolvedValue(mockResponse({ results: [] }));
+    let failed = false;
+    client.use(async (ctx, next) => {
+      if (!failed) {
+        failed = true;
+        throw new QortexTransportError("chaos", { tool: ctx.tool });
+      }
+      return next();
+    });
+
+    await expect(client.callTool("qortex_vector_query", {})).resolves.toEqual({
+      results: [],
+    });
+    expect(sdkCallTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects calling next() twice", async () => {
+    sdkCallTool.mockResolvedValue(mockResponse({ indexes: [] }));
+    client.use(async (_ctx, next) => {
+      await next();
+      return next();
+    });
+
+    await expect(
+      client.callTool("qortex_vector_list_indexes", {}),
+    ).rejects.toThrow(/next\(\) more than once/);
+  });
+});
+
+describe("built-in middlewares", () => {
+  let sdkCallTool: ReturnType<typeof vi.fn>;
+  let client: QortexMcpClient;
+
+  beforeEach(() => {
+    sdkCallTool = vi.fn();
+    client = new QortexMcpClient({
+      mcpClient: { callTool: sdkCallTool } as unknown as Client,
+      retry: false,
+    });
+  });
+
+  it("loggerMiddleware logs successes and failures", async () => {
+    const logger = { debug: vi.fn(), error: vi.fn() };
+    client.use(loggerMiddleware(logger));
+    sdkCallTool
+      .mockResolvedValueOnce(mockResponse({ indexes: [] }))
+      .mockRejectedValueOnce(new Error("write EPIPE"));
+
+    await client.callTool("qortex_vector_list_indexes", {});
+    await expect(client.callTool("qortex_feedback", {})).rejects.toThrow();
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      "qortex qortex_vector_list_indexes ok",
+      expect.objectContaining({ tool: "qortex_vector_list_indexes", attempt: 1 }),
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      "qortex qortex_feedback failed",
+      expect.objectContaining({ error: "write EPIPE" }),
+    );
+  });
+
+  it("sees server-reported errors as typed failures", async () => {
+    const logger = { debug: vi.fn(), error: vi.fn() };
+    let seen: QortexCallContext | undefined;
+    client.use(loggerMiddleware(logger)).use(async (ctx, next) => {
+      seen = ctx;
+      return next();
+    });
+    sdkCallTool.mockResolvedValue(
+      mockResponse({ error: "Index 'nope' not found" }),
+    );
+
+    await expect(
+      client.callTool("qortex_vector_describe_index", { index_name: "nope" }),
+    ).rejects.toBeInstanceOf(QortexIndexNotFoundError);
+
+    expect(seen?.error).toBeInstanceOf(QortexIndexNotFoundError);
+    expect(logger.debug).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith(
+      "qortex qortex_vector_describe_index failed",
+      expect.objectContaining({ error: "Index 'nope' not found" }),
+    );
+  });
+
+  it("loggerMiddleware omits arguments unless asked", async () => {
+    const logger = { debug: vi.fn(), error: vi.fn() };
+    client.use(loggerMiddleware(logger));
+    sdkCallTool.mockResolvedValue(mockResponse({ results: [] }));
+
+    await client.callTool("qortex_vector_query", { query_vector: [1, 2] });
+
+    expect(logger.debug.mock.calls[0][1]).not.toHaveProperty("args");
+  });
+
+  it("timingMiddleware reports every call", async () => {
+    const timings: QortexCallTiming[] = [];
+    client.use(timingMiddleware((t) => timings.push(t)));
+    sdkCallTool
+      .mockResolvedValueOnce(mockResponse({ indexes: [] }))
+      .mockRejectedValueOnce(new Error("write EPIPE"));
+
+    await client.callTool("qortex_vector_list_indexes", {});
+    await expect(client.callTool("qortex_feedback", {})).rejects.toThrow();
+
+    expect(timings).toEqual([
+      { tool: "qortex_vector_list_indexes", attempt: 1, durationMs: expect.any(Number), ok: true },
+      { tool: "qortex_feedback", attempt: 1, durationMs: expect.any(Number), ok: false },
+    ]);
+  });
+});
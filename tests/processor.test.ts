@@ -0,0 +1,207 @@
+/**
+ * Tests for the rules input processor against the in-memory stand-in.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import type { ProcessInputArgs } from "@mastra/core/processors";
+import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+import { QortexRetrievalSession } from "../src/session.js";
+import {
+  QortexRulesProcessor,
+  type QortexRulesTurn,
+} from "../src/processor.js";
+
+function turn(...texts: Array<[role: "user" | "assistant", text: string]>) {
+  return {
+    messages: texts.map(([role, text], i) => ({
+      id: `m-${i}`,
+      role,
+      createdAt: new Date(),
+      content: { format: 2, parts: [{ type: "text", text }] },
+    })),
+    systemMessages: [{ role: "system", content: "You are helpful." }],
+    state: {},
+    abort: () => {
+      throw new Error("aborted");
+    },
+  } as unknown as ProcessInputArgs;
+}
+
+describe("QortexRulesProcessor", () => {
+  const server = createQortexTestServer();
+  let qortex: QortexVector;
+
+  beforeAll(async () => {
+    qortex = new QortexVector({ id: "processor", transport: server.transport });
+    await qortex.connect();
+  });
+
+  afterAll(async () => {
+    await qortex.disconnect();
+  });
+
+  it("injects rules for the latest user message", async () => {
+    const turns: QortexRulesTurn[] = [];
+    const processor = new QortexRulesProcessor(qortex, {
+      header: "Rules:",
+      onRules: (t) => turns.push(t),
+    });
+    const args = turn(
+      ["user", "circuit breakers"],
+      ["assistant", "Sure."],
+      ["user", "How should I verify JWT tokens?"],
+    );
+
+    const result = await processor.processInput(args);
+
+    expect(result.messages).toBe(args.messages);
+    expect(result.systemMessages).toHaveLength(2);
+    const added = result.systemMessages[1];
+    expect(added.role).toBe("system");
+    expect(added.content).toMatch(/^Rules:\n\n/);
+    expect(added.content).toContain("rule:jwt-verify");
+
+    expect(turns).toHaveLength(1);
+    expect(turns[0]).toMatchObject({
+      queryId: expect.any(String),
+      query: "How should I verify JWT tokens?",
+      systemMessage: added.content,
+    });
+    expect(turns[0].ruleIds).toContain("rule:jwt-verify");
+    expect(turns[0].itemIds).toContain("sec:jwt");
+    expect(args.state.qortex).toEqual(turns[0]);
+  });
+
+  it("filters rules by domain, category and confidence", async () => {
+    const textQuery = vi.spyOn(qortex, "textQuery");
+    const processor = new QortexRulesProcessor(qortex, {
+      domains: ["security"],
+      categories: ["architecture"],
+      topK: 5,
+    });
+    const args = turn(["user", "API keys, OAuth and circuit breakers"]);
+
+    await processor.processInput(args);
+
+    expect(textQuery).toHaveBeenLastCalledWith(
+      "API keys, OAuth and circuit breakers",
+      { domains: ["security"], topK: 5, mode: undefined, signal: undefined },
+    );
+    expect((args.state.qortex as QortexRulesTurn).ruleIds).toEqual([
+      "rule:prefer-oauth",
+    ]);
+
+    const strict = new QortexRulesProcessor(qortex, { minConfidence: 1.1 });
+    const result = await strict.processInput(turn(["user", "API keys"]));
+    expect(result.systemMessages).toHaveLength(1);
+    textQuery.mockRestore();
+  });
+
+  it("injects category rules the query did not reach", async () => {
+    const getRules = vi.spyOn(qortex, "getRules");
+    const processor = new QortexRulesProcessor(qortex, {
+      categories: ["security", "reliability"],
+      topK: 1,
+    });
+    const args = turn(["user", "How should I verify JWT tokens?"]);
+
+    await processor.processInput(args);
+
+    expect(getRules).toHaveBeenLastCalledWith({
+      domains: undefined,
+      categories: ["security", "reliability"],
+      minConfidence: undefined,
+      signal: undefined,
+    });
+    const { ruleIds, itemIds } = args.state.qortex as QortexRulesTurn;
+    expect(itemIds).not.toContain("infra:circuit-breaker");
+    expect(ruleIds).toEqual(
+      expect.arrayContaining(["rule:jwt-verify", "rule:breaker"]),
+    );
+    expect(ruleIds).not.toContain("rule:prefer-oauth");
+    getRules.mockRestore();
+  });
+
+  it("bounds the system message to the token budget", async () => {
+    const processor = new QortexRulesProcessor(qortex, { maxTokens: 40 });
+    const args = turn(["user", "API keys, OAuth tokens and JWT"]);
+
+    await processor.processInput(args);
+
+    const { ruleIds } = args.state.qortex as QortexRulesTurn;
+    expect(ruleIds.length).toBeGreaterThan(0);
+    const unbounded = turn(["user", "API keys, OAuth tokens and JWT"]);
+    await new QortexRulesProcessor(qortex).processInput(unbounded);
+    expect(
+      (unbounded.state.qortex as QortexRulesTurn).ruleIds.length,
+    ).toBeGreaterThan(ruleIds.length);
+  });
+
+  it("records the turn on a session for feedback", async () => {
+    const session = new QortexRetrievalSession(qortex, { source: "turns" });
+    const processor = new QortexRulesProcessor(qortex, { session });
+    const args = turn(["user", "JWT tokens"]);
+
+    await processor.processInput(args);
+    session.accept("sec:jwt");
+    const { feedback } = await session.end();
+
+    const { queryId } = args.state.qortex as QortexRulesTurn;
+    expect(feedback).toEqual([
+      {
+        queryId,
+        outcomes: expect.objectContaining({ "sec:jwt": "accepted" }),
+      },
+    ]);
+    expect(server.feedback.at(-1)).toMatchObject({ queryId, source: "turns" });
+  });
+
+  it("passes the turn through when there is nothing to query or qortex fails", async () => {
+    const failing = {
+      textQuery: vi.fn().mockRejectedValue(new Error("down")),
+      getRules: vi.fn(),
+    };
+    const onError = vi.fn();
+    const processor = new QortexRulesProcessor(failing, { onError });
+
+    const empty = turn(["assistant", "Hello"]);
+    expect(await processor.processInput(empty)).toEqual({
+      messages: empty.messages,
+      systemMessages: empty.systemMessages,
+    });
+    expect(failing.textQuery).not.toHaveBeenCalled();
+
+    const args = turn(["user", "JWT"]);
+    const result = await processor.processInput(args);
+    expect(result.systemMessages).toBe(args.systemMessages);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "down" }),
+    );
+    expect(args.state.qortex).toBeUndefined();
+  });
+
+  it("rethrows when the turn is aborted", async () => {
+    const controller = new AbortController();
+    const aborting = {
+      textQuery: vi.fn(async () => {
+        controller.abort();
+        throw controller.signal.reason;
+      }),
+      getRules: vi.fn().mockResolvedValue({ rules: [] }),
+    };
+    const onError = vi.fn();
+    const processor = new QortexRulesProcessor(aborting, {
+      categories: ["security"],
+      onError,
+    });
+
+    await expect(
+      processor.processInput({
+        ...turn(["user", "JWT"]),
+        abortSignal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for rendering rules as prompt text.
+ */
+
+import { describe, it, expect } from "vitest";
+import { citedRuleIds, renderRules } from "../src/prompt.js";
+import type { QortexRule } from "../src/types.js";
+
+function rule(
+  id: string,
+  text: string,
+  overrides: Partial<QortexRule> = {},
+): QortexRule {
+  return {
+    id,
+    text,
+    domain: "security",
+    category: "auth",
+    confidence: 1,
+    relevance: 0.5,
+    derivation: "explicit",
+    source_concepts: [],
+    metadata: {},
+    ...overrides,
+  };
+}
+
+const rules = [
+  rule("rule:rotate", "Rotate API keys regularly", { relevance: 0.4 }),
+  rule("rule:verify", "Always verify JWT signatures", { relevance: 0.9 }),
+  rule("rule:breaker", "Wrap downstream calls in a circuit breaker", {
+    domain: "infra",
+    category: "reliability",
+    relevance: 0.8,
+  }),
+  rule("rule:derived", "Prefer OAuth2 over API keys", {
+    relevance: 0.9,
+    confidence: 0.5,
+    category: null,
+  }),
+];
+
+describe("renderRules", () => {
+  it("groups by domain and category, best first, as markdown", () => {
+    const rendered = renderRules(rules);
+
+    expect(rendered.text).toBe(
+      [
+        "### security / auth",
+        "- Always verify JWT signatures [rule:verify]",
+        "- Rotate API keys regularly [rule:rotate]",
+        "",
+        "### infra / reliability",
+        "- Wrap downstream calls in a circuit breaker [rule:breaker]",
+        "",
+        "### security / general",
+        "- Prefer OAuth2 over API keys [rule:derived]",
+      ].join("\n"),
+    );
+    expect(rendered.rules.map((r) => r.id)).toEqual([
+      "rule:verify",
+      "rule:rotate",
+      "rule:breaker",
+      "rule:derived",
+    ]);
+    expect(rendered.tokens).toBe(Math.ceil(rendered.text.length / 4));
+  });
+
+  it("renders XML with escaped text and ids", () => {
+    const rendered = renderRules(
+      [rule("rule:x", 'Use <b> & "quotes"\n carefully')],
+      { format: "xml", groupBy: ["category"] },
+    );
+    expect(rendered.text).toBe(
+      [
+        "<rules>",
+        '  <group category="auth">',
+        '    <rule id="rule:x">Use &lt;b&gt; &amp; &quot;quotes&quot; carefully</rule>',
+        "  </group>",
+        "</rules>",
+      ].join("\n"),
+    );
+  });
+
+  it("renders plain bullets without groups", () => {
+    const rendered = renderRules(rules.slice(0, 2), {
+      format: "bullets",
+      groupBy: [],
+    });
+    expect(rendered.text).toBe(
+      [
+        "- Always verify JWT signatures (rule:verify)",
+        "- Rotate API keys regularly (rule:rotate)",
+      ].join("\n"),
+    );
+  });
+
+  it("drops near-duplicates in favor of the better-scored rule", () => {
+    const rendered = renderRules([
+      rule("rule:a", "Always verify the JWT signature", { relevance: 0.2 }),
+      rule("rule:b", "Always verify the JWT signature!", { relevance: 0.7 }),
+      rule("rule:b", "Always verify the JWT signature!", { relevance: 0.7 }),
+      rule("rule:c", "Never log JWT signatures"),
+    ]);
+
+    expect(rendered.rules.map((r) => r.id)).toEqual(["rule:b", "rule:c"]);
+    expect(rendered.duplicates).toEqual([
+      { id: "rule:a", duplicateOf: "rule:b" },
+    ]);
+  });
+
+  it("fits the budget, skipping rules that would overflow it", () => {
+    const long = rule("rule:long", "x ".repeat(200), { relevance: 0.95 });
+    const rendered = renderRules([long, ...rules], {
+      maxChars: 160,
+      groupBy: [],
+    });
+
+    expect(rendered.text.length).toBeLessThanOrEqual(160);
+    expect(rendered.omitted).toContain("rule:long");
+    expect(rendered.rules.map((r) => r.id)).toContain("rule:verify");
+
+    const byTokens = renderRules(rules, {
+      maxTokens: 3,
+      countTokens: (text) => text.split("\n").length,
+      groupBy: [],
+    });
+    expect(byTokens.rules).toHaveLength(3);
+    expect(byTokens.omitted).toEqual(["rule:rotate"]);
+  });
+
+  it("returns empty text when nothing fits", () => {
+    const rendered = renderRules(rules, { maxChars: 5 });
+    expect(rendered).toMatchObject({ text: "", rules: [], tokens: 0 });
+    expect(rendered.omitted).toHaveLength(4);
+  });
+});
+
+describe("citedRuleIds", () => {
+  it("finds whole rule ids mentioned in an answer", () => {
+    const answer =
+      "Verify tokens first [rule:verify]; see also rule:breaker. Not rule:rotate2.";
+    expect(citedRuleIds(answer, rules)).toEqual([
+      "rule:verify",
+      "rule:breaker",
+    ]);
+  });
+});
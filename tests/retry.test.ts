@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the retry policy and idempotency classification.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { isRetrySafe, retryDelay } from "../src/retry.js";
+import { QortexMcpClient } from "../src/client.js";
+import { QortexTransportError } from "../src/errors.js";
+
+function mockResponse(data: unknown) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data) }],
+  };
+}
+
+describe("isRetrySafe", () => {
+  it.each([
+    "qortex_vector_query",
+    "qortex_query",
+    "qortex_explore",
+    "qortex_rules",
+    "qortex_vector_list_indexes",
+    "qortex_vector_describe_index",
+  ])("treats %s as safe", (tool) => {
+    expect(isRetrySafe(tool, {})).toBe(true);
+  });
+
+  it("treats upserts as safe only when ids are supplied", () => {
+    expect(isRetrySafe("qortex_vector_upsert", { ids: ["a"] })).toBe(true);
+    expect(isRetrySafe("qortex_vector_upsert", { ids: undefined })).toBe(false);
+    expect(isRetrySafe("qortex_vector_upsert", { ids: [] })).toBe(false);
+  });
+
+  it("treats graph adds as safe only when every item has an id", () => {
+    const concepts = [{ id: "a", name: "A", domain: "d" }];
+    expect(isRetrySafe("qortex_add_concepts", { concepts })).toBe(true);
+    expect(
+      isRetrySafe("qortex_add_concepts", {
+        concepts: [...concepts, { name: "B", domain: "d" }],
+      }),
+    ).toBe(false);
+    expect(isRetrySafe("qortex_add_rules", { rules: [{ text: "t" }] })).toBe(
+      false,
+    );
+    expect(isRetrySafe("qortex_add_edges", { edges: [] })).toBe(true);
+  });
+
+  it.each([
+    "qortex_feedback",
+    "qortex_vector_create_index",
+    "qortex_vector_delete",
+    "qortex_delete_concepts",
+  ])(
+    "never replays %s",
+    (tool) => {
+      expect(isRetrySafe(tool, { ids: ["a"] })).toBe(false);
+    },
+  );
+});
+
+describe("retryDelay", () => {
+  it("backs off exponentially up to the cap", () => {
+    const policy = { initialDelayMs: 100, maxDelayMs: 350, jitter: 0 };
+    expect(retryDelay(1, policy)).toBe(100);
+    expect(retryDelay(2, policy)).toBe(200);
+    expect(retryDelay(3, policy)).toBe(350);
+  });
+
+  it("keeps jittered delays within range", () => {
+    for (let i = 0; i < 50; i++) {
+      const delay = retryDelay(1, { initialDelayMs: 100, jitter: 0.5 });
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe("QortexMcpClient retries", () => {
+  let sdkCallTool: ReturnType<typeof vi.fn>;
+  let client: QortexMcpClient;
+  let retries: Array<{ tool: string; attempt: number }>;
+
+  beforeEach(() => {
+    sdkCallTool = vi.fn();
+    client = new QortexMcpClient({
+      mcpClient: { callTool: sdkCallTool } as unknown as Client,
+      retry: { maxAttempts: 3, initialDelayMs: 1, jitter: 0 },
+    });
+    retries = [];
+    client.on("retry", ({ tool, attempt }) => retries.push({ tool, attempt }));
+  });
+
+  it("retries safe calls after transient failures", async () => {
+    sdkCallTool
+      .mockRejectedValueOnce(new Error("write EPIPE"))
+      .mockResolvedValueOnce(mockResponse({ results: [] }));
+
+    const result = await client.callTool("qortex_vector_query", {});
+
+    expect(result).toEqual({ results: [] });
+    expect(sdkCallTool).toHaveBeenCalledTimes(2);
+    expect(retries).toEqual([{ tool: "qortex_vector_query", attempt: 2 }]);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    sdkCallTool.mockRejectedValue(new Error("write EPIPE"));
+
+    await expect(client.callTool("qortex_query", {})).rejects.toBeInstanceOf(
+      QortexTransportError,
+    );
+    expect(sdkCallTool).toHaveBeenCalledTimes(3);
+    expect(retries.map((r) => r.attempt)).toEqual([2, 3]);
+  });
+
+  it("never replays feedback", async () => {
+    sdkCallTool.mockRejectedValue(new Error("write EPIPE"));
+
+    await expect(
+      client.callTool("qortex_feedback", { query_id: "q-1" }),
+    ).rejects.toBeInstanceOf(QortexTransportError);
+    expect(sdkCallTool).toHaveBeenCalledTimes(1);
+    expect(retries).toEqual([]);
+  });
+
+  it("does not replay upserts without ids", async () => {
+    sdkCallTool.mockRejectedValue(new Error("write EPIPE"));
+
+    await expect(
+      client.callTool("qortex_vector_upsert", { vectors: [[1]] }),
+    ).rejects.toThrow();
+    expect(sdkCallTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("replays upserts with ids", async () => {
+    sdkCallTool
+      .mockRejectedValueOnce(new Error("write EPIPE"))
+      .mockResolvedValueOnce(mockResponse({ ids: ["a"] }));
+
+    expect(
+      await client.callTool("qortex_vector_upsert", {
+        vectors: [[1]],
+        ids: ["a"],
+      }),
+    ).toEqual({ ids: ["a"] });
+  });
+
+  it("does not retry server-reported errors", async () => {
+    sdkCallTool.mockResolvedValue({
+      content: [{ type: "text", text: "Index 'docs' not found" }],
+      isError: true,
+    });
+
+    await expect(client.callTool("qortex_vector_query", {})).rejects.toThrow(
+      "not found",
+    );
+    expect(sdkCallTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops retrying when the caller aborts during backoff", async () => {
+    const slow = new QortexMcpClient({
+      mcpClient: { callTool: sdkCallTool } as unknown as Client,
+      retry: { initialDelayMs: 10_000, jitter: 0 },
+    });
+    sdkCallTool.mockRejectedValue(new Error("write EPIPE"));
+    const controller = new AbortController();
+    slow.on("retry", () => controller.abort(new Error("cancelled")));
+
+    await expect(
+      slow.callTool("qortex_query", {}, { signal: controller.signal }),
+    ).rejects.toThrow("cancelled");
+    expect(sdkCallTool).toHaveBeenCalledTimes(1);
+  });
+
+  it("can be disabled", async () => {
+    const noRetry = new QortexMcpClient({
+      mcpClient: { callTool: sdkCallTool } as unknown as Client,
+      retry: false,
+    });
+    sdkCallTool.mockRejectedValue(new Error("write EPIPE"));
+
+    await expect(noRetry.callTool("qortex_query", {})).rejects.toThrow();
+    expect(sdkCallTool).toHaveBeenCalledTimes(1);
+  });
+});
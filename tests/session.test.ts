@@ -0,0 +1,280 @@
+/**
+ * Tests for retrieval sessions against the in-memory stand-in.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+import { QortexFeedbackBuffer } from "../src/feedback.js";
+import { QortexRetrievalSession } from "../src/session.js";
+import {
+  QortexSessionEndedError,
+  QortexTransportError,
+} from "../src/errors.js";
+import type { QortexQueryResult } from "../src/types.js";
+
+describe("QortexRetrievalSession", () => {
+  const server = createQortexTestServer();
+  let qortex: QortexVector;
+
+  beforeAll(async () => {
+    qortex = new QortexVector({ id: "session", transport: server.transport });
+    await qortex.createIndex({ indexName: "docs", dimension: 2 });
+    await qortex.upsert({
+      indexName: "docs",
+      vectors: [
+        [1, 0],
+        [0, 1],
+      ],
+      ids: ["sec:jwt", "notes:1"],
+    });
+  });
+
+  afterAll(async () => {
+    await qortex.disconnect();
+  });
+
+  function lastFeedback(count: number) {
+    return server.feedback.slice(-count);
+  }
+
+  it("consolidates marks into one outcome map per query_id", async () => {
+    const session = new QortexRetrievalSession(qortex);
+    const text = await session.textQuery("JWT tokens and API keys");
+    const hybrid = await session.hybridQuery({
+      indexName: "docs",
+      queryVector: [1, 0],
+      text: "JWT token validation",
+      topK: 2,
+    });
+    await session.query({ indexName: "docs", queryVector: [0, 1], topK: 1 });
+
+    expect(session.items.map((i) => i.kind)).toEqual([
+      ...text.items.map(() => "text"),
+      ...hybrid.results.map(() => "hybrid"),
+      "vector",
+    ]);
+    expect(session.accept("sec:jwt")).toBe(2);
+    session.reject("sec:jwt"); // later marks override
+    session.partial((item) => item.kind === "text" && item.id !== "sec:jwt");
+    session.accept("notes:1");
+
+    const summary = await session.end();
+
+    const others = text.items.filter((i) => i.id !== "sec:jwt");
+    expect(summary.feedback).toEqual([
+      {
+        queryId: text.query_id,
+        outcomes: {
+          "sec:jwt": "rejected",
+          ...Object.fromEntries(others.map((i) => [i.id, "partial"])),
+        },
+      },
+      {
+        queryId: hybrid.query_id,
+        outcomes: { "sec:jwt": "rejected" },
+      },
+    ]);
+    // Vector-only hits have no query_id to report them under
+    expect(summary.unsubmitted).toEqual([
+      expect.objectContaining({ id: "notes:1", kind: "hybrid" }),
+      expect.objectContaining({ id: "notes:1", kind: "vector" }),
+    ]);
+    expect(
+      summary.unsubmitted.every((item) => item.query_id === undefined),
+    ).toBe(true);
+    // Maps are sent concurrently, so the server may see them in any order
+    expect(lastFeedback(2)).toEqual(
+      expect.arrayContaining(
+        summary.feedback.map(({ queryId, outcomes }) => ({
+          queryId,
+          outcomes,
+          source: "mastra",
+        })),
+      ),
+    );
+  });
+
+  it("accepts cited items and rejects the rest under the uncited policy", async () => {
+    const session = new QortexRetrievalSession(qortex, {
+      uncited: "rejected",
+      source: "agent",
+    });
+    const { query_id, items } = await session.textQuery("JWT tokens");
+    expect(items.length).toBeGreaterThan(1);
+
+    session.cite([items[0].id]);
+    const { feedback } = await session.end();
+
+    expect(feedback[0].outcomes).toEqual(
+      Object.fromEntries(
+        items.map((item, i) => [item.id, i === 0 ? "accepted" : "rejected"]),
+      ),
+    );
+    expect(lastFeedback(1)[0]).toMatchObject({
+      queryId: query_id,
+      source: "agent",
+    });
+  });
+
+  it("matches node ids and records results retrieved elsewhere", async () => {
+    const session = new QortexRetrievalSession(qortex);
+    const result: QortexQueryResult = {
+      query_id: "q-external",
+      rules: [],
+      items: [
+        {
+          id: "chunk:7",
+          content: "Validate the aud claim",
+          score: 0.9,
+          domain: "security",
+          node_id: "sec:jwt",
+          metadata: {},
+        },
+      ],
+    };
+    session.record(result);
+
+    expect(session.cite("sec:jwt")).toBe(1);
+    expect(session.accept("sec:unknown")).toBe(0);
+    const { feedback } = await session.end();
+    expect(feedback).toEqual([
+      { queryId: "q-external", outcomes: { "chunk:7": "accepted" } },
+    ]);
+  });
+
+  it("reports hybrid hits by graph item id", async () => {
+    const session = new QortexRetrievalSession(qortex);
+    session.record({
+      query_id: "q-hybrid",
+      rules: [],
+      results: [
+        {
+          id: "chunk:7",
+          score: 0.03,
+          sources: ["vector", "graph"],
+          scores: { vector: 0.9, graph: 0.8 },
+          metadata: {},
+          item_id: "chunk:7",
+          node_id: "sec:jwt",
+        },
+      ],
+    });
+
+    expect(session.accept("sec:jwt")).toBe(1);
+    const { feedback } = await session.end();
+    expect(feedback).toEqual([
+      { queryId: "q-hybrid", outcomes: { "chunk:7": "accepted" } },
+    ]);
+  });
+
+  it("keys text and hybrid feedback for one item alike", async () => {
+    const chunked = createQortexTestServer({
+      itemIds: { "sec:jwt": "chunk:jwt" },
+    });
+    const store = new QortexVector({
+      id: "session-chunks",
+      transport: chunked.transport,
+    });
+    await store.createIndex({ indexName: "docs", dimension: 2 });
+    await store.upsert({
+      indexName: "docs",
+      vectors: [[1, 0]],
+      ids: ["sec:jwt"],
+    });
+
+    const session = new QortexRetrievalSession(store);
+    const text = await session.textQuery("JWT token validation", { topK: 1 });
+    const hybrid = await session.hybridQuery({
+      indexName: "docs",
+      queryVector: [1, 0],
+      text: "JWT token validation",
+      topK: 1,
+    });
+    expect(text.items[0]).toMatchObject({ id: "chunk:jwt", node_id: "sec:jwt" });
+    expect(hybrid.results[0]).toMatchObject({
+      id: "sec:jwt",
+      item_id: "chunk:jwt",
+      sources: ["vector", "graph"],
+    });
+
+    expect(session.accept("sec:jwt")).toBe(2);
+    await session.end();
+    expect(chunked.feedback.map((f) => f.outcomes)).toEqual([
+      { "chunk:jwt": "accepted" },
+      { "chunk:jwt": "accepted" },
+    ]);
+    await store.disconnect();
+  });
+
+  it("sends nothing without marks or citations", async () => {
+    const feedback = vi.spyOn(qortex, "feedback");
+    const session = new QortexRetrievalSession(qortex);
+    await session.textQuery("JWT tokens");
+
+    expect(await session.end()).toEqual({
+      feedback: [],
+      failed: [],
+      unsubmitted: [],
+    });
+    expect(feedback).not.toHaveBeenCalled();
+    feedback.mockRestore();
+  });
+
+  it("sends every outcome map and reports the ones that fail", async () => {
+    const error = new QortexTransportError("pipe closed");
+    const feedback = vi
+      .spyOn(qortex, "feedback")
+      .mockRejectedValueOnce(error);
+    const session = new QortexRetrievalSession(qortex, { uncited: "rejected" });
+    const first = await session.textQuery("JWT tokens", { topK: 1 });
+    const second = await session.textQuery("API keys", { topK: 1 });
+
+    const summary = await session.end();
+    expect(feedback).toHaveBeenCalledTimes(2);
+    expect(summary.failed).toEqual([
+      {
+        queryId: first.query_id,
+        outcomes: { [first.items[0].id]: "rejected" },
+        error,
+      },
+    ]);
+    expect(summary.feedback).toEqual([
+      {
+        queryId: second.query_id,
+        outcomes: { [second.items[0].id]: "rejected" },
+      },
+    ]);
+    feedback.mockRestore();
+  });
+
+  it("queues feedback on a buffer instead of waiting for the server", async () => {
+    const buffer = new QortexFeedbackBuffer(qortex);
+    const feedback = vi.spyOn(qortex, "feedback");
+    const session = new QortexRetrievalSession(qortex, { buffer });
+    const { query_id, items } = await session.textQuery("JWT tokens");
+
+    session.accept(items[0].id);
+    await session.end();
+    expect(feedback).not.toHaveBeenCalled();
+    expect(buffer.stats.pending).toBe(1);
+
+    await buffer.close();
+    expect(feedback).toHaveBeenCalledWith(
+      query_id,
+      { [items[0].id]: "accepted" },
+      "mastra",
+      undefined,
+    );
+    feedback.mockRestore();
+  });
+
+  it("rejects use after end()", async () => {
+    const session = new QortexRetrievalSession(qortex);
+    await session.end();
+
+    expect(() => session.accept("sec:jwt")).toThrow(QortexSessionEndedError);
+    await expect(session.textQuery("JWT")).rejects.toThrow(/has ended/);
+    await expect(session.end()).rejects.toThrow(/has ended/);
+  });
+});
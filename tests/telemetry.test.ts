@@ -0,0 +1,226 @@
+/**
+ * Tests for OpenTelemetry spans and metrics around QortexVector.
+ *
+ * Uses the SDK's in-memory span exporter and a manually collected
+ * metric reader; no global providers are registered.
+ */
+
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from "vitest";
+import { context, trace, SpanStatusCode } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import {
+  MeterProvider,
+  MetricReader,
+  type HistogramMetricData,
+  type SumMetricData,
+} from "@opentelemetry/sdk-metrics";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { QortexVector } from "../src/vector.js";
+
+class TestMetricReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+
+function mockResponse(data: unknown) {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data) }],
+  };
+}
+
+describe("QortexVector telemetry", () => {
+  let exporter: InMemorySpanExporter;
+  let reader: TestMetricReader;
+  let tracerProvider: BasicTracerProvider;
+  let callTool: ReturnType<typeof vi.fn>;
+  let qortex: QortexVector;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracerProvider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)],
+    });
+    reader = new TestMetricReader();
+    const meterProvider = new MeterProvider({ readers: [reader] });
+
+    callTool = vi.fn();
+    qortex = new QortexVector({
+      id: "test-qortex",
+      mcpClient: { callTool } as unknown as Client,
+      retry: false,
+      telemetry: {
+        tracer: tracerProvider.getTracer("test"),
+        meter: meterProvider.getMeter("test"),
+      },
+    });
+  });
+
+  async function collectMetric(name: string) {
+    const { resourceMetrics } = await reader.collect();
+    return resourceMetrics.scopeMetrics
+      .flatMap((scope) => scope.metrics)
+      .find((metric) => metric.descriptor.name === name);
+  }
+
+  it("creates a span per method with request and result attributes", async () => {
+    callTool.mockResolvedValue(
+      mockResponse({
+        results: [
+          { id: "a", score: 0.9 },
+          { id: "b", score: 0.8 },
+        ],
+      }),
+    );
+
+    await qortex.query({ indexName: "docs", queryVector: [0.1, 0.2], topK: 5 });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("qortex.query");
+    expect(span.attributes).toEqual({
+      "qortex.index_name": "docs",
+      "qortex.top_k": 5,
+      "qortex.result_count": 2,
+    });
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it("records vector counts on upsert", async () => {
+    callTool.mockResolvedValue(mockResponse({ ids: ["a", "b", "c"] }));
+
+    await qortex.upsert({ indexName: "docs", vectors: [[1], [2], [3]] });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("qortex.upsert");
+    expect(span.attributes["qortex.vector_count"]).toBe(3);
+  });
+
+  it("records domains, mode and query_id on textQuery", async () => {
+    callTool.mockResolvedValue(
+      mockResponse({
+        items: [
+          {
+            id: "i-1",
+            content: "OAuth2",
+            score: 0.9,
+            domain: "security",
+            node_id: "sec:oauth",
+            metadata: {},
+          },
+        ],
+        query_id: "q-42",
+        rules: [],
+      }),
+    );
+
+    await qortex.textQuery("auth", { domains: ["security"], mode: "graph" });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe("qortex.text_query");
+    expect(span.attributes).toMatchObject({
+      "qortex.domains": ["security"],
+      "qortex.mode": "graph",
+      "qortex.result_count": 1,
+      "qortex.query_id": "q-42",
+    });
+  });
+
+  it("marks failed calls as errors", async () => {
+    callTool.mockResolvedValue(
+      mockResponse({ error: "Index 'nope' not found" }),
+    );
+
+    await expect(qortex.describeIndex({ indexName: "nope" })).rejects.toThrow();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.events.map((e) => e.name)).toContain("exception");
+
+    // Server-reported errors count like transport failures
+    const duration = (await collectMetric(
+      "qortex.tool.duration",
+    )) as HistogramMetricData;
+    expect(duration.dataPoints.map((p) => p.attributes)).toEqual([
+      {
+        "qortex.tool": "qortex_vector_describe_index",
+        "qortex.outcome": "error",
+      },
+    ]);
+    const errors = (await collectMetric("qortex.tool.errors")) as SumMetricData;
+    expect(errors.dataPoints).toEqual([
+      expect.objectContaining({
+        attributes: {
+          "qortex.tool": "qortex_vector_describe_index",
+          "error.type": "QortexIndexNotFoundError",
+        },
+        value: 1,
+      }),
+    ]);
+  });
+
+  it("nests under the active span", async () => {
+    callTool.mockResolvedValue(mockResponse({ indexes: [] }));
+    const parent = tracerProvider.getTracer("test").startSpan("agent.generate");
+
+    await context.with(trace.setSpan(context.active(), parent), () =>
+      qortex.listIndexes(),
+    );
+    parent.end();
+
+    const [child] = exporter.getFinishedSpans();
+    expect(child.name).toBe("qortex.list_indexes");
+    expect(child.parentSpanId).toBe(parent.spanContext().spanId);
+  });
+
+  it("records per-tool latency and errors", async () => {
+    callTool
+      .mockResolvedValueOnce(mockResponse({ indexes: [] }))
+      .mockRejectedValueOnce(new Error("write EPIPE"));
+
+    await qortex.listIndexes();
+    await expect(
+      qortex.feedback("q-1", { a: "accepted" }),
+    ).rejects.toThrow();
+
+    const duration = (await collectMetric(
+      "qortex.tool.duration",
+    )) as HistogramMetricData;
+    expect(duration.dataPoints.map((p) => p.attributes)).toEqual([
+      { "qortex.tool": "qortex_vector_list_indexes", "qortex.outcome": "ok" },
+      { "qortex.tool": "qortex_feedback", "qortex.outcome": "error" },
+    ]);
+
+    const errors = (await collectMetric("qortex.tool.errors")) as SumMetricData;
+    expect(errors.dataPoints).toEqual([
+      expect.objectContaining({
+        attributes: {
+          "qortex.tool": "qortex_feedback",
+          "error.type": "QortexTransportError",
+        },
+        value: 1,
+      }),
+    ]);
+  });
+
+  it("is a no-op without configured providers", async () => {
+    const mock = vi.fn().mockResolvedValue(mockResponse({ indexes: ["docs"] }));
+    const plain = new QortexVector({
+      id: "plain",
+      mcpClient: { callTool: mock } as unknown as Client,
+    });
+
+    await expect(plain.listIndexes()).resolves.toEqual(["docs"]);
+  });
+});
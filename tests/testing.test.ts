@@ -0,0 +1,415 @@
+/**
+ * Tests for the in-memory qortex stand-in (createQortexTestServer).
+ *
+ * Exercises QortexVector end to end over the in-memory transport,
+ * including the graph tools the e2e suite does not cover.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { QortexVector } from "../src/vector.js";
+import {
+  createQortexTestServer,
+  type QortexTestServer,
+} from "../src/testing.js";
+import {
+  QortexDimensionMismatchError,
+  QortexDomainNotFoundError,
+  QortexIndexNotFoundError,
+  QortexIntegrityError,
+  QortexInvalidFilterError,
+} from "../src/errors.js";
+
+describe("createQortexTestServer", () => {
+  let server: QortexTestServer;
+  let qortex: QortexVector;
+
+  beforeEach(async () => {
+    server = createQortexTestServer();
+    qortex = new QortexVector({
+      id: "stand-in",
+      transport: server.transport,
+      capabilityCheck: "strict",
+      validation: "strict",
+      // Send filters untouched so the stand-in's own evaluator is exercised
+      filterMode: "off",
+      supervisor: { initialDelayMs: 1 },
+    });
+    await qortex.connect();
+  });
+
+  afterEach(async () => {
+    await qortex.disconnect();
+  });
+
+  it("satisfies every capability QortexVector requires", async () => {
+    const caps = await qortex.capabilities();
+    expect(caps.compatible).toBe(true);
+    expect(caps.server).toEqual({ name: "qortex", version: "0.2.0" });
+    expect(Object.values(caps.methods).every(Boolean)).toBe(true);
+  });
+
+  describe("vector tools", () => {
+    beforeEach(async () => {
+      await qortex.createIndex({
+        indexName: "docs",
+        dimension: 2,
+        metric: "euclidean",
+      });
+      await qortex.upsert({
+        indexName: "docs",
+        vectors: [
+          [0, 0],
+          [3, 4],
+          [1, 1],
+        ],
+        metadata: [
+          { tier: "free", views: 10, tags: ["a", "b"] },
+          { tier: "pro", views: 200, tags: ["b"] },
+          { tier: "pro", views: 50, nested: { lang: "en" } },
+        ],
+        ids: ["origin", "far", "near"],
+      });
+    });
+
+    it("ranks by the index metric", async () => {
+      const results = await qortex.query({
+        indexName: "docs",
+        queryVector: [0, 0],
+        includeVector: true,
+      });
+      expect(results.map((r) => r.id)).toEqual(["origin", "near", "far"]);
+      expect(results[0].score).toBe(1);
+      expect(results[2].score).toBeCloseTo(1 / 6);
+      expect(results[0].vector).toEqual([0, 0]);
+    });
+
+    it("applies Mongo-style filters", async () => {
+      const query = (filter: Record<string, unknown>) =>
+        qortex
+          .query({ indexName: "docs", queryVector: [0, 0], filter })
+          .then((results) => results.map((r) => r.id).sort());
+
+      expect(await query({ tier: "pro", views: { $gte: 100 } })).toEqual([
+        "far",
+      ]);
+      expect(
+        await query({ $or: [{ tags: "a" }, { "nested.lang": "en" }] }),
+      ).toEqual(["near", "origin"]);
+      expect(await query({ tier: { $nin: ["pro"] } })).toEqual(["origin"]);
+    });
+
+    it("reports typed errors", async () => {
+      await expect(
+        qortex.describeIndex({ indexName: "missing" }),
+      ).rejects.toBeInstanceOf(QortexIndexNotFoundError);
+      await expect(
+        qortex.upsert({ indexName: "docs", vectors: [[1, 2, 3]], ids: ["x"] }),
+      ).rejects.toBeInstanceOf(QortexDimensionMismatchError);
+      await expect(
+        qortex.query({
+          indexName: "docs",
+          queryVector: [0, 0],
+          filter: { views: { $near: 1 } } as never,
+        }),
+      ).rejects.toBeInstanceOf(QortexInvalidFilterError);
+    });
+
+    it("updates vectors matching a filter", async () => {
+      await qortex.updateVector({
+        indexName: "docs",
+        filter: { tier: "pro" },
+        update: { metadata: { archived: true } },
+      });
+
+      const archived = await qortex.query({
+        indexName: "docs",
+        queryVector: [0, 0],
+        filter: { archived: true },
+      });
+      expect(archived.map((r) => r.id).sort()).toEqual(["far", "near"]);
+    });
+  });
+
+  describe("graph tools", () => {
+    it("answers text queries with items and linked rules", async () => {
+      const result = await qortex.textQuery("How do JWT tokens work?", {
+        mode: "vec",
+      });
+
+      expect(result.query_id).toMatch(/^q-/);
+      expect(result.items[0].node_id).toBe("sec:jwt");
+      expect(result.rules.map((r) => r.id)).toContain("rule:jwt-verify");
+    });
+
+    it("spreads scores to neighbors in graph mode", async () => {
+      const vec = await qortex.textQuery("signed tokens", { mode: "vec" });
+      const graph = await qortex.textQuery("signed tokens", { mode: "graph" });
+
+      const oauthScore = (items: typeof vec.items) =>
+        items.find((i) => i.node_id === "sec:oauth")?.score ?? 0;
+      expect(oauthScore(graph.items)).toBeGreaterThan(oauthScore(vec.items));
+    });
+
+    it("filters text queries by domain", async () => {
+      const result = await qortex.textQuery("rate limiting", {
+        domains: ["security"],
+      });
+      expect(result.items.every((i) => i.domain === "security")).toBe(true);
+    });
+
+    it("explores a node's neighborhood to the requested depth", async () => {
+      const oneHop = await qortex.explore("sec:oauth");
+      expect(oneHop?.neighbors.map((n) => n.id).sort()).toEqual([
+        "sec:api-keys",
+        "sec:jwt",
+      ]);
+      expect(oneHop?.rules.map((r) => r.id)).toEqual(["rule:prefer-oauth"]);
+
+      const twoHops = await qortex.explore("sec:oauth", 2);
+      expect(twoHops?.neighbors.map((n) => n.id)).toContain(
+        "infra:rate-limiting",
+      );
+
+      expect(await qortex.explore("nope")).toBeNull();
+    });
+
+    it("projects rules with filters", async () => {
+      const all = await qortex.getRules();
+      expect(all.rules).toHaveLength(4);
+      expect(all.domain_count).toBe(2);
+
+      const explicit = await qortex.getRules({
+        domains: ["security"],
+        includeDerived: false,
+      });
+      expect(explicit.rules.map((r) => r.id)).toEqual([
+        "rule:jwt-verify",
+        "rule:rotate-keys",
+      ]);
+    });
+
+    it("records feedback and lets it shift later rankings", async () => {
+      const first = await qortex.textQuery("keys tokens", { mode: "vec" });
+      const loser = first.items[first.items.length - 1];
+
+      await qortex.feedback(first.query_id, { [loser.id]: "accepted" });
+      await qortex.feedback(first.query_id, { [loser.id]: "accepted" });
+
+      expect(server.feedback[0]).toEqual({
+        queryId: first.query_id,
+        outcomes: { [loser.id]: "accepted" },
+        source: "mastra",
+      });
+      const second = await qortex.textQuery("keys tokens", { mode: "vec" });
+      expect(second.items[0].id).toBe(loser.id);
+    });
+
+    it("serves a seeded graph", async () => {
+      const custom = createQortexTestServer({
+        graph: {
+          nodes: [
+            {
+              id: "n1",
+              name: "Kafka",
+              description: "Event streaming",
+              domain: "data",
+              confidence: 1,
+              properties: {},
+            },
+          ],
+          edges: [],
+          rules: [],
+        },
+      });
+      const store = new QortexVector({
+        id: "custom",
+        transport: custom.transport,
+      });
+
+      const result = await store.textQuery("kafka");
+      expect(result.items.map((i) => i.node_id)).toEqual(["n1"]);
+      await store.disconnect();
+    });
+  });
+
+  describe("graph write tools", () => {
+    it("adds concepts, edges and rules that queries then see", async () => {
+      const [saml, sso] = await qortex.addConcepts([
+        {
+          id: "sec:saml",
+          name: "SAML",
+          description: "XML assertions for federated login",
+          domain: "security",
+        },
+        { name: "SSO", description: "Single sign-on", domain: "security" },
+      ]);
+      expect(saml).toBe("sec:saml");
+      expect(sso).toMatch(/^concept:/);
+
+      const ref = await qortex.addEdge({
+        source_id: sso,
+        target_id: saml,
+        relation_type: "uses",
+      });
+      expect(ref).toEqual({
+        source_id: sso,
+        target_id: "sec:saml",
+        relation_type: "uses",
+      });
+      const ruleId = await qortex.addRule({
+        text: "Validate SAML assertion signatures",
+        domain: "security",
+        source_concepts: [saml],
+      });
+
+      const explored = await qortex.explore(saml);
+      expect(explored?.neighbors.map((n) => n.id)).toEqual([sso]);
+      expect(explored?.rules.map((r) => r.id)).toEqual([ruleId]);
+      const found = await qortex.textQuery("SAML assertions");
+      expect(found.items[0].node_id).toBe("sec:saml");
+    });
+
+    it("updates concepts, edges and rules", async () => {
+      const node = await qortex.updateConcept("sec:jwt", { confidence: 0.5 });
+      expect(node).toMatchObject({
+        id: "sec:jwt",
+        name: "JWT",
+        confidence: 0.5,
+      });
+
+      const edge = await qortex.updateEdge(
+        { source_id: "sec:oauth", target_id: "sec:jwt", relation_type: "uses" },
+        { properties: { since: 2012 } },
+      );
+      expect(edge).toMatchObject({
+        confidence: 0.9,
+        properties: { since: 2012 },
+      });
+
+      const rule = await qortex.updateRule("rule:breaker", {
+        category: "resilience",
+      });
+      expect(rule.category).toBe("resilience");
+    });
+
+    it("deletes concepts with their edges", async () => {
+      expect(await qortex.deleteConcepts(["sec:api-keys"])).toBe(1);
+
+      expect(
+        server.graph.edges.some(
+          (e) =>
+            e.source_id === "sec:api-keys" || e.target_id === "sec:api-keys",
+        ),
+      ).toBe(false);
+      const prefer = server.graph.rules.find(
+        (r) => r.id === "rule:prefer-oauth",
+      );
+      expect(prefer?.source_concepts).toEqual(["sec:oauth"]);
+
+      await qortex.deleteEdge({
+        source_id: "sec:oauth",
+        target_id: "sec:jwt",
+        relation_type: "uses",
+      });
+      expect(
+        await qortex.deleteRules(["rule:jwt-verify", "rule:breaker"]),
+      ).toBe(2);
+      expect(server.graph.rules.map((r) => r.id)).toEqual([
+        "rule:rotate-keys",
+        "rule:prefer-oauth",
+      ]);
+    });
+
+    it("rejects writes that reference missing items", async () => {
+      const error = await qortex
+        .addEdges([
+          { source_id: "sec:jwt", target_id: "sec:nope", relation_type: "x" },
+          { source_id: "sec:gone", target_id: "sec:jwt", relation_type: "x" },
+        ])
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(QortexIntegrityError);
+      expect((error as QortexIntegrityError).missing).toEqual([
+        "sec:nope",
+        "sec:gone",
+      ]);
+      expect(server.graph.edges).toHaveLength(4);
+
+      await expect(
+        qortex.addRule({ text: "t", domain: "d", source_concepts: ["nope"] }),
+      ).rejects.toBeInstanceOf(QortexIntegrityError);
+      await expect(
+        qortex.updateConcept("nope", { name: "x" }),
+      ).rejects.toBeInstanceOf(QortexIntegrityError);
+      await expect(
+        qortex.deleteEdge({
+          source_id: "sec:jwt",
+          target_id: "sec:oauth",
+          relation_type: "uses",
+        }),
+      ).rejects.toThrow("Edges not found: sec:jwt -uses-> sec:oauth");
+    });
+  });
+
+  describe("domain tools", () => {
+    it("lists domains with their sizes", async () => {
+      expect(await qortex.listDomains()).toEqual([
+        {
+          name: "security",
+          description: "Authentication and authorization",
+          concept_count: 3,
+          edge_count: 2,
+          rule_count: 3,
+        },
+        {
+          name: "infra",
+          description: "Reliability and traffic control",
+          concept_count: 2,
+          edge_count: 2,
+          rule_count: 1,
+        },
+      ]);
+    });
+
+    it("creates, describes and deletes domains", async () => {
+      const created = await qortex.createDomain("data", {
+        description: "Pipelines",
+      });
+      expect(created).toMatchObject({ name: "data", concept_count: 0 });
+      expect(await qortex.describeDomain("data")).toEqual(created);
+
+      await qortex.deleteDomain("security");
+      expect((await qortex.listDomains()).map((d) => d.name)).toEqual([
+        "infra",
+        "data",
+      ]);
+      expect(server.graph.edges.map((e) => e.relation_type)).toEqual([
+        "complements",
+      ]);
+      expect((await qortex.getRules()).rules.map((r) => r.id)).toEqual([
+        "rule:breaker",
+      ]);
+    });
+
+    it("reports missing domains as QortexDomainNotFoundError", async () => {
+      await expect(qortex.describeDomain("nope")).rejects.toBeInstanceOf(
+        QortexDomainNotFoundError,
+      );
+      await expect(qortex.deleteDomain("nope")).rejects.toBeInstanceOf(
+        QortexDomainNotFoundError,
+      );
+    });
+  });
+
+  it("keeps state across reconnects", async () => {
+    await qortex.createIndex({ indexName: "persist", dimension: 2 });
+    const reconnected = new Promise<void>((resolve) =>
+      qortex.client.once("reconnected", () => resolve()),
+    );
+
+    await server.close();
+    await reconnected;
+
+    expect(await qortex.listIndexes()).toEqual(["persist"]);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Tests for the Mastra agent tools against the in-memory stand-in.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+import { QortexFeedbackBuffer } from "../src/feedback.js";
+import { QortexRetrievalSession } from "../src/session.js";
+import {
+  createQortexExploreTool,
+  createQortexFeedbackTool,
+  createQortexQueryTool,
+  createQortexRulesTool,
+} from "../src/tools.js";
+
+describe("qortex agent tools", () => {
+  const server = createQortexTestServer();
+  let qortex: QortexVector;
+
+  beforeAll(async () => {
+    qortex = new QortexVector({ id: "tools", transport: server.transport });
+    await qortex.connect();
+  });
+
+  afterAll(async () => {
+    await qortex.disconnect();
+  });
+
+  describe("createQortexQueryTool", () => {
+    it("returns condensed items, rules and the query id", async () => {
+      const session = new QortexRetrievalSession(qortex);
+      const tool = createQortexQueryTool(qortex, {
+        maxContentChars: 12,
+        maxRules: 1,
+        session,
+      });
+
+      expect(tool.id).toBe("qortex-query");
+      const output = await tool.execute!({ query: "JWT tokens" }, {});
+
+      expect(output).toMatchObject({
+        queryId: expect.any(String),
+        items: expect.arrayContaining([
+          expect.objectContaining({ id: "sec:jwt", nodeId: "sec:jwt" }),
+        ]),
+      });
+      const { items, rules } = output as {
+        items: Array<{ content: string }>;
+        rules: unknown[];
+      };
+      expect(items.every((i) => i.content.length <= 12)).toBe(true);
+      expect(items.some((i) => i.content.endsWith("…"))).toBe(true);
+      expect(rules).toHaveLength(1);
+      expect(tool.outputSchema!.safeParse(output).success).toBe(true);
+      // Recorded for session feedback
+      expect(session.items.map((i) => i.id)).toContain("sec:jwt");
+    });
+
+    it("caps topK and restricts domains", async () => {
+      const textQuery = vi.spyOn(qortex, "textQuery");
+      const tool = createQortexQueryTool(qortex, {
+        domains: ["infra"],
+        maxTopK: 3,
+      });
+
+      expect(
+        tool.inputSchema!.safeParse({ query: "keys", topK: 4 }).success,
+      ).toBe(false);
+      expect(
+        tool.inputSchema!.safeParse({ query: "keys", domains: ["security"] })
+          .success,
+      ).toBe(false);
+
+      const output = (await tool.execute!(
+        { query: "keys and tokens" },
+        {},
+      )) as {
+        items: Array<{ domain: string }>;
+      };
+      expect(textQuery).toHaveBeenLastCalledWith("keys and tokens", {
+        topK: 3,
+        domains: ["infra"],
+        mode: undefined,
+        signal: undefined,
+      });
+      expect(output.items.every((i) => i.domain === "infra")).toBe(true);
+      textQuery.mockRestore();
+    });
+
+    it("treats an empty domain list as all domains", async () => {
+      const textQuery = vi.spyOn(qortex, "textQuery");
+      const tool = createQortexQueryTool(qortex, { domains: [] });
+
+      const output = (await tool.execute!(
+        { query: "keys and tokens", domains: [] },
+        {},
+      )) as { items: unknown[] };
+      expect(textQuery).toHaveBeenLastCalledWith(
+        "keys and tokens",
+        expect.objectContaining({ domains: undefined }),
+      );
+      expect(output.items.length).toBeGreaterThan(0);
+      textQuery.mockRestore();
+    });
+
+    it("records only the items it returns", async () => {
+      const item = (id: string, domain: string) => ({
+        id,
+        content: id,
+        score: 0.5,
+        domain,
+        node_id: id,
+        metadata: {},
+      });
+      const fake = {
+        textQuery: vi.fn().mockResolvedValue({
+          query_id: "q-1",
+          items: [item("sec:jwt", "security"), item("infra:cache", "infra")],
+          rules: [],
+        }),
+      };
+      const session = new QortexRetrievalSession(qortex);
+      const tool = createQortexQueryTool(fake, {
+        domains: ["security"],
+        session,
+      });
+
+      await tool.execute!({ query: "tokens" }, {});
+
+      expect(session.items.map((i) => i.id)).toEqual(["sec:jwt"]);
+    });
+  });
+
+  describe("createQortexExploreTool", () => {
+    it("returns the neighborhood with typed relations", async () => {
+      const tool = createQortexExploreTool(qortex);
+      const output = await tool.execute!({ nodeId: "sec:oauth" }, {});
+
+      expect(output).toMatchObject({
+        found: true,
+        node: { id: "sec:oauth", domain: "security" },
+        relations: expect.arrayContaining([
+          expect.objectContaining({
+            source: "sec:oauth",
+            relation: "uses",
+            target: "sec:jwt",
+          }),
+        ]),
+      });
+      expect(tool.outputSchema!.safeParse(output).success).toBe(true);
+      expect(
+        tool.inputSchema!.safeParse({ nodeId: "x", depth: 3 }).success,
+      ).toBe(false);
+    });
+
+    it("hides nodes outside the allowed domains", async () => {
+      const tool = createQortexExploreTool(qortex, {
+        domains: ["security"],
+        maxNeighbors: 5,
+      });
+
+      const output = (await tool.execute!({ nodeId: "sec:api-keys" }, {})) as {
+        neighbors: Array<{ id: string }>;
+        relations: unknown[];
+      };
+      expect(output.neighbors.map((n) => n.id)).toEqual(["sec:oauth"]);
+      expect(output.relations).toHaveLength(1);
+
+      expect(
+        await tool.execute!({ nodeId: "infra:rate-limiting" }, {}),
+      ).toMatchObject({ found: false, node: null });
+      expect(await tool.execute!({ nodeId: "nope" }, {})).toMatchObject({
+        found: false,
+      });
+    });
+  });
+
+  describe("createQortexRulesTool", () => {
+    it("returns rules within the budget and counts the rest", async () => {
+      const all = await createQortexRulesTool(qortex).execute!({}, {});
+      const { rules } = all as { rules: Array<{ domain: string }> };
+      expect(rules.length).toBeGreaterThan(1);
+
+      const capped = await createQortexRulesTool(qortex, {
+        maxRules: 1,
+      }).execute!({}, {});
+      expect(capped).toMatchObject({ omitted: rules.length - 1 });
+
+      const security = (await createQortexRulesTool(qortex, {
+        domains: ["security"],
+      }).execute!({}, {})) as { rules: Array<{ domain: string }> };
+      expect(security.rules.every((r) => r.domain === "security")).toBe(true);
+    });
+
+    it("does not count near-duplicates as omitted", async () => {
+      const { rules } = await qortex.getRules({ domains: ["security"] });
+      const [first, second] = rules;
+      const fake = {
+        getRules: vi.fn().mockResolvedValue({
+          rules: [first, { ...first, id: `${first.id}-copy` }, second],
+        }),
+      };
+
+      const output = await createQortexRulesTool(fake, {
+        maxRules: 1,
+      }).execute!({}, {});
+
+      expect(output).toMatchObject({ omitted: 1 });
+    });
+  });
+
+  describe("createQortexFeedbackTool", () => {
+    it("reports outcomes for a query", async () => {
+      const query = createQortexQueryTool(qortex);
+      const { queryId } = (await query.execute!({ query: "JWT" }, {})) as {
+        queryId: string;
+      };
+
+      const output = await createQortexFeedbackTool(qortex).execute!(
+        { queryId, outcomes: { "sec:jwt": "accepted" } },
+        {},
+      );
+
+      expect(output).toEqual({ status: expect.any(String), outcomeCount: 1 });
+      expect(server.feedback.at(-1)).toEqual({
+        queryId,
+        outcomes: { "sec:jwt": "accepted" },
+        source: "mastra-agent",
+      });
+    });
+
+    it("queues on a buffer when one is given", async () => {
+      const buffer = new QortexFeedbackBuffer(qortex);
+      const tool = createQortexFeedbackTool(qortex, { buffer, source: "bot" });
+
+      expect(
+        await tool.execute!(
+          { queryId: "q-1", outcomes: { a: "rejected" } },
+          {},
+        ),
+      ).toEqual({ status: "queued", outcomeCount: 1 });
+      expect(buffer.stats.pending).toBe(1);
+      expect(
+        tool.inputSchema!.safeParse({ queryId: "q", outcomes: { a: "meh" } })
+          .success,
+      ).toBe(false);
+    });
+  });
+});
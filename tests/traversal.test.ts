@@ -0,0 +1,239 @@
+/**
+ * Tests for multi-hop traversal over the in-memory stand-in's default
+ * graph:
+ *
+ *   sec:jwt <-uses- sec:oauth <-alternative_to- sec:api-keys
+ *     <-keyed_by- infra:rate-limiting -complements-> infra:circuit-breaker
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { QortexVector } from "../src/vector.js";
+import { createQortexTestServer } from "../src/testing.js";
+import {
+  QortexGraphTraversal,
+  type QortexGraphSource,
+} from "../src/traversal.js";
+import { QortexTransportError } from "../src/errors.js";
+
+describe("QortexGraphTraversal", () => {
+  let qortex: QortexVector;
+  let explore: ReturnType<typeof vi.fn>;
+
+  beforeAll(async () => {
+    qortex = new QortexVector({
+      id: "traversal",
+      transport: createQortexTestServer().transport,
+    });
+    await qortex.connect();
+  });
+
+  afterAll(async () => {
+    await qortex.disconnect();
+  });
+
+  function traversal(): QortexGraphTraversal {
+    explore = vi.fn((...args: Parameters<QortexGraphSource["explore"]>) =>
+      qortex.explore(...args),
+    );
+    return new QortexGraphTraversal({ explore }, { concurrency: 2 });
+  }
+
+  async function collect(
+    iterator: AsyncGenerator<{ node: { id: string }; depth: number }>,
+  ): Promise<Array<[string, number]>> {
+    const steps: Array<[string, number]> = [];
+    for await (const step of iterator) steps.push([step.node.id, step.depth]);
+    return steps;
+  }
+
+  describe("traverse", () => {
+    it("walks breadth-first up to maxDepth", async () => {
+      expect(
+        await collect(traversal().traverse("sec:oauth", { maxDepth: 2 })),
+      ).toEqual([
+        ["sec:oauth", 0],
+        ["sec:jwt", 1],
+        ["sec:api-keys", 1],
+        ["infra:rate-limiting", 2],
+      ]);
+    });
+
+    it("walks depth-first", async () => {
+      expect(
+        await collect(
+          traversal().traverse("infra:rate-limiting", { order: "dfs" }),
+        ),
+      ).toEqual([
+        ["infra:rate-limiting", 0],
+        ["sec:api-keys", 1],
+        ["sec:oauth", 2],
+        ["sec:jwt", 3],
+        ["infra:circuit-breaker", 1],
+      ]);
+    });
+
+    it("follows only allowed edges", async () => {
+      const steps = [];
+      for await (const step of traversal().traverse("sec:oauth", {
+        direction: "out",
+      })) {
+        steps.push(step);
+      }
+      expect(steps.map((s) => s.node.id)).toEqual(["sec:oauth", "sec:jwt"]);
+      expect(steps[1]).toMatchObject({
+        parentId: "sec:oauth",
+        via: { relation_type: "uses" },
+      });
+
+      expect(
+        await collect(
+          traversal().traverse("sec:api-keys", { relationTypes: ["keyed_by"] }),
+        ),
+      ).toEqual([
+        ["sec:api-keys", 0],
+        ["infra:rate-limiting", 1],
+      ]);
+    });
+
+    it("fetches lazily and yields nothing for a missing start", async () => {
+      for await (const step of traversal().traverse("sec:oauth")) {
+        expect(step.depth).toBe(0);
+        break;
+      }
+      expect(explore).toHaveBeenCalledTimes(1);
+
+      expect(await collect(traversal().traverse("nope"))).toEqual([]);
+    });
+  });
+
+  describe("shortestPath", () => {
+    it("returns the nodes and edges along the fewest-hop path", async () => {
+      const path = await traversal().shortestPath(
+        "sec:jwt",
+        "infra:circuit-breaker",
+        { maxDepth: 4 },
+      );
+
+      expect(path?.nodes.map((n) => n.id)).toEqual([
+        "sec:jwt",
+        "sec:oauth",
+        "sec:api-keys",
+        "infra:rate-limiting",
+        "infra:circuit-breaker",
+      ]);
+      expect(path?.edges.map((e) => e.relation_type)).toEqual([
+        "uses",
+        "alternative_to",
+        "keyed_by",
+        "complements",
+      ]);
+    });
+
+    it("returns null beyond maxDepth or across filtered edges", async () => {
+      const graph = traversal();
+      expect(
+        await graph.shortestPath("sec:jwt", "infra:circuit-breaker"),
+      ).toBeNull();
+      expect(
+        await graph.shortestPath("sec:jwt", "infra:rate-limiting", {
+          minConfidence: 0.65,
+        }),
+      ).toBeNull();
+      expect(await graph.shortestPath("nope", "sec:jwt")).toBeNull();
+    });
+
+    it("returns a single-node path from a node to itself", async () => {
+      const path = await traversal().shortestPath("sec:jwt", "sec:jwt");
+      expect(path).toMatchObject({ nodes: [{ id: "sec:jwt" }], edges: [] });
+    });
+  });
+
+  describe("subgraph", () => {
+    it("merges neighborhoods of several seeds", async () => {
+      const sub = await traversal().subgraph(
+        ["sec:jwt", "infra:circuit-breaker", "sec:jwt", "nope"],
+        1,
+      );
+
+      expect(sub.nodes.map((n) => n.id).sort()).toEqual([
+        "infra:circuit-breaker",
+        "infra:rate-limiting",
+        "sec:jwt",
+        "sec:oauth",
+      ]);
+      expect(sub.edges.map((e) => e.relation_type).sort()).toEqual([
+        "complements",
+        "uses",
+      ]);
+      expect(sub.missing).toEqual(["nope"]);
+      // Each seed is explored once; the depth-1 frontier reuses the cache
+      expect(explore).toHaveBeenCalledTimes(3);
+    });
+
+    it("de-duplicates nodes and edges reachable from several seeds", async () => {
+      const sub = await traversal().subgraph(["sec:jwt", "sec:api-keys"], 1);
+
+      expect(sub.nodes.map((n) => n.id).sort()).toEqual([
+        "infra:rate-limiting",
+        "sec:api-keys",
+        "sec:jwt",
+        "sec:oauth",
+      ]);
+      expect(sub.edges).toHaveLength(3);
+      expect(explore.mock.calls.filter(([id]) => id === "sec:oauth")).toEqual(
+        [],
+      );
+    });
+
+    it("reuses cached neighborhoods until clearCache()", async () => {
+      const graph = traversal();
+      await graph.subgraph(["sec:oauth"], 1);
+      const calls = explore.mock.calls.length;
+
+      await graph.subgraph(["sec:oauth"], 1);
+      expect(explore).toHaveBeenCalledTimes(calls);
+
+      graph.clearCache();
+      await graph.subgraph(["sec:oauth"], 1);
+      expect(explore.mock.calls.length).toBeGreaterThan(calls);
+    });
+
+    it("propagates explore failures and does not cache them", async () => {
+      const failing = vi
+        .fn<QortexGraphSource["explore"]>()
+        .mockRejectedValueOnce(new QortexTransportError("pipe closed"))
+        .mockImplementation((...args) => qortex.explore(...args));
+      const graph = new QortexGraphTraversal({ explore: failing });
+
+      await expect(graph.subgraph(["sec:jwt"])).rejects.toBeInstanceOf(
+        QortexTransportError,
+      );
+      expect((await graph.subgraph(["sec:jwt"])).nodes).toHaveLength(2);
+    });
+
+    it("aborts only the caller whose signal fired on a shared fetch", async () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const slow = vi.fn<QortexGraphSource["explore"]>(async (...args) => {
+        await gate;
+        return qortex.explore(...args);
+      });
+      const graph = new QortexGraphTraversal({ explore: slow });
+      const controller = new AbortController();
+
+      const aborted = graph.subgraph(["sec:jwt"], 0, {
+        signal: controller.signal,
+      });
+      const other = graph.subgraph(["sec:jwt"], 0);
+      controller.abort(new Error("caller went away"));
+      release();
+
+      await expect(aborted).rejects.toThrow("caller went away");
+      expect((await other).nodes.map((n) => n.id)).toEqual(["sec:jwt"]);
+      expect(slow).toHaveBeenCalledTimes(1);
+      expect(slow.mock.calls[0][2]?.signal).toBeUndefined();
+    });
+  });
+});
@@ -7,6 +7,14 @@
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { QortexVector } from "../src/vector.js";
+import {
+  QortexDimensionMismatchError,
+  QortexError,
+  QortexIndexNotFoundError,
+  QortexIntegrityError,
+  QortexTransportError,
+  QortexValidationError,
+} from "../src/errors.js";
 import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 
 // ---------------------------------------------------------------------------
@@ -63,10 +71,14 @@ describe("QortexVector", () => {
         metric: "cosine",
       });
 
-      expect(callTool).toHaveBeenCalledWith({
-        name: "qortex_vector_create_index",
-        arguments: { index_name: "docs", dimension: 384, metric: "cosine" },
-      });
+      expect(callTool).toHaveBeenCalledWith(
+        {
+          name: "qortex_vector_create_index",
+          arguments: { index_name: "docs", dimension: 384, metric: "cosine" },
+        },
+        undefined,
+        expect.anything(),
+      );
     });
 
     it("throws on error response", async () => {
@@ -113,10 +125,14 @@ describe("QortexVector", () => {
       );
 
       await qortex.deleteIndex({ indexName: "docs" });
-      expect(callTool).toHaveBeenCalledWith({
-        name: "qortex_vector_delete_index",
-        arguments: { index_name: "docs" },
-      });
+      expect(callTool).toHaveBeenCalledWith(
+        {
+          name: "qortex_vector_delete_index",
+          arguments: { index_name: "docs" },
+        },
+        undefined,
+        expect.anything(),
+      );
     });
   });
 
@@ -138,15 +154,19 @@ describe("QortexVector", () => {
       });
 
       expect(ids).toEqual(["v1", "v2"]);
-      expect(callTool).toHaveBeenCalledWith({
-        name: "qortex_vector_upsert",
-        arguments: {
-          index_name: "docs",
-          vectors: [[1, 0, 0], [0, 1, 0]],
-          metadata: [{ source: "a" }, { source: "b" }],
-          ids: ["v1", "v2"],
+      expect(callTool).toHaveBeenCalledWith(
+        {
+          name: "qortex_vector_upsert",
+          arguments: {
+            index_name: "docs",
+            vectors: [[1, 0, 0], [0, 1, 0]],
+            metadata: [{ source: "a" }, { source: "b" }],
+            ids: ["v1", "v2"],
+          },
         },
-      });
+        undefined,
+        expect.anything(),
+      );
     });
 
     it("auto-generates ids when not provided", async () => {
@@ -197,9 +217,11 @@ describe("QortexVector", () => {
       expect(callTool).toHaveBeenCalledWith(
         expect.objectContaining({
           arguments: expect.objectContaining({
-            filter: { source: "handbook" },
+            filter: { source: { $eq: "handbook" } },
           }),
         }),
+        undefined,
+        expect.anything(),
       );
     });
   });
@@ -216,16 +238,20 @@ describe("QortexVector", () => {
         update: { metadata: { reviewed: true } },
       });
 
-      expect(callTool).toHaveBeenCalledWith({
-        name: "qortex_vector_update",
-        arguments: {
-          index_name: "docs",
-          id: "v1",
-          filter: undefined,
-          vector: undefined,
-          metadata: { reviewed: true },
+      expect(callTool).toHaveBeenCalledWith(
+        {
+          name: "qortex_vector_update",
+          arguments: {
+            index_name: "docs",
+            id: "v1",
+            filter: undefined,
+            vector: undefined,
+            metadata: { reviewed: true },
+          },
         },
-      });
+        undefined,
+        expect.anything(),
+      );
     });
   });
 
@@ -236,10 +262,14 @@ describe("QortexVector", () => {
       );
 
       await qortex.deleteVector({ indexName: "docs", id: "v1" });
-      expect(callTool).toHaveBeenCalledWith({
-        name: "qortex_vector_delete",
-        arguments: { index_name: "docs", id: "v1" },
-      });
+      expect(callTool).toHaveBeenCalledWith(
+        {
+          name: "qortex_vector_delete",
+          arguments: { index_name: "docs", id: "v1" },
+        },
+        undefined,
+        expect.anything(),
+      );
     });
   });
 
@@ -254,14 +284,18 @@ describe("QortexVector", () => {
         ids: ["v1", "v2"],
       });
 
-      expect(callTool).toHaveBeenCalledWith({
-        name: "qortex_vector_delete_many",
-        arguments: {
-          index_name: "docs",
-          ids: ["v1", "v2"],
-          filter: undefined,
+      expect(callTool).toHaveBeenCalledWith(
+        {
+          name: "qortex_vector_delete_many",
+          arguments: {
+            index_name: "docs",
+            ids: ["v1", "v2"],
+            filter: undefined,
+          },
         },
-      });
+        undefined,
+        expect.anything(),
+      );
     });
 
     it("deletes by filter", async () => {
@@ -274,14 +308,18 @@ describe("QortexVector", () => {
         filter: { source: "old" },
       });
 
-      expect(callTool).toHaveBeenCalledWith({
-        name: "qortex_vector_delete_many",
-        arguments: {
-          index_name: "docs",
-          ids: undefined,
-          filter: { source: "old" },
+      expect(callTool).toHaveBeenCalledWith(
+        {
+          name: "qortex_vector_delete_many",
+          arguments: {
+            index_name: "docs",
+            ids: undefined,
+            filter: { source: { $eq: "old" } },
+          },
         },
-      });
+        undefined,
+        expect.anything(),
+      );
     });
   });
 
@@ -428,6 +466,356 @@ describe("QortexVector", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Typed errors
+  // -----------------------------------------------------------------------
+
+  describe("errors", () => {
+    it("throws QortexDimensionMismatchError from createIndex", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({ error: "Dimension mismatch" }),
+      );
+
+      const error = await qortex
+        .createIndex({ indexName: "docs", dimension: 384 })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(QortexDimensionMismatchError);
+      expect((error as QortexError).tool).toBe("qortex_vector_create_index");
+      expect((error as QortexError).payload).toEqual({
+        error: "Dimension mismatch",
+      });
+    });
+
+    it("throws QortexIndexNotFoundError from query", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({ error: "Index 'nope' not found" }),
+      );
+
+      await expect(
+        qortex.query({ indexName: "nope", queryVector: [1, 0, 0] }),
+      ).rejects.toBeInstanceOf(QortexIndexNotFoundError);
+    });
+
+    it("throws from graph extras too", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({ error: "Graph backend unavailable" }),
+      );
+
+      await expect(qortex.getRules()).rejects.toBeInstanceOf(QortexError);
+      await expect(qortex.feedback("q-1", {})).rejects.toThrow(
+        "Graph backend unavailable",
+      );
+    });
+
+    it("checks referenced concepts before writing when checkReferences is on", async () => {
+      const mock = createMockClient();
+      const checked = new QortexVector({
+        id: "checked",
+        mcpClient: mock.client,
+        checkReferences: true,
+      });
+      mock.callTool.mockImplementation(
+        async ({ arguments: args }: { arguments: { node_id: string } }) =>
+          mockResponse(
+            args.node_id === "sec:saml"
+              ? { node: null }
+              : {
+                  node: {
+                    id: args.node_id,
+                    name: args.node_id,
+                    description: "",
+                    domain: "security",
+                    confidence: 1,
+                    properties: {},
+                  },
+                  edges: [],
+                  neighbors: [],
+                  rules: [],
+                },
+          ),
+      );
+      const edge = {
+        source_id: "sec:oauth",
+        target_id: "sec:saml",
+        relation_type: "uses",
+      };
+
+      const error = await checked.addEdges([edge]).catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(QortexIntegrityError);
+      expect(error).toMatchObject({
+        tool: "qortex_add_edges",
+        missing: ["sec:saml"],
+        retryable: false,
+      });
+      expect(mock.callTool.mock.calls.map(([req]) => req.name)).toEqual([
+        "qortex_explore",
+        "qortex_explore",
+      ]);
+      expect(mock.callTool.mock.calls[0][0].arguments).toEqual({
+        node_id: "sec:oauth",
+        depth: 0,
+      });
+
+      await expect(
+        checked.addRules([
+          { text: "Use SAML", domain: "security", source_concepts: ["sec:saml"] },
+        ]),
+      ).rejects.toMatchObject({ tool: "qortex_add_rules", missing: ["sec:saml"] });
+      expect(mock.callTool).not.toHaveBeenCalledWith(
+        expect.objectContaining({ name: "qortex_add_rules" }),
+        undefined,
+        expect.anything(),
+      );
+    });
+
+    it("leaves reference checks to the server by default", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({
+          error: "Edge endpoints not found: sec:saml",
+          code: "missing_reference",
+          missing: ["sec:saml"],
+        }),
+      );
+
+      await expect(
+        qortex.addEdge({
+          source_id: "sec:oauth",
+          target_id: "sec:saml",
+          relation_type: "uses",
+        }),
+      ).rejects.toMatchObject({
+        tool: "qortex_add_edges",
+        missing: ["sec:saml"],
+      });
+      expect(callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws QortexIntegrityError when an update targets a missing item", async () => {
+      callTool.mockResolvedValue(
+        mockResponse({ error: "Rule rule:gone not found" }),
+      );
+
+      await expect(
+        qortex.updateRule("rule:gone", { text: "x" }),
+      ).rejects.toBeInstanceOf(QortexIntegrityError);
+
+      callTool.mockResolvedValue(
+        mockResponse({
+          error: "Edge not found",
+          code: "missing_reference",
+          missing: ["sec:a -uses-> sec:b"],
+        }),
+      );
+      await expect(
+        qortex.updateEdge(
+          { source_id: "sec:a", target_id: "sec:b", relation_type: "uses" },
+          { confidence: 1 },
+        ),
+      ).rejects.toMatchObject({
+        tool: "qortex_update_edge",
+        missing: ["sec:a -uses-> sec:b"],
+      });
+    });
+
+    it("classifies MCP isError text responses", async () => {
+      callTool.mockResolvedValue({
+        content: [{ type: "text", text: "Index 'docs' does not exist" }],
+        isError: true,
+      });
+
+      await expect(
+        qortex.describeIndex({ indexName: "docs" }),
+      ).rejects.toBeInstanceOf(QortexIndexNotFoundError);
+    });
+
+    it("wraps transport failures as retryable", async () => {
+      callTool.mockRejectedValue(new Error("write EPIPE"));
+
+      const error = await qortex
+        .feedback("q-1", { "i-1": "accepted" })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(QortexTransportError);
+      expect((error as QortexError).retryable).toBe(true);
+      expect((error as QortexError).tool).toBe("qortex_feedback");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Response validation
+  // -----------------------------------------------------------------------
+
+  describe("response validation", () => {
+    function withValidation(validation: "strict" | "warn" | "off") {
+      const mock = createMockClient();
+      const vector = new QortexVector({
+        id: "validated",
+        mcpClient: mock.client,
+        validation,
+      });
+      return { vector, callTool: mock.callTool };
+    }
+
+    it("throws with tool and path in strict mode", async () => {
+      const { vector, callTool } = withValidation("strict");
+      callTool.mockResolvedValue(
+        mockResponse({
+          results: [{ id: "v1", score: "high", metadata: {} }],
+        }),
+      );
+
+      const error = await vector
+        .query({ indexName: "docs", queryVector: [1, 0, 0] })
+        .catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(QortexValidationError);
+      expect((error as QortexValidationError).tool).toBe("qortex_vector_query");
+      expect((error as QortexValidationError).issues).toEqual([
+        { path: "results.0.score", message: "Expected number, received string" },
+      ]);
+      expect((error as Error).message).toContain(
+        "Invalid response from qortex_vector_query: results.0.score",
+      );
+    });
+
+    it("validates graph extras", async () => {
+      const { vector, callTool } = withValidation("strict");
+      callTool.mockResolvedValue(
+        mockResponse({ items: [], rules: [] }),
+      );
+
+      await expect(vector.textQuery("auth")).rejects.toThrow(
+        "qortex_query: query_id: Required",
+      );
+    });
+
+    it("still returns null for a missing explore node", async () => {
+      const { vector, callTool } = withValidation("strict");
+      callTool.mockResolvedValue(mockResponse({ node: null }));
+
+      expect(await vector.explore("nonexistent")).toBeNull();
+    });
+
+    it("logs and returns the raw response in warn mode", async () => {
+      const { vector, callTool } = withValidation("warn");
+      const warn = vi.fn();
+      vector.__setLogger({ warn, debug: vi.fn() } as never);
+      callTool.mockResolvedValue(mockResponse({ indexes: "docs" }));
+
+      const indexes = await vector.listIndexes();
+
+      expect(indexes).toBe("docs");
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("qortex_vector_list_indexes: indexes"),
+      );
+    });
+
+    it("keeps fields added by newer servers", async () => {
+      const { vector, callTool } = withValidation("strict");
+      callTool.mockResolvedValue(
+        mockResponse({
+          status: "recorded",
+          query_id: "q-1",
+          outcome_count: 1,
+          source: "mastra",
+          learner_version: 3,
+        }),
+      );
+
+      const result = await vector.feedback("q-1", { "i-1": "accepted" });
+      expect(result).toMatchObject({ learner_version: 3 });
+    });
+
+    it("skips validation when off", async () => {
+      const { vector, callTool } = withValidation("off");
+      callTool.mockResolvedValue(mockResponse({ dimension: "384" }));
+
+      const stats = await vector.describeIndex({ indexName: "docs" });
+      expect(stats.dimension).toBe("384");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Timeouts and cancellation
+  // -----------------------------------------------------------------------
+
+  describe("call options", () => {
+    it("applies the default timeout", async () => {
+      callTool.mockResolvedValue(mockResponse({ indexes: [] }));
+
+      await qortex.listIndexes();
+
+      expect(callTool).toHaveBeenCalledWith(
+        expect.anything(),
+        undefined,
+        { signal: undefined, timeout: 60_000 },
+      );
+    });
+
+    it("uses the configured default timeout", async () => {
+      const mock = createMockClient();
+      mock.callTool.mockResolvedValue(mockResponse({ indexes: [] }));
+      const configured = new QortexVector({
+        id: "timeouts",
+        mcpClient: mock.client,
+        timeoutMs: 5_000,
+      });
+
+      await configured.listIndexes();
+
+      expect(mock.callTool).toHaveBeenCalledWith(
+        expect.anything(),
+        undefined,
+        { signal: undefined, timeout: 5_000 },
+      );
+    });
+
+    it("forwards per-call timeout and signal", async () => {
+      callTool.mockResolvedValue(mockResponse({ results: [] }));
+      const controller = new AbortController();
+
+      await qortex.query({
+        indexName: "docs",
+        queryVector: [1, 0, 0],
+        signal: controller.signal,
+        timeoutMs: 250,
+      });
+
+      expect(callTool).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "qortex_vector_query" }),
+        undefined,
+        { signal: controller.signal, timeout: 250 },
+      );
+    });
+
+    it("forwards options from graph extras", async () => {
+      callTool.mockResolvedValue(mockResponse({ status: "recorded" }));
+      const controller = new AbortController();
+
+      await qortex.feedback("q-1", { "i-1": "accepted" }, "mastra", {
+        signal: controller.signal,
+      });
+
+      expect(callTool).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "qortex_feedback" }),
+        undefined,
+        { signal: controller.signal, timeout: 60_000 },
+      );
+    });
+
+    it("rejects without calling when already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort(new Error("agent step cancelled"));
+
+      await expect(
+        qortex.textQuery("auth", { signal: controller.signal }),
+      ).rejects.toThrow("agent step cancelled");
+      expect(callTool).not.toHaveBeenCalled();
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Full lifecycle (simulates Mastra app workflow)
   // -----------------------------------------------------------------------